@@ -0,0 +1,82 @@
+// Keeps the app shell available offline and serves chapters downloaded
+// from the reader (see src/lib/offline.ts) straight from the cache.
+const SHELL_CACHE = "bntoon-shell-v1";
+const DOWNLOADS_CACHE = "bntoon-downloads-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/favicon.ico", "/pwa-icon.png"];
+// Built JS/CSS, listed by the asset-manifest plugin in vite.config.ts
+const ASSET_MANIFEST_URL = "/asset-manifest.json";
+
+// Missing assets only cost the offline shell, so they don't fail the install
+function precacheAssets(cache) {
+  return fetch(ASSET_MANIFEST_URL, { cache: "no-cache" })
+    .then((response) => (response.ok ? response.json() : []))
+    .then((urls) => cache.addAll(urls))
+    .catch((error) => console.warn("Could not precache build assets:", error));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS).then(() => precacheAssets(cache)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== DOWNLOADS_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  // Client-side routes: network first, falling back to the cached shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put("/", copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match("/", { cacheName: SHELL_CACHE }))
+    );
+    return;
+  }
+
+  // Build assets are content-hashed, so cache them as they're first loaded
+  if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(
+      caches.open(SHELL_CACHE).then(async (cache) => {
+        const cached = await cache.match(request);
+        if (cached) return cached;
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+      })
+    );
+    return;
+  }
+
+  // Downloaded chapter pages, PDFs and the PDF worker
+  event.respondWith(
+    caches
+      .match(request.url, { cacheName: DOWNLOADS_CACHE, ignoreVary: true })
+      .then((cached) => cached || fetch(request))
+  );
+});
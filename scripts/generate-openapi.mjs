@@ -0,0 +1,212 @@
+// Builds the public API's OpenAPI document from the Api* interfaces in
+// src/lib/db.ts, so the documented shapes can't drift from the frontend types.
+// Run with `npm run generate:openapi` after changing those interfaces.
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const typesFile = path.join(root, "src/lib/db.ts");
+const outFile = path.join(root, "supabase/functions/api/openapi.json");
+
+const SCHEMAS = [
+  "ApiSeries",
+  "ApiChapter",
+  "ApiPage",
+  "ApiChapterPages",
+  "ApiSeriesList",
+  "ApiChapterList",
+  "ApiError",
+];
+
+const source = fs.readFileSync(typesFile, "utf8");
+const sourceFile = ts.createSourceFile(typesFile, source, ts.ScriptTarget.Latest, true);
+
+function fail(node, message) {
+  const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  throw new Error(`${path.relative(root, typesFile)}:${line + 1}: ${message}`);
+}
+
+// `// comment` lines directly above a property become its description
+function leadingComment(node) {
+  const ranges = ts.getLeadingCommentRanges(source, node.getFullStart()) || [];
+  const text = ranges
+    .map((r) => source.slice(r.pos, r.end))
+    .filter((c) => c.startsWith("//"))
+    .map((c) => c.replace(/^\/\/\s?/, ""))
+    .join(" ")
+    .trim();
+  return text || undefined;
+}
+
+function typeToSchema(node) {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: "string" };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: "number" };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: "boolean" };
+    case ts.SyntaxKind.ArrayType:
+      return { type: "array", items: typeToSchema(node.elementType) };
+    case ts.SyntaxKind.TypeReference: {
+      const name = node.typeName.getText();
+      if (!SCHEMAS.includes(name)) fail(node, `${name} is not an exported API schema`);
+      return { $ref: `#/components/schemas/${name}` };
+    }
+    case ts.SyntaxKind.LiteralType:
+      if (ts.isStringLiteral(node.literal)) return { type: "string", enum: [node.literal.text] };
+      break;
+    case ts.SyntaxKind.UnionType: {
+      const members = node.types.filter(
+        (t) => !(ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword)
+      );
+      const nullable = members.length !== node.types.length;
+      let schema;
+      if (members.every((t) => ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal))) {
+        schema = { type: "string", enum: members.map((t) => t.literal.text) };
+      } else if (members.length === 1) {
+        schema = typeToSchema(members[0]);
+      } else {
+        schema = { oneOf: members.map(typeToSchema) };
+      }
+      if (!nullable) return schema;
+      // OpenAPI 3.0 can't mark a $ref nullable directly
+      return schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true };
+    }
+  }
+  fail(node, `Unsupported type in API schema: ${node.getText()}`);
+}
+
+function interfaceToSchema(decl) {
+  const properties = {};
+  const required = [];
+  for (const member of decl.members) {
+    if (!ts.isPropertySignature(member) || !member.type) {
+      fail(member, "API schemas may only contain typed properties");
+    }
+    const name = member.name.getText();
+    const schema = typeToSchema(member.type);
+    const description = leadingComment(member);
+    properties[name] = description ? { ...schema, description } : schema;
+    if (!member.questionToken) required.push(name);
+  }
+  return { type: "object", properties, required };
+}
+
+const schemas = {};
+ts.forEachChild(sourceFile, (node) => {
+  if (ts.isInterfaceDeclaration(node) && SCHEMAS.includes(node.name.text)) {
+    schemas[node.name.text] = interfaceToSchema(node);
+  }
+});
+for (const name of SCHEMAS) {
+  if (!schemas[name]) throw new Error(`Missing interface ${name} in src/lib/db.ts`);
+}
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const json = (description, schema) => ({
+  description,
+  content: { "application/json": { schema: ref(schema) } },
+});
+const errors = {
+  400: json("Invalid parameters", "ApiError"),
+  429: json("Rate limit exceeded, see the Retry-After header", "ApiError"),
+};
+const limitParam = {
+  name: "limit",
+  in: "query",
+  description: "Items per page (1-100, default 20)",
+  schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+};
+const cursorParam = {
+  name: "cursor",
+  in: "query",
+  description: "next_cursor from the previous page",
+  schema: { type: "string" },
+};
+const idParam = (name) => ({ name, in: "path", required: true, schema: { type: "string", format: "uuid" } });
+
+const document = {
+  openapi: "3.0.3",
+  info: {
+    title: "BnToon Public API",
+    version: "1.0.0",
+    description:
+      "Read-only catalog API for third-party readers. Responses are cacheable (Cache-Control and ETag) and rate limited per IP.",
+  },
+  servers: [{ url: "/functions/v1/api" }],
+  paths: {
+    "/v1/series": {
+      get: {
+        summary: "List series, most recently updated first",
+        parameters: [
+          limitParam,
+          cursorParam,
+          { name: "status", in: "query", schema: { type: "string" } },
+          { name: "type", in: "query", schema: { type: "string" } },
+        ],
+        responses: { 200: json("A page of series", "ApiSeriesList"), ...errors },
+      },
+    },
+    "/v1/series/{id}": {
+      get: {
+        summary: "Get a series",
+        parameters: [idParam("id")],
+        responses: {
+          200: json("The series", "ApiSeries"),
+          404: json("Series not found", "ApiError"),
+          ...errors,
+        },
+      },
+    },
+    "/v1/series/{id}/chapters": {
+      get: {
+        summary: "List a series' chapters",
+        parameters: [
+          idParam("id"),
+          limitParam,
+          cursorParam,
+          {
+            name: "order",
+            in: "query",
+            description: "By chapter number (default asc)",
+            schema: { type: "string", enum: ["asc", "desc"], default: "asc" },
+          },
+        ],
+        responses: {
+          200: json("A page of chapters", "ApiChapterList"),
+          404: json("Series not found", "ApiError"),
+          ...errors,
+        },
+      },
+    },
+    "/v1/chapters/{id}/pages": {
+      get: {
+        summary: "Get a chapter and its pages in reading order",
+        parameters: [idParam("id")],
+        responses: {
+          200: json("The chapter with its pages", "ApiChapterPages"),
+          404: json("Chapter not found", "ApiError"),
+          ...errors,
+        },
+      },
+    },
+    "/v1/search": {
+      get: {
+        summary: "Search series by title or alternative title",
+        parameters: [
+          { name: "q", in: "query", required: true, schema: { type: "string", minLength: 1 } },
+          limitParam,
+          cursorParam,
+        ],
+        responses: { 200: json("A page of matching series", "ApiSeriesList"), ...errors },
+      },
+    },
+  },
+  components: { schemas },
+};
+
+fs.writeFileSync(outFile, `${JSON.stringify(document, null, 2)}\n`);
+console.log(`Wrote ${path.relative(root, outFile)}`);
@@ -6,13 +6,20 @@ import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
 import Index from "./pages/index";
 import Browse from "./pages/browse";
+import SearchPage from "./pages/search";
 import SeriesPage from "./pages/series";
+import CreatorPage from "./pages/creator";
 import Reader from "./pages/reader";
+import Library from "./pages/library";
+import Downloads from "./pages/downloads";
 import AdminLogin from "./pages/admin/login";
 import AdminDashboard from "./pages/admin/dashboard";
 import SeriesForm from "./pages/admin/seriesform";
 import ChapterManager from "./pages/admin/chaptermanager";
+import ChapterPages from "./pages/admin/chapterpages";
 import GenreManager from "./pages/admin/genremanager";
+import CreatorManager from "./pages/admin/creatormanager";
+import StorageAudit from "./pages/admin/storageaudit";
 import NotFound from "./pages/notfound";
 import DMCA from "./pages/dmca";
 import { PageTransition } from "./components/layout/pagetransition";
@@ -28,14 +35,23 @@ function AnimatedRoutes() {
       <Routes location={location} key={location.pathname}>
         <Route path="/" element={<PageTransition><Index /></PageTransition>} />
         <Route path="/browse" element={<PageTransition><Browse /></PageTransition>} />
-        <Route path="/series/:id" element={<PageTransition><SeriesPage /></PageTransition>} />
+        <Route path="/search" element={<PageTransition><SearchPage /></PageTransition>} />
+        <Route path="/series/:slug" element={<PageTransition><SeriesPage /></PageTransition>} />
+        <Route path="/series/:slug/chapter/:number" element={<PageTransition><Reader /></PageTransition>} />
+        <Route path="/creator/:slug" element={<PageTransition><CreatorPage /></PageTransition>} />
+        {/* Pre-slug chapter links; the reader redirects them to /series/:slug/chapter/:number */}
         <Route path="/read/:chapterId" element={<PageTransition><Reader /></PageTransition>} />
+        <Route path="/library" element={<PageTransition><Library /></PageTransition>} />
+        <Route path="/downloads" element={<PageTransition><Downloads /></PageTransition>} />
         <Route path="/admin/login" element={<PageTransition><AdminLogin /></PageTransition>} />
         <Route path="/admin" element={<PageTransition><AdminRoute><AdminDashboard /></AdminRoute></PageTransition>} />
         <Route path="/admin/series/new" element={<PageTransition><AdminRoute><SeriesForm /></AdminRoute></PageTransition>} />
         <Route path="/admin/series/:id/edit" element={<PageTransition><AdminRoute><SeriesForm /></AdminRoute></PageTransition>} />
         <Route path="/admin/series/:seriesId/chapters" element={<PageTransition><AdminRoute><ChapterManager /></AdminRoute></PageTransition>} />
+        <Route path="/admin/series/:seriesId/chapters/:chapterId/pages" element={<PageTransition><AdminRoute><ChapterPages /></AdminRoute></PageTransition>} />
         <Route path="/admin/genres" element={<PageTransition><AdminRoute><GenreManager /></AdminRoute></PageTransition>} />
+        <Route path="/admin/creators" element={<PageTransition><AdminRoute><CreatorManager /></AdminRoute></PageTransition>} />
+        <Route path="/admin/storage" element={<PageTransition><AdminRoute><StorageAudit /></AdminRoute></PageTransition>} />
         <Route path="/dmca" element={<PageTransition><DMCA /></PageTransition>} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<PageTransition><NotFound /></PageTransition>} />
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { AlertTriangle, Archive, CheckCircle2, FolderOpen, Loader2, X, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { ChapterUploads } from "@/hooks/useChapterUploads";
+import { buildChapters } from "@/lib/chapterImport";
+import { createPendingUpload, PendingChapterUpload } from "@/lib/uploadQueue";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type RowStatus = "ready" | "uploading" | "done" | "failed";
+
+interface ImportRow {
+  key: string;
+  source: string;
+  number: string;
+  title: string;
+  pages: File[];
+  status: RowStatus;
+  error?: string;
+  // Created on the first attempt; a retry only re-sends the missing pages
+  upload?: PendingChapterUpload;
+}
+
+interface BulkChapterImportProps {
+  seriesId: string;
+  // Chapter numbers already in the series, flagged as conflicts in the preview
+  existingNumbers: number[];
+  uploads: ChapterUploads;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Reads ZIP/CBZ archives and chapter folders, previews the detected chapters
+// and uploads them one after another through create_chapter
+export function BulkChapterImport({
+  seriesId,
+  existingNumbers,
+  uploads,
+  open,
+  onOpenChange,
+}: BulkChapterImportProps) {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [reading, setReading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setReading(true);
+    try {
+      const chapters = await buildChapters(files);
+      if (chapters.length === 0) {
+        toast.error("No images found in the selection");
+        return;
+      }
+      setRows((prev) => {
+        const known = new Set(prev.map((row) => row.key));
+        const added = chapters
+          .filter((chapter) => !known.has(chapter.key))
+          .map((chapter) => ({
+            key: chapter.key,
+            source: chapter.source,
+            number: chapter.chapterNumber === null ? "" : String(chapter.chapterNumber),
+            title: "",
+            pages: chapter.pages,
+            status: "ready" as const,
+          }));
+        return [...prev, ...added];
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? `Could not read archive: ${error.message}` : "Could not read archive");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const updateRow = (key: string, next: Partial<ImportRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...next } : row)));
+  };
+
+  const removeRow = (key: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== key));
+  };
+
+  const pending = rows.filter((row) => row.status !== "done");
+
+  // Why a row can't be uploaded as-is, if anything
+  const problemFor = (row: ImportRow) => {
+    if (row.status === "done") return null;
+    const number = parseFloat(row.number);
+    if (!row.number || Number.isNaN(number)) return "Chapter number missing";
+    if (existingNumbers.includes(number)) return `Chapter ${number} already exists`;
+    if (pending.some((other) => other.key !== row.key && parseFloat(other.number) === number)) {
+      return `Chapter ${number} appears more than once`;
+    }
+    return null;
+  };
+
+  const hasProblems = pending.some((row) => problemFor(row) !== null);
+  const done = rows.filter((row) => row.status === "done").length;
+
+  const handleUpload = async () => {
+    setUploading(true);
+    let failed = 0;
+
+    // One chapter at a time keeps page uploads for a chapter together and
+    // lets the rest of the batch continue when one fails
+    for (const row of pending) {
+      const upload =
+        row.upload ||
+        createPendingUpload(seriesId, parseFloat(row.number), row.title.trim() || null, row.pages);
+      updateRow(row.key, { status: "uploading", error: undefined, upload });
+      try {
+        await uploads.start({ ...upload, title: row.title.trim() || null });
+        updateRow(row.key, { status: "done" });
+      } catch (error) {
+        failed++;
+        updateRow(row.key, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      }
+    }
+
+    setUploading(false);
+    if (failed > 0) {
+      toast.error(`${failed} of ${pending.length} chapters failed to upload`);
+    } else {
+      toast.success(`${pending.length} chapters uploaded`);
+      setRows([]);
+      onOpenChange(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (uploading) return;
+    if (!next) setRows([]);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Bulk Upload Chapters</DialogTitle>
+          <DialogDescription>
+            Each ZIP/CBZ archive or folder becomes one chapter. Pages are ordered by file name and
+            the chapter number is read from the archive or folder name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Label className="cursor-pointer">
+            <div className="border-2 border-dashed border-border rounded-lg p-4 text-center hover:border-muted-foreground transition-colors">
+              <Archive className="mx-auto h-6 w-6 text-muted-foreground mb-1" />
+              <p className="text-sm text-muted-foreground">Add ZIP/CBZ files</p>
+            </div>
+            <input
+              type="file"
+              accept=".zip,.cbz,application/zip"
+              multiple
+              onChange={handleFiles}
+              disabled={reading || uploading}
+              className="hidden"
+            />
+          </Label>
+          <Label className="cursor-pointer">
+            <div className="border-2 border-dashed border-border rounded-lg p-4 text-center hover:border-muted-foreground transition-colors">
+              <FolderOpen className="mx-auto h-6 w-6 text-muted-foreground mb-1" />
+              <p className="text-sm text-muted-foreground">Add a folder of chapters</p>
+            </div>
+            {/* webkitdirectory isn't in React's input attributes */}
+            <input
+              type="file"
+              multiple
+              {...{ webkitdirectory: "" }}
+              onChange={handleFiles}
+              disabled={reading || uploading}
+              className="hidden"
+            />
+          </Label>
+        </div>
+
+        {reading && (
+          <p className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Reading files...
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+            {rows.map((row) => {
+              const problem = problemFor(row);
+              return (
+                <div key={row.key} className="p-3 bg-card rounded-lg border border-border space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      step="0.1"
+                      value={row.number}
+                      onChange={(e) => updateRow(row.key, { number: e.target.value })}
+                      placeholder="No."
+                      className="w-24"
+                      disabled={uploading || !!row.upload}
+                      aria-label="Chapter number"
+                    />
+                    <Input
+                      value={row.title}
+                      onChange={(e) => updateRow(row.key, { title: e.target.value })}
+                      placeholder="Title (optional)"
+                      className="flex-1"
+                      disabled={uploading || row.status === "done"}
+                      aria-label="Chapter title"
+                    />
+                    {row.status === "uploading" && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    {row.status === "done" && <CheckCircle2 className="h-4 w-4 text-green-500" />}
+                    {row.status === "failed" && <XCircle className="h-4 w-4 text-destructive" />}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeRow(row.key)}
+                      disabled={uploading}
+                      aria-label="Remove chapter"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {row.source} · {row.pages.length} pages ({row.pages[0].name}
+                    {row.pages.length > 1 && ` … ${row.pages[row.pages.length - 1].name}`})
+                  </p>
+                  {row.status === "uploading" && row.upload && (
+                    <Progress value={uploads.percentFor(row.upload.id)} className="h-1.5" />
+                  )}
+                  {(problem || row.error) && (
+                    <p className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      {row.error || problem}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {uploading && <Progress value={(done / rows.length) * 100} />}
+
+        <div className="flex items-center justify-between gap-3 pt-2">
+          <p className="text-sm text-muted-foreground">
+            {rows.length > 0 ? `${pending.length} chapters to upload` : "No chapters selected"}
+          </p>
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={uploading}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              className="btn-accent"
+              onClick={handleUpload}
+              disabled={uploading || reading || pending.length === 0 || hasProblems}
+            >
+              {uploading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Uploading {done + 1} of {rows.length}...
+                </>
+              ) : (
+                `Upload ${pending.length} Chapters`
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { X, Plus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useCreators,
+  useCreateCreator,
+  CreatorRole,
+  CREATOR_ROLES,
+  CREATOR_ROLE_LABELS,
+} from "@/hooks/useCreators";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface CreatorLink {
+  creator_id: string;
+  role: CreatorRole;
+}
+
+interface CreatorPickerProps {
+  value: CreatorLink[];
+  onChange: (value: CreatorLink[]) => void;
+}
+
+export function CreatorPicker({ value, onChange }: CreatorPickerProps) {
+  const { data: creators } = useCreators();
+  const createCreator = useCreateCreator();
+  const [newName, setNewName] = useState("");
+
+  const nameOf = (creatorId: string) => creators?.find((c) => c.id === creatorId)?.name ?? "Unknown";
+
+  const add = (creatorId: string, role: CreatorRole) => {
+    if (value.some((link) => link.creator_id === creatorId && link.role === role)) return;
+    onChange([...value, { creator_id: creatorId, role }]);
+  };
+
+  const remove = (creatorId: string, role: CreatorRole) => {
+    onChange(value.filter((link) => !(link.creator_id === creatorId && link.role === role)));
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      await createCreator.mutateAsync({ name });
+      toast.success(`Creator "${name}" added`);
+      setNewName("");
+    } catch (error) {
+      toast.error(
+        error instanceof Error && error.message.includes("duplicate") ? "A creator with this name already exists" : "Failed to add creator"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-muted/30 rounded-lg">
+      {CREATOR_ROLES.map((role) => {
+        const linked = value.filter((link) => link.role === role);
+        const available = creators?.filter((c) => !linked.some((link) => link.creator_id === c.id)) ?? [];
+
+        return (
+          <div key={role} className="flex flex-wrap items-center gap-2">
+            <span className="w-36 text-sm text-muted-foreground">{CREATOR_ROLE_LABELS[role]}</span>
+            {linked.map((link) => (
+              <Badge key={link.creator_id} variant="default" className="gap-1">
+                {nameOf(link.creator_id)}
+                <button type="button" onClick={() => remove(link.creator_id, role)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            {available.length > 0 && (
+              // Keyed by count so the trigger resets to its placeholder after each pick
+              <Select key={linked.length} onValueChange={(creatorId) => add(creatorId, role)}>
+                <SelectTrigger className="w-44 h-8 text-xs">
+                  <SelectValue placeholder="Add..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map((creator) => (
+                    <SelectItem key={creator.id} value={creator.id}>
+                      {creator.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 pt-2 border-t border-border/50">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="Not listed? Add a new creator"
+          className="h-8 text-sm"
+          maxLength={100}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleCreate}
+          disabled={!newName.trim() || createCreator.isPending}
+        >
+          {createCreator.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+        <Link to="/admin/creators" className="text-xs text-primary hover:underline whitespace-nowrap">
+          Manage
+        </Link>
+      </div>
+    </div>
+  );
+}
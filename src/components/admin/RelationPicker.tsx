@@ -0,0 +1,112 @@
+import { Plus, X } from "lucide-react";
+import { useAllSeries } from "@/hooks/useSeries";
+import { RelationType, SeriesRelation, RELATION_TYPES, RELATION_LABELS } from "@/hooks/useSeriesRelations";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface RelationLink {
+  related_series_id: string;
+  relation_type: RelationType;
+}
+
+interface RelationPickerProps {
+  seriesId?: string;
+  value: RelationLink[];
+  onChange: (value: RelationLink[]) => void;
+  // Links added on other series, shown read-only
+  inverse?: SeriesRelation[];
+}
+
+export function RelationPicker({ seriesId, value, onChange, inverse = [] }: RelationPickerProps) {
+  const { data: allSeries } = useAllSeries();
+  const candidates = allSeries?.filter((s) => s.id !== seriesId) ?? [];
+
+  const update = (index: number, next: Partial<RelationLink>) => {
+    onChange(value.map((link, i) => (i === index ? { ...link, ...next } : link)));
+  };
+
+  const addRow = () => {
+    const used = new Set(value.map((link) => link.related_series_id));
+    const next = candidates.find((s) => !used.has(s.id));
+    if (next) onChange([...value, { related_series_id: next.id, relation_type: "sequel" }]);
+  };
+
+  return (
+    <div className="space-y-2 p-4 bg-muted/30 rounded-lg">
+      {value.map((link, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={link.relation_type}
+            onValueChange={(v) => update(index, { relation_type: v as RelationType })}
+          >
+            <SelectTrigger className="w-44 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RELATION_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {RELATION_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={link.related_series_id}
+            onValueChange={(v) => update(index, { related_series_id: v })}
+          >
+            <SelectTrigger className="flex-1 h-9">
+              <SelectValue placeholder="Choose a series" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates
+                .filter(
+                  (s) =>
+                    s.id === link.related_series_id ||
+                    !value.some((other) => other.related_series_id === s.id)
+                )
+                .map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.title}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 shrink-0"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {inverse.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Linked from other series:{" "}
+          {inverse.map((rel) => `${rel.title} (${RELATION_LABELS[rel.relation_type]})`).join(", ")}
+        </p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addRow}
+        disabled={candidates.length <= value.length}
+        className="gap-1"
+      >
+        <Plus className="h-4 w-4" />
+        Add relation
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { AlertTriangle, CheckCircle2, Loader2, RotateCw, XCircle } from "lucide-react";
+import { PageProgress, PendingChapterUpload } from "@/lib/uploadQueue";
+import { Progress } from "@/components/ui/progress";
+
+interface UploadProgressListProps {
+  upload: PendingChapterUpload;
+  progress?: Record<number, PageProgress>;
+}
+
+// Per-page status of a chapter upload
+export function UploadProgressList({ upload, progress = {} }: UploadProgressListProps) {
+  return (
+    <div className="max-h-48 overflow-y-auto space-y-1.5 pr-1">
+      {upload.pages.map((page) => {
+        const state = progress[page.pageNumber];
+        const status = state?.status ?? (page.images ? "done" : "queued");
+        const percent = state && state.total > 0 ? (state.loaded / state.total) * 100 : 0;
+        return (
+          <div key={page.pageNumber} className="flex items-center gap-2 text-xs">
+            <span className="w-8 shrink-0 text-muted-foreground">{page.pageNumber}</span>
+            <span className="w-32 shrink-0 truncate" title={page.file.name}>
+              {page.file.name}
+            </span>
+            <Progress value={status === "done" ? 100 : percent} className="h-1.5 flex-1" />
+            <span className="w-4 shrink-0" title={state?.error ?? state?.warning}>
+              {status === "uploading" && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+              {status === "retrying" && <RotateCw className="h-3 w-3 text-yellow-500" />}
+              {status === "done" && !state?.warning && <CheckCircle2 className="h-3 w-3 text-green-500" />}
+              {status === "done" && state?.warning && <AlertTriangle className="h-3 w-3 text-yellow-500" />}
+              {status === "failed" && <XCircle className="h-3 w-3 text-destructive" />}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,28 +1,31 @@
 import { Link } from "react-router-dom";
 import { LazyImage } from "@/components/ui/lazy-image";
+import { seriesPath } from "@/lib/routes";
 
 interface BrowseCardProps {
-  id: string;
+  slug: string;
   title: string;
   coverUrl?: string | null;
   status: string;
   type: string;
   chaptersCount: number;
+  unreadCount?: number;
 }
 
 export function BrowseCard({
-  id,
+  slug,
   title,
   coverUrl,
   status,
   type,
   chaptersCount,
+  unreadCount,
 }: BrowseCardProps) {
   const typeLabel = type.charAt(0).toUpperCase() + type.slice(1);
   const statusLabel = status.charAt(0).toUpperCase() + status.slice(1);
 
   return (
-    <Link to={`/series/${id}`} className="group block">
+    <Link to={seriesPath(slug)} className="group block">
       <div className="relative overflow-hidden rounded-xl bg-card transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
         {/* Cover Image Container */}
         <div className="relative overflow-hidden">
@@ -58,6 +61,15 @@ export function BrowseCard({
               {statusLabel}
             </span>
           </div>
+
+          {/* Unread badge - bottom left */}
+          {unreadCount > 0 && (
+            <div className="absolute bottom-2 left-2 z-10">
+              <span className="text-[10px] font-bold px-2 py-1 rounded-md bg-red-500 text-white shadow-sm">
+                {unreadCount} NEW
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Info Section */}
@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface FacetOption {
+  value: string;
+  label: string;
+}
+
+interface FacetSelectProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  allLabel: string;
+  options: FacetOption[];
+  counts?: Record<string, number>;
+}
+
+// A browse filter dropdown; each option shows how many series picking it would give
+export function FacetSelect({ value, onChange, allLabel, options, counts }: FacetSelectProps) {
+  return (
+    <Select value={value ?? "all"} onValueChange={(v) => onChange(v === "all" ? null : v)}>
+      <SelectTrigger className="w-40 h-9">
+        <SelectValue placeholder={allLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{allLabel}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+            {counts && <span className="ml-1.5 text-muted-foreground">({counts[option.value] ?? 0})</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
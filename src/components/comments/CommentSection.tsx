@@ -5,6 +5,7 @@
  import { Textarea } from "@/components/ui/textarea";
  import { Loader2, Send, LogOut, MessageCircle } from "lucide-react";
  import { useToast } from "@/hooks/use-toast";
+ import { notifyTelegramUserChange } from "@/hooks/useTelegramUser";
  
  interface CommentSectionProps {
    seriesId: string;
@@ -42,6 +43,7 @@
    const handleLogout = () => {
      localStorage.removeItem("tg_user");
      document.cookie = "tg_auth=; Path=/; Expires=Thu, 01 Jan 1970 00:00:01 GMT;";
+     notifyTelegramUserChange();
      setUser(null);
    };
  
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { MessageCircle } from "lucide-react";
+import { notifyTelegramUserChange } from "@/hooks/useTelegramUser";
 
 interface TelegramLoginProps {
   botName: string;
@@ -97,6 +98,7 @@ export function TelegramLogin({ botName, onAuth }: TelegramLoginProps) {
         const data = await response.json();
         if (data.success && data.user) {
           localStorage.setItem("tg_user", JSON.stringify(data.user));
+          notifyTelegramUserChange();
           onAuthRef.current(data.user);
         }
       } else {
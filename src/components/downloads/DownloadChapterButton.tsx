@@ -0,0 +1,86 @@
+import { Download, CheckCircle2, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isOfflineSupported } from "@/lib/offline";
+import { useChapterDownload } from "@/hooks/useDownloads";
+import { useToast } from "@/hooks/use-toast";
+
+interface DownloadChapterButtonProps {
+  chapterId: string;
+  chapterNumber: number;
+  seriesTitle?: string | null;
+  className?: string;
+}
+
+export function DownloadChapterButton({
+  chapterId,
+  chapterNumber,
+  seriesTitle,
+  className,
+}: DownloadChapterButtonProps) {
+  const { isDownloaded, isDownloading, progress, download, remove } =
+    useChapterDownload(chapterId);
+  const { toast } = useToast();
+
+  if (!isOfflineSupported()) return null;
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Rendered inside chapter links on the series page
+    e.preventDefault();
+    e.stopPropagation();
+    if (isDownloading) return;
+
+    try {
+      if (isDownloaded) {
+        await remove();
+        toast({ title: `Chapter ${chapterNumber} removed from downloads` });
+      } else {
+        await download(seriesTitle ?? null);
+        toast({
+          title: `Chapter ${chapterNumber} downloaded`,
+          description: "It can now be read without a connection.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: isDownloaded ? "Failed to remove download" : "Download failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const label = isDownloading
+    ? "Downloading chapter"
+    : isDownloaded
+      ? "Remove download"
+      : "Download chapter";
+
+  return (
+    <button
+      onClick={handleClick}
+      className={cn(
+        "flex items-center gap-1.5 p-2 rounded-md transition-colors",
+        "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+        "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50",
+        className
+      )}
+      aria-label={label}
+      title={label}
+    >
+      {isDownloading ? (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {progress && progress.total > 0 && (
+            <span className="text-xs tabular-nums">
+              {Math.round((progress.done / progress.total) * 100)}%
+            </span>
+          )}
+        </>
+      ) : isDownloaded ? (
+        <CheckCircle2 className="h-4 w-4 text-primary" />
+      ) : (
+        <Download className="h-4 w-4" />
+      )}
+    </button>
+  );
+}
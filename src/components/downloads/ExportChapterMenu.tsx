@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { FileArchive, FileText, Loader2, Package } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const EXPORT_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/export`;
+
+type ExportFormat = "cbz" | "pdf";
+
+interface ExportChapterMenuProps {
+  chapterId: string;
+  chapterType: string;
+  className?: string;
+}
+
+function fileNameFrom(disposition: string | null, fallback: string) {
+  const encoded = disposition?.match(/filename\*=UTF-8''([^;]+)/);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  const plain = disposition?.match(/filename="([^"]+)"/);
+  return plain ? plain[1] : fallback;
+}
+
+// Save a chapter as a CBZ archive or PDF for use in other comic apps
+export function ExportChapterMenu({ chapterId, chapterType, className }: ExportChapterMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const params = new URLSearchParams({ chapterId, format });
+      const response = await fetch(`${EXPORT_FUNCTION_URL}?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Export failed");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileNameFrom(
+        response.headers.get("Content-Disposition"),
+        `chapter.${format}`
+      );
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          // Rendered inside chapter links on the series page
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+          }}
+          disabled={exporting !== null}
+          className={cn(
+            "p-2 rounded-md transition-colors",
+            "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+            "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50",
+            className
+          )}
+          aria-label="Export chapter"
+          title="Export chapter"
+        >
+          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Package className="h-4 w-4" />}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+          Export chapter
+        </DropdownMenuLabel>
+        {chapterType !== "pdf" && (
+          <DropdownMenuItem onSelect={() => handleExport("cbz")}>
+            <FileArchive className="mr-2 h-4 w-4" />
+            CBZ archive
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={() => handleExport("pdf")}>
+          <FileText className="mr-2 h-4 w-4" />
+          PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
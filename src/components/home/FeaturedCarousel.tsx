@@ -3,9 +3,11 @@ import { Link } from "react-router-dom";
 import { ChevronLeft, ChevronRight, BookOpen, Flame } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { seriesPath } from "@/lib/routes";
 
 interface FeaturedSeries {
   id: string;
+  slug: string;
   title: string;
   cover_url?: string | null;
   description?: string | null;
@@ -104,7 +106,7 @@ export function FeaturedCarousel({ series }: FeaturedCarouselProps) {
               )}
             </div>
 
-            <Link to={`/series/${current.id}`}>
+            <Link to={seriesPath(current.slug)}>
               <Button size="lg" className="btn-accent text-base px-8 py-6 rounded-xl shadow-hero">
                 <BookOpen className="mr-2 h-5 w-5" />
                 Read Now
@@ -119,7 +121,7 @@ export function FeaturedCarousel({ series }: FeaturedCarouselProps) {
               <div className="absolute -inset-4 bg-gradient-to-br from-accent/30 via-accent/10 to-transparent rounded-2xl blur-2xl" />
               
               <Link 
-                to={`/series/${current.id}`}
+                to={seriesPath(current.slug)}
                 className="relative block aspect-[3/4] w-48 md:w-64 lg:w-72 overflow-hidden rounded-2xl shadow-hero ring-1 ring-white/10 transform transition-transform duration-500 hover:scale-105"
               >
                 {current.cover_url ? (
@@ -4,6 +4,7 @@ import { ChevronLeft, ChevronRight, BookOpen, Info, Bookmark } from "lucide-reac
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { LazyImage } from "@/components/ui/lazy-image";
+import { seriesPath } from "@/lib/routes";
 
 interface Genre {
   id: string;
@@ -13,6 +14,7 @@ interface Genre {
 
 interface FeaturedSeries {
   id: string;
+  slug: string;
   title: string;
   cover_url?: string | null;
   banner_url?: string | null;
@@ -174,7 +176,7 @@ export function FeaturedHero({ series }: FeaturedHeroProps) {
 
             {/* Action Buttons */}
             <div className="flex flex-wrap items-center gap-3">
-              <Link to={`/series/${current.id}`}>
+              <Link to={seriesPath(current.slug)}>
                 <Button 
                   className="bg-primary hover:bg-primary/90 text-white font-semibold px-6 py-2.5 text-sm rounded-lg shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300 hover:-translate-y-0.5"
                 >
@@ -182,7 +184,7 @@ export function FeaturedHero({ series }: FeaturedHeroProps) {
                   Read Now
                 </Button>
               </Link>
-              <Link to={`/series/${current.id}`}>
+              <Link to={seriesPath(current.slug)}>
                 <Button 
                   variant="outline"
                   className="border-white/20 bg-white/5 backdrop-blur-sm hover:bg-white/10 text-white font-medium px-5 py-2.5 text-sm rounded-lg transition-all duration-300 hover:-translate-y-0.5"
@@ -202,7 +204,7 @@ export function FeaturedHero({ series }: FeaturedHeroProps) {
               
               {/* Cover Image */}
               <Link 
-                to={`/series/${current.id}`}
+                to={seriesPath(current.slug)}
                 className={`relative block transition-all duration-500 ${isTransitioning ? 'opacity-0 scale-95' : 'opacity-100 scale-100'}`}
               >
                 <div className="relative aspect-[3/4] w-44 md:w-52 lg:w-60 overflow-hidden rounded-xl shadow-2xl ring-1 ring-white/10 group-hover:ring-primary/50 transition-all duration-500">
@@ -4,6 +4,7 @@ import { ChevronLeft, ChevronRight, BookOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { LazyImage } from "@/components/ui/lazy-image";
+import { seriesPath } from "@/lib/routes";
 
 interface Genre {
   id: string;
@@ -13,6 +14,7 @@ interface Genre {
 
 interface FeaturedSeries {
   id: string;
+  slug: string;
   title: string;
   cover_url?: string | null;
   description?: string | null;
@@ -85,7 +87,7 @@ export function FeaturedSection({ series }: FeaturedSectionProps) {
         <div className="flex flex-col sm:flex-row gap-4 p-4">
           {/* Cover Image */}
           <Link 
-            to={`/series/${current.id}`}
+            to={seriesPath(current.slug)}
             className="shrink-0 group"
           >
             <div className="relative w-full sm:w-32 md:w-36 aspect-[3/4] overflow-hidden rounded-lg ring-1 ring-border group-hover:ring-primary/50 transition-all">
@@ -136,7 +138,7 @@ export function FeaturedSection({ series }: FeaturedSectionProps) {
             </div>
 
             {/* Title */}
-            <Link to={`/series/${current.id}`}>
+            <Link to={seriesPath(current.slug)}>
               <h3 className="font-display text-lg font-bold text-foreground hover:text-primary transition-colors line-clamp-2 mb-2">
                 {current.title}
               </h3>
@@ -165,7 +167,7 @@ export function FeaturedSection({ series }: FeaturedSectionProps) {
 
             {/* Read Button */}
             <div className="mt-auto">
-              <Link to={`/series/${current.id}`}>
+              <Link to={seriesPath(current.slug)}>
                 <Button size="sm" className="text-xs">
                   <BookOpen className="mr-1.5 h-3.5 w-3.5" />
                   Read Now
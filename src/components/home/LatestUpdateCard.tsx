@@ -2,6 +2,7 @@ import { Link } from "react-router-dom";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import { LazyImage } from "@/components/ui/lazy-image";
+import { chapterPath, seriesPath } from "@/lib/routes";
 
 interface Chapter {
   id: string;
@@ -11,7 +12,7 @@ interface Chapter {
 }
 
 interface LatestUpdateCardProps {
-  id: string;
+  slug: string;
   title: string;
   coverUrl?: string | null;
   status: string;
@@ -36,13 +37,13 @@ const getStatusStyle = (status: string) => {
   }
 };
 
-export function LatestUpdateCard({ id, title, coverUrl, status, type = "manhwa", chapters }: LatestUpdateCardProps) {
+export function LatestUpdateCard({ slug, title, coverUrl, status, type = "manhwa", chapters }: LatestUpdateCardProps) {
   const recentChapters = chapters.slice(0, 3);
 
   return (
     <div className="flex gap-3 p-3 hover:bg-muted/30 transition-colors">
       {/* Cover Thumbnail with Lazy Loading */}
-      <Link to={`/series/${id}`} className="shrink-0">
+      <Link to={seriesPath(slug)} className="shrink-0">
         <div className="w-[70px] rounded-md overflow-hidden ring-1 ring-border hover:ring-primary/50 transition-all">
           {coverUrl ? (
             <LazyImage
@@ -64,7 +65,7 @@ export function LatestUpdateCard({ id, title, coverUrl, status, type = "manhwa",
       <div className="flex-1 min-w-0 py-0.5">
         {/* Title Row */}
         <div className="flex items-start justify-between gap-2 mb-2">
-          <Link to={`/series/${id}`} className="flex-1 min-w-0">
+          <Link to={seriesPath(slug)} className="flex-1 min-w-0">
             <h3 className="font-semibold text-sm text-foreground line-clamp-1 hover:text-primary transition-colors">
               {title}
             </h3>
@@ -85,7 +86,7 @@ export function LatestUpdateCard({ id, title, coverUrl, status, type = "manhwa",
               return (
                 <Link
                   key={chapter.id}
-                  to={`/read/${chapter.id}`}
+                  to={chapterPath(slug, chapter.chapter_number)}
                   className="flex items-center justify-between text-xs group"
                 >
                   <span className="flex items-center gap-1.5 text-muted-foreground group-hover:text-primary transition-colors truncate">
@@ -6,6 +6,7 @@ import { usePopularSeriesWithGenres } from "@/hooks/usePopularSeriesWithGenres";
 import { useAuth } from "@/hooks/useAuth";
 import { Skeleton } from "@/components/ui/skeleton";
 import { LazyImage } from "@/components/ui/lazy-image";
+import { seriesPath } from "@/lib/routes";
 
 export function PopularSidebar() {
   const [period, setPeriod] = useState<TimePeriod>("weekly");
@@ -61,7 +62,7 @@ export function PopularSidebar() {
           {popularSeries.map((s, index) => (
             <Link
               key={s.id}
-              to={`/series/${s.id}`}
+              to={seriesPath(s.slug)}
               className="flex items-start gap-3 p-2.5 rounded-lg hover:bg-white/5 transition-all duration-200 group"
             >
               {/* Rank */}
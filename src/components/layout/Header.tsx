@@ -11,6 +11,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { TelegramLogin, TelegramUser } from "@/components/comments/TelegramLogin";
+import { notifyTelegramUserChange } from "@/hooks/useTelegramUser";
 import logo from "@/assets/logo.png";
 
 export function Header() {
@@ -44,6 +45,7 @@ export function Header() {
   const handleLogout = () => {
     localStorage.removeItem("tg_user");
     document.cookie = "tg_auth=; Path=/; Expires=Thu, 01 Jan 1970 00:00:01 GMT;";
+    notifyTelegramUserChange();
     setUser(null);
   };
 
@@ -100,6 +102,26 @@ export function Header() {
                   Comics
                 </Button>
               </Link>
+              {user && (
+                <Link to="/library">
+                  <Button
+                    variant={isActive("/library") ? "secondary" : "ghost"}
+                    size="sm"
+                    className="text-sm"
+                  >
+                    Library
+                  </Button>
+                </Link>
+              )}
+              <Link to="/downloads">
+                <Button
+                  variant={isActive("/downloads") ? "secondary" : "ghost"}
+                  size="sm"
+                  className="text-sm"
+                >
+                  Downloads
+                </Button>
+              </Link>
             </nav>
 
             {/* Spacer */}
@@ -190,6 +212,26 @@ export function Header() {
                     Comics
                   </Button>
                 </Link>
+                {user && (
+                  <Link to="/library" onClick={() => setMobileMenuOpen(false)}>
+                    <Button
+                      variant={isActive("/library") ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      size="sm"
+                    >
+                      Library
+                    </Button>
+                  </Link>
+                )}
+                <Link to="/downloads" onClick={() => setMobileMenuOpen(false)}>
+                  <Button
+                    variant={isActive("/downloads") ? "secondary" : "ghost"}
+                    className="w-full justify-start"
+                    size="sm"
+                  >
+                    Downloads
+                  </Button>
+                </Link>
                 
                 {/* Mobile Login/Logout */}
                 {user ? (
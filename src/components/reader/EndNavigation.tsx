@@ -1,5 +1,7 @@
-import { useNavigate } from "react-router-dom";
+import { useNavigate, Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
+import { chapterPath, seriesPath } from "@/lib/routes";
+import { useSeriesRelations } from "@/hooks/useSeriesRelations";
 
 interface Chapter {
   id: string;
@@ -10,17 +12,25 @@ interface Chapter {
 interface EndNavigationProps {
   prevChapter: Chapter | null;
   nextChapter: Chapter | null;
+  seriesId?: string;
+  seriesSlug?: string;
 }
 
-export function EndNavigation({ prevChapter, nextChapter }: EndNavigationProps) {
+export function EndNavigation({ prevChapter, nextChapter, seriesId, seriesSlug }: EndNavigationProps) {
   const navigate = useNavigate();
+  const readPath = (chapter: Chapter) =>
+    seriesSlug ? chapterPath(seriesSlug, chapter.chapter_number) : `/read/${chapter.id}`;
+  // Only look for a sequel once the reader is on the last chapter
+  const { data: relations } = useSeriesRelations(!nextChapter && seriesId ? seriesId : "");
+  const sequel = relations?.find((rel) => rel.relation_type === "sequel");
+  const sequelStart = sequel?.first_chapter_number ?? null;
 
   return (
     <div className="w-full max-w-3xl mx-auto px-4 py-12">
       <div className="flex items-center justify-center gap-6">
         <button
           disabled={!prevChapter}
-          onClick={() => prevChapter && navigate(`/read/${prevChapter.id}`)}
+          onClick={() => prevChapter && navigate(readPath(prevChapter))}
           className={cn(
             "px-6 py-3 text-sm font-medium rounded-md transition-colors",
             "text-muted-foreground hover:text-foreground",
@@ -35,7 +45,7 @@ export function EndNavigation({ prevChapter, nextChapter }: EndNavigationProps)
 
         <button
           disabled={!nextChapter}
-          onClick={() => nextChapter && navigate(`/read/${nextChapter.id}`)}
+          onClick={() => nextChapter && navigate(readPath(nextChapter))}
           className={cn(
             "px-6 py-3 text-sm font-medium rounded-md transition-colors",
             "text-muted-foreground hover:text-foreground",
@@ -46,6 +56,28 @@ export function EndNavigation({ prevChapter, nextChapter }: EndNavigationProps)
           Next Chapter
         </button>
       </div>
+
+      {!nextChapter && sequel && (
+        <div className="mt-8 flex flex-col sm:flex-row items-center gap-4 rounded-xl border border-border bg-card p-4">
+          {sequel.cover_url && (
+            <img src={sequel.cover_url} alt={sequel.title} className="h-24 w-16 shrink-0 rounded object-cover" />
+          )}
+          <div className="flex-1 min-w-0 text-center sm:text-left">
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">The story continues in</p>
+            <Link to={seriesPath(sequel.slug)} className="font-semibold text-foreground hover:text-primary">
+              {sequel.title}
+            </Link>
+          </div>
+          {sequelStart !== null && (
+            <button
+              onClick={() => navigate(chapterPath(sequel.slug, sequelStart))}
+              className="px-5 py-2.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+            >
+              Start Sequel
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
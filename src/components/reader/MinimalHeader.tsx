@@ -1,7 +1,12 @@
 import { useState, useEffect, useRef } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { ChevronLeft, ChevronRight, ChevronDown, ArrowLeft } from "lucide-react";
+import { ChevronLeft, ChevronRight, ChevronDown, ArrowLeft, Rows3, GalleryHorizontal, Columns2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { chapterPath, seriesPath } from "@/lib/routes";
+import type { ReadingMode, ReadingDirection } from "@/hooks/useReadingMode";
+import type { ReaderSettings } from "@/hooks/useReaderSettings";
+import { ReaderSettingsPanel } from "@/components/reader/ReaderSettingsPanel";
+import { DownloadChapterButton } from "@/components/downloads/DownloadChapterButton";
 
 interface Chapter {
   id: string;
@@ -11,20 +16,45 @@ interface Chapter {
 
 interface MinimalHeaderProps {
   seriesId: string;
+  // Falls back to id-based links while the series is loading
+  seriesSlug?: string;
   seriesTitle?: string;
   currentChapter: Chapter;
   chapters: Chapter[];
   prevChapter: Chapter | null;
   nextChapter: Chapter | null;
+  readingMode?: ReadingMode;
+  direction?: ReadingDirection;
+  spread?: boolean;
+  spreadOffset?: boolean;
+  onReadingModeChange?: (mode: ReadingMode) => void;
+  onDirectionChange?: (direction: ReadingDirection) => void;
+  onSpreadChange?: (spread: boolean) => void;
+  onSpreadOffsetChange?: (spreadOffset: boolean) => void;
+  settings?: ReaderSettings;
+  onSettingsChange?: (changes: Partial<ReaderSettings>) => void;
+  onSettingsReset?: () => void;
 }
 
 export function MinimalHeader({
   seriesId,
+  seriesSlug,
   seriesTitle,
   currentChapter,
   chapters,
   prevChapter,
   nextChapter,
+  readingMode,
+  direction,
+  spread,
+  spreadOffset,
+  onReadingModeChange,
+  onDirectionChange,
+  onSpreadChange,
+  onSpreadOffsetChange,
+  settings,
+  onSettingsChange,
+  onSettingsReset,
 }: MinimalHeaderProps) {
   const navigate = useNavigate();
   const [isVisible, setIsVisible] = useState(true);
@@ -91,9 +121,12 @@ export function MinimalHeader({
     return () => document.removeEventListener("keydown", handleEscape);
   }, []);
 
-  const handleSelect = (chapterId: string) => {
-    if (chapterId !== currentChapter.id) {
-      navigate(`/read/${chapterId}`);
+  const readPath = (chapter: Chapter) =>
+    seriesSlug ? chapterPath(seriesSlug, chapter.chapter_number) : `/read/${chapter.id}`;
+
+  const handleSelect = (chapter: Chapter) => {
+    if (chapter.id !== currentChapter.id) {
+      navigate(readPath(chapter));
     }
     setIsDropdownOpen(false);
   };
@@ -110,7 +143,7 @@ export function MinimalHeader({
           <div className="grid grid-cols-3 items-center h-12">
             {/* Left: Back Icon + Series Title */}
             <Link
-              to={`/series/${seriesId}`}
+              to={seriesPath(seriesSlug || seriesId)}
               className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
             >
               <ArrowLeft className="h-4 w-4 shrink-0" />
@@ -177,7 +210,7 @@ export function MinimalHeader({
                           <button
                             key={chapter.id}
                             data-current={isCurrent}
-                            onClick={() => handleSelect(chapter.id)}
+                            onClick={() => handleSelect(chapter)}
                             className={cn(
                               "w-full flex items-center px-4 py-2.5",
                               "text-left text-sm transition-colors",
@@ -212,11 +245,87 @@ export function MinimalHeader({
               )}
             </div>
 
-            {/* Right: Navigation */}
+            {/* Right: Download, settings, reading mode + Navigation */}
             <div className="flex items-center gap-1 justify-end">
+              <DownloadChapterButton
+                chapterId={currentChapter.id}
+                chapterNumber={currentChapter.chapter_number}
+                seriesTitle={seriesTitle}
+              />
+              {settings && onSettingsChange && onSettingsReset && (
+                <ReaderSettingsPanel
+                  settings={settings}
+                  onChange={onSettingsChange}
+                  onReset={onSettingsReset}
+                />
+              )}
+              {readingMode && onReadingModeChange && (
+                <button
+                  onClick={() =>
+                    onReadingModeChange(readingMode === "paged" ? "vertical" : "paged")
+                  }
+                  className={cn(
+                    "p-2 rounded-md transition-colors",
+                    "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+                    "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+                  )}
+                  aria-label={readingMode === "paged" ? "Switch to vertical mode" : "Switch to paged mode"}
+                  title={readingMode === "paged" ? "Paged" : "Vertical"}
+                >
+                  {readingMode === "paged" ? (
+                    <GalleryHorizontal className="h-4 w-4" />
+                  ) : (
+                    <Rows3 className="h-4 w-4" />
+                  )}
+                </button>
+              )}
+              {readingMode === "paged" && direction && onDirectionChange && (
+                <button
+                  onClick={() => onDirectionChange(direction === "rtl" ? "ltr" : "rtl")}
+                  className={cn(
+                    "px-2 py-1.5 rounded-md text-xs font-semibold uppercase transition-colors",
+                    "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+                    "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+                  )}
+                  aria-label={direction === "rtl" ? "Switch to left-to-right" : "Switch to right-to-left"}
+                >
+                  {direction}
+                </button>
+              )}
+              {readingMode === "paged" && onSpreadChange && (
+                <button
+                  onClick={() => onSpreadChange(!spread)}
+                  className={cn(
+                    "hidden md:inline-flex p-2 rounded-md transition-colors",
+                    "hover:text-foreground hover:bg-muted/50",
+                    spread ? "text-foreground bg-muted/60" : "text-muted-foreground",
+                    "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+                  )}
+                  aria-label={spread ? "Show single pages" : "Show two-page spreads"}
+                  aria-pressed={!!spread}
+                >
+                  <Columns2 className="h-4 w-4" />
+                </button>
+              )}
+              {readingMode === "paged" && spread && onSpreadOffsetChange && (
+                <button
+                  onClick={() => onSpreadOffsetChange(!spreadOffset)}
+                  className={cn(
+                    "hidden md:inline-flex px-2 py-1.5 rounded-md text-xs font-semibold transition-colors",
+                    "hover:text-foreground hover:bg-muted/50",
+                    spreadOffset ? "text-foreground bg-muted/60" : "text-muted-foreground",
+                    "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+                  )}
+                  aria-label="Offset spreads by one page"
+                  aria-pressed={!!spreadOffset}
+                  title="Offset spreads by one page"
+                >
+                  +1
+                </button>
+              )}
               <button
                 disabled={!prevChapter}
-                onClick={() => prevChapter && navigate(`/read/${prevChapter.id}`)}
+                onClick={() => prevChapter && navigate(readPath(prevChapter))}
                 className={cn(
                   "p-2 rounded-md transition-colors",
                   "hover:bg-muted/50 disabled:opacity-30 disabled:cursor-not-allowed",
@@ -228,7 +337,7 @@ export function MinimalHeader({
               </button>
               <button
                 disabled={!nextChapter}
-                onClick={() => nextChapter && navigate(`/read/${nextChapter.id}`)}
+                onClick={() => nextChapter && navigate(readPath(nextChapter))}
                 className={cn(
                   "p-2 rounded-md transition-colors",
                   "hover:bg-muted/50 disabled:opacity-30 disabled:cursor-not-allowed",
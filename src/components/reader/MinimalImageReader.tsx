@@ -1,14 +1,22 @@
 import { useState, useRef, useEffect, useCallback, memo } from "react";
 import { cn } from "@/lib/utils";
+import { useReaderPosition, ReaderPosition } from "@/hooks/useReaderPosition";
+import type { FitMode } from "@/hooks/useReaderSettings";
+import { PageImage } from "@/components/reader/PageImage";
+import { PageImageSource, pageAspectRatio, scrollPageSizes } from "@/lib/pageImage";
 
-interface Page {
+interface Page extends PageImageSource {
   id: string;
   page_number: number;
-  image_url: string;
 }
 
 interface MinimalImageReaderProps {
   pages: Page[];
+  fit?: FitMode;
+  maxWidth?: number;
+  pageGap?: number;
+  restoreTo?: ReaderPosition | null;
+  onPositionChange?: (position: ReaderPosition) => void;
 }
 
 const PRELOAD_AHEAD = 3;
@@ -17,10 +25,14 @@ const ROOT_MARGIN = "600px 0px";
 // Individual page component with lazy loading
 const ReaderPage = memo(function ReaderPage({
   page,
+  fit,
+  maxWidth,
   isPreloaded,
   onBecomeVisible,
 }: {
   page: Page;
+  fit: FitMode;
+  maxWidth: number;
   isPreloaded: boolean;
   onBecomeVisible: (pageNumber: number) => void;
 }) {
@@ -71,14 +83,16 @@ const ReaderPage = memo(function ReaderPage({
     setIsLoaded(true);
   };
 
-  // Calculate aspect ratio for placeholder to prevent layout shift
+  // Calculate aspect ratio for placeholder to prevent layout shift. Processed
+  // pages know their size up front; older ones fall back to a manga page.
   const aspectRatio = naturalDimensions
     ? `${naturalDimensions.width} / ${naturalDimensions.height}`
-    : "2 / 3";
+    : pageAspectRatio(page) ?? "2 / 3";
 
   return (
     <div
       ref={containerRef}
+      data-page-number={page.page_number}
       className="w-full relative"
       style={{ aspectRatio: isLoaded ? undefined : aspectRatio }}
     >
@@ -93,11 +107,14 @@ const ReaderPage = memo(function ReaderPage({
 
       {/* Actual image */}
       {isInView && !hasError && (
-        <img
-          src={page.image_url}
+        <PageImage
+          page={page}
+          sizes={scrollPageSizes(page, fit, maxWidth)}
           alt={`Page ${page.page_number}`}
           className={cn(
-            "w-full h-auto block",
+            fit === "width" && "w-full h-auto block",
+            fit === "height" && "w-auto max-w-full max-h-[calc(100vh-3rem)] mx-auto block",
+            fit === "original" && "max-w-none mx-auto block",
             "transition-opacity duration-200 ease-out",
             isLoaded ? "opacity-100" : "opacity-0"
           )}
@@ -129,10 +146,24 @@ const ReaderPage = memo(function ReaderPage({
   );
 });
 
-export function MinimalImageReader({ pages }: MinimalImageReaderProps) {
+export function MinimalImageReader({
+  pages,
+  fit = "width",
+  maxWidth = 768,
+  pageGap = 0,
+  restoreTo,
+  onPositionChange,
+}: MinimalImageReaderProps) {
   const [visiblePage, setVisiblePage] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
   const sortedPages = [...pages].sort((a, b) => a.page_number - b.page_number);
 
+  useReaderPosition(containerRef, {
+    pageCount: sortedPages.length,
+    restoreTo,
+    onPositionChange,
+  });
+
   const handleBecomeVisible = useCallback((pageNumber: number) => {
     setVisiblePage(pageNumber);
   }, []);
@@ -146,13 +177,23 @@ export function MinimalImageReader({ pages }: MinimalImageReaderProps) {
   for (let i = 1; i <= 3; i++) {
     preloadedPages.add(i);
   }
+  // And the page a saved position will jump to
+  if (restoreTo) {
+    preloadedPages.add(restoreTo.page);
+  }
 
   return (
-    <div className="w-full max-w-3xl mx-auto">
+    <div
+      ref={containerRef}
+      className={cn("w-full mx-auto flex flex-col", fit === "original" && "overflow-x-auto")}
+      style={{ maxWidth: fit === "width" ? maxWidth : undefined, gap: pageGap }}
+    >
       {sortedPages.map((page) => (
         <ReaderPage
           key={page.id}
           page={page}
+          fit={fit}
+          maxWidth={maxWidth}
           isPreloaded={preloadedPages.has(page.page_number)}
           onBecomeVisible={handleBecomeVisible}
         />
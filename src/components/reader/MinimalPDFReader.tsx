@@ -2,24 +2,41 @@ import { useState, useRef, useEffect } from "react";
 import { Document, Page, pdfjs } from "react-pdf";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 import "react-pdf/dist/Page/TextLayer.css";
+import { useReaderPosition, ReaderPosition } from "@/hooks/useReaderPosition";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
 
 interface MinimalPDFReaderProps {
   pdfUrl: string;
+  maxWidth?: number;
+  pageGap?: number;
+  restoreTo?: ReaderPosition | null;
+  onPositionChange?: (position: ReaderPosition) => void;
 }
 
-export function MinimalPDFReader({ pdfUrl }: MinimalPDFReaderProps) {
+export function MinimalPDFReader({
+  pdfUrl,
+  maxWidth = 768,
+  pageGap = 0,
+  restoreTo,
+  onPositionChange,
+}: MinimalPDFReaderProps) {
   const [numPages, setNumPages] = useState<number | null>(null);
-  const [pageWidth, setPageWidth] = useState<number>(768);
+  const [pageWidth, setPageWidth] = useState<number>(maxWidth);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  useReaderPosition(containerRef, {
+    pageCount: numPages || 0,
+    restoreTo,
+    onPositionChange,
+  });
+
   // Responsive page width
   useEffect(() => {
     const updateWidth = () => {
       if (containerRef.current) {
         const containerWidth = containerRef.current.clientWidth;
-        setPageWidth(Math.min(containerWidth, 768));
+        setPageWidth(Math.min(containerWidth, maxWidth));
       }
     };
 
@@ -31,14 +48,14 @@ export function MinimalPDFReader({ pdfUrl }: MinimalPDFReaderProps) {
     }
 
     return () => observer.disconnect();
-  }, []);
+  }, [maxWidth]);
 
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
   };
 
   return (
-    <div ref={containerRef} className="w-full max-w-3xl mx-auto">
+    <div ref={containerRef} className="w-full mx-auto" style={{ maxWidth }}>
       <Document
         file={pdfUrl}
         onLoadSuccess={onDocumentLoadSuccess}
@@ -56,20 +73,25 @@ export function MinimalPDFReader({ pdfUrl }: MinimalPDFReaderProps) {
       >
         {numPages &&
           Array.from({ length: numPages }, (_, i) => (
-            <Page
+            <div
               key={`page_${i + 1}`}
-              pageNumber={i + 1}
-              width={pageWidth}
-              loading={
-                <div
-                  className="bg-muted/30 flex items-center justify-center"
-                  style={{ width: pageWidth, height: pageWidth * 1.4 }}
-                >
-                  <div className="w-6 h-6 border-2 border-muted-foreground/20 border-t-muted-foreground/60 rounded-full animate-spin" />
-                </div>
-              }
-              className="[&>canvas]:!w-full [&>canvas]:!h-auto"
-            />
+              data-page-number={i + 1}
+              style={{ marginTop: i > 0 ? pageGap : 0 }}
+            >
+              <Page
+                pageNumber={i + 1}
+                width={pageWidth}
+                loading={
+                  <div
+                    className="bg-muted/30 flex items-center justify-center"
+                    style={{ width: pageWidth, height: pageWidth * 1.4 }}
+                  >
+                    <div className="w-6 h-6 border-2 border-muted-foreground/20 border-t-muted-foreground/60 rounded-full animate-spin" />
+                  </div>
+                }
+                className="[&>canvas]:!w-full [&>canvas]:!h-auto"
+              />
+            </div>
           ))}
       </Document>
     </div>
@@ -1,10 +1,11 @@
 import { useState, useRef, useEffect, useCallback, memo } from "react";
 import { cn } from "@/lib/utils";
+import { PageImage } from "@/components/reader/PageImage";
+import { PageImageSource, pageAspectRatio } from "@/lib/pageImage";
 
-interface Page {
+interface Page extends PageImageSource {
   id: string;
   page_number: number;
-  image_url: string;
 }
 
 interface OptimizedImageReaderProps {
@@ -13,6 +14,8 @@ interface OptimizedImageReaderProps {
 
 const PRELOAD_AHEAD = 2;
 const ROOT_MARGIN = "400px 0px";
+// Pages are at most max-w-4xl (56rem) wide
+const PAGE_SIZES = "(min-width: 56rem) 56rem, 100vw";
 
 // Individual page component with Intersection Observer
 const ReaderPage = memo(function ReaderPage({
@@ -68,10 +71,11 @@ const ReaderPage = memo(function ReaderPage({
     setIsLoaded(true);
   };
 
-  // Calculate aspect ratio for placeholder to prevent layout shift
+  // Calculate aspect ratio for placeholder to prevent layout shift. Processed
+  // pages know their size up front; older ones fall back to a manga page.
   const aspectRatio = naturalDimensions
     ? `${naturalDimensions.width} / ${naturalDimensions.height}`
-    : "2 / 3"; // Default manga aspect ratio
+    : pageAspectRatio(page) ?? "2 / 3";
 
   return (
     <div
@@ -98,8 +102,9 @@ const ReaderPage = memo(function ReaderPage({
 
       {/* Actual image */}
       {isInView && !hasError && (
-        <img
-          src={page.image_url}
+        <PageImage
+          page={page}
+          sizes={PAGE_SIZES}
           alt={`Page ${page.page_number}`}
           className={cn(
             "w-full h-auto transition-opacity duration-300",
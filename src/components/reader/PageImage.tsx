@@ -0,0 +1,28 @@
+import { ImgHTMLAttributes } from "react";
+import { PageImageSource, sourcesFor } from "@/lib/pageImage";
+
+interface PageImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "width" | "height"> {
+  page: PageImageSource;
+  // Displayed width for choosing a variant; without it image_url is shown
+  // at its own size
+  sizes?: string;
+}
+
+// A page image that lets the browser pick the AVIF/WebP variant that fits.
+// The <picture> wrapper is display: contents so it doesn't affect layout.
+export function PageImage({ page, sizes, ...props }: PageImageProps) {
+  const sources = sizes ? sourcesFor(page) : [];
+  return (
+    <picture className="contents">
+      {sources.map((source) => (
+        <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+      ))}
+      <img
+        src={page.image_url}
+        width={page.width ?? undefined}
+        height={page.height ?? undefined}
+        {...props}
+      />
+    </picture>
+  );
+}
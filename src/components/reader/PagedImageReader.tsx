@@ -0,0 +1,342 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { useIsMobile } from "@/hooks/use-mobile";
+import type { ReaderPosition } from "@/hooks/useReaderPosition";
+import type { ReadingDirection } from "@/hooks/useReadingMode";
+import type { FitMode } from "@/hooks/useReaderSettings";
+import { PageImage } from "@/components/reader/PageImage";
+import { PageImageSource, pagedPageSizes, preloadPageImage } from "@/lib/pageImage";
+
+interface Page extends PageImageSource {
+  id: string;
+  page_number: number;
+}
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+interface PagedImageReaderProps {
+  pages: Page[];
+  direction: ReadingDirection;
+  spread?: boolean;
+  spreadOffset?: boolean;
+  fit?: FitMode;
+  maxWidth?: number;
+  restoreTo?: ReaderPosition | null;
+  onPositionChange?: (position: ReaderPosition) => void;
+}
+
+const PRELOAD_AHEAD = 2;
+const SWIPE_THRESHOLD = 50;
+
+// Landscape images are already a two-page spread and are shown alone
+function isWide(dimensions?: Dimensions) {
+  return !!dimensions && dimensions.width > dimensions.height;
+}
+
+// Measured size, or the stored one for processed pages not loaded yet
+function sizeOf(page: Page, dimensions: Record<string, Dimensions>): Dimensions | undefined {
+  if (dimensions[page.id]) return dimensions[page.id];
+  return page.width && page.height ? { width: page.width, height: page.height } : undefined;
+}
+
+// Group page indexes into spreads of one or two pages
+function buildSpreads(
+  pages: Page[],
+  dimensions: Record<string, Dimensions>,
+  { spread, offset }: { spread: boolean; offset: boolean }
+): number[][] {
+  if (!spread) return pages.map((_, i) => [i]);
+
+  const spreads: number[][] = [];
+  let i = 0;
+  if (offset && pages.length > 0) {
+    spreads.push([0]);
+    i = 1;
+  }
+  while (i < pages.length) {
+    const current = pages[i];
+    const next = pages[i + 1];
+    if (
+      next &&
+      !isWide(sizeOf(current, dimensions)) &&
+      !isWide(sizeOf(next, dimensions))
+    ) {
+      spreads.push([i, i + 1]);
+      i += 2;
+    } else {
+      spreads.push([i]);
+      i += 1;
+    }
+  }
+  return spreads;
+}
+
+// Single page with its own loading/error state; keyed by page so it resets on turn
+function PagedPage({
+  page,
+  half,
+  fit,
+  maxWidth,
+  onMeasure,
+}: {
+  page: Page;
+  half: boolean;
+  fit: FitMode;
+  maxWidth: number;
+  onMeasure: (page: Page, dimensions: Dimensions) => void;
+}) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  if (hasError) {
+    return (
+      <div className={cn("flex h-full items-center justify-center", half ? "w-1/2" : "w-full")}>
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground">Failed to load</p>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setHasError(false);
+              setIsLoaded(false);
+            }}
+            className="mt-2 text-sm text-muted-foreground hover:text-foreground transition-colors underline underline-offset-2"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const img = e.currentTarget;
+    onMeasure(page, { width: img.naturalWidth, height: img.naturalHeight });
+    setIsLoaded(true);
+  };
+
+  return (
+    <div
+      className={cn(
+        "relative flex h-full items-center",
+        // Spread halves meet at the gutter
+        half ? "w-1/2 odd:justify-end even:justify-start" : "w-full justify-center"
+      )}
+    >
+      {!isLoaded && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-muted-foreground/20 border-t-muted-foreground/60 rounded-full animate-spin" />
+        </div>
+      )}
+      <PageImage
+        page={page}
+        sizes={pagedPageSizes(page, fit, maxWidth, half)}
+        alt={`Page ${page.page_number}`}
+        className={cn(
+          fit === "height" && "max-h-full max-w-full object-contain",
+          fit === "width" && "w-full h-auto",
+          fit === "original" && "max-w-none",
+          "select-none",
+          "transition-opacity duration-200 ease-out",
+          isLoaded ? "opacity-100" : "opacity-0"
+        )}
+        onLoad={handleLoad}
+        onError={() => setHasError(true)}
+        draggable={false}
+        decoding="async"
+      />
+    </div>
+  );
+}
+
+export function PagedImageReader({
+  pages,
+  direction,
+  spread = false,
+  spreadOffset = false,
+  fit = "height",
+  maxWidth = 768,
+  restoreTo,
+  onPositionChange,
+}: PagedImageReaderProps) {
+  const sortedPages = useMemo(
+    () => [...pages].sort((a, b) => a.page_number - b.page_number),
+    [pages]
+  );
+  const isMobile = useIsMobile();
+  const [dimensions, setDimensions] = useState<Record<string, Dimensions>>({});
+  // Index of the page the reader is on; the visible spread is the one containing it
+  const [index, setIndex] = useState(0);
+  const restoredRef = useRef(false);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+  const isRtl = direction === "rtl";
+
+  const spreads = useMemo(
+    () =>
+      buildSpreads(sortedPages, dimensions, {
+        spread: spread && !isMobile,
+        offset: spreadOffset,
+      }),
+    [sortedPages, dimensions, spread, spreadOffset, isMobile]
+  );
+  const spreadIndex = Math.max(
+    0,
+    spreads.findIndex((s) => s.includes(index))
+  );
+  const currentSpread = spreads[spreadIndex] || [];
+
+  const handleMeasure = useCallback((page: Page, size: Dimensions) => {
+    setDimensions((prev) =>
+      prev[page.id] ? prev : { ...prev, [page.id]: size }
+    );
+  }, []);
+
+  // Jump to the saved page once
+  useEffect(() => {
+    if (!restoreTo || restoredRef.current || sortedPages.length === 0) return;
+    restoredRef.current = true;
+    const target = sortedPages.findIndex((p) => p.page_number === restoreTo.page);
+    if (target > 0) setIndex(target);
+  }, [restoreTo, sortedPages]);
+
+  // Report the first page of the current spread
+  const currentPage = sortedPages[currentSpread[0]];
+  const onChangeRef = useRef(onPositionChange);
+  onChangeRef.current = onPositionChange;
+  useEffect(() => {
+    if (currentPage) {
+      onChangeRef.current?.({ page: currentPage.page_number, offset: 0 });
+    }
+  }, [currentPage]);
+
+  // Warm the browser cache for the next few spreads, measuring as we go so
+  // upcoming wide pages are paired correctly before they're shown
+  useEffect(() => {
+    for (const ahead of spreads.slice(spreadIndex + 1, spreadIndex + 1 + PRELOAD_AHEAD)) {
+      for (const i of ahead) {
+        const next = sortedPages[i];
+        if (!next || dimensions[next.id]) continue;
+        preloadPageImage(next, pagedPageSizes(next, fit, maxWidth, ahead.length === 2), (img) =>
+          handleMeasure(next, { width: img.naturalWidth, height: img.naturalHeight })
+        );
+      }
+    }
+  }, [spreadIndex, spreads, sortedPages, dimensions, handleMeasure, fit, maxWidth]);
+
+  const goNext = useCallback(() => {
+    const next = spreads[spreadIndex + 1];
+    if (next) {
+      setIndex(next[0]);
+      window.scrollTo({ top: 0, behavior: "instant" });
+    } else {
+      // Past the last page: reveal chapter navigation below the reader
+      window.scrollBy({ top: window.innerHeight, behavior: "smooth" });
+    }
+  }, [spreads, spreadIndex]);
+
+  const goPrev = useCallback(() => {
+    const prev = spreads[spreadIndex - 1];
+    if (prev) {
+      setIndex(prev[0]);
+      window.scrollTo({ top: 0, behavior: "instant" });
+    }
+  }, [spreads, spreadIndex]);
+
+  // Arrow keys follow the reading direction
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, [contenteditable]")) return;
+
+      if (e.key === "ArrowRight") {
+        e.preventDefault();
+        if (isRtl) goPrev();
+        else goNext();
+      } else if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        if (isRtl) goNext();
+        else goPrev();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isRtl, goNext, goPrev]);
+
+  // Tap zones: outer thirds turn the page, the middle does nothing
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    if (x < 1 / 3) {
+      if (isRtl) goNext();
+      else goPrev();
+    } else if (x > 2 / 3) {
+      if (isRtl) goPrev();
+      else goNext();
+    }
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    touchStart.current = { x: touch.clientX, y: touch.clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (!touchStart.current) return;
+    const touch = e.changedTouches[0];
+    const dx = touch.clientX - touchStart.current.x;
+    const dy = touch.clientY - touchStart.current.y;
+    touchStart.current = null;
+    if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+
+    // Swiping towards the reading direction turns forward
+    const swipedLeft = dx < 0;
+    if (swipedLeft !== isRtl) goNext();
+    else goPrev();
+  };
+
+  if (!currentPage) return null;
+
+  const isSpread = currentSpread.length === 2;
+
+  return (
+    <div className="w-full">
+      <div
+        className={cn(
+          "relative flex items-center justify-center cursor-pointer mx-auto w-full",
+          fit === "height" ? "h-[calc(100vh-4rem)]" : "min-h-[50vh]",
+          fit === "height" && isSpread && "max-w-7xl",
+          fit === "original" && "overflow-x-auto"
+        )}
+        style={fit === "width" ? { maxWidth: isSpread ? maxWidth * 2 : maxWidth } : undefined}
+        onClick={handleClick}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+        dir={direction}
+      >
+        {currentSpread.map((i) => (
+          <PagedPage
+            key={sortedPages[i].id}
+            page={sortedPages[i]}
+            half={isSpread}
+            fit={fit}
+            maxWidth={maxWidth}
+            onMeasure={handleMeasure}
+          />
+        ))}
+      </div>
+
+      {/* Page indicator */}
+      <div className="flex items-center justify-center gap-3 pt-3 text-xs text-muted-foreground">
+        <span>
+          {isSpread
+            ? `${currentSpread[0] + 1}–${currentSpread[1] + 1}`
+            : currentSpread[0] + 1}{" "}
+          / {sortedPages.length}
+        </span>
+        {isRtl && <span className="uppercase tracking-wide">RTL</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { Settings2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { FitMode, ReaderSettings } from "@/hooks/useReaderSettings";
+
+interface ReaderSettingsPanelProps {
+  settings: ReaderSettings;
+  onChange: (changes: Partial<ReaderSettings>) => void;
+  onReset: () => void;
+}
+
+const FIT_OPTIONS: { value: FitMode; label: string }[] = [
+  { value: "width", label: "Fit width" },
+  { value: "height", label: "Fit height" },
+  { value: "original", label: "Original" },
+];
+
+const BACKGROUNDS: { value: string; label: string }[] = [
+  { value: "theme", label: "Theme" },
+  { value: "#000000", label: "Black" },
+  { value: "#1f1f1f", label: "Dark grey" },
+  { value: "#ffffff", label: "White" },
+  { value: "#f4ecd8", label: "Paper" },
+];
+
+function SettingRow({
+  label,
+  value,
+  children,
+}: {
+  label: string;
+  value?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{label}</Label>
+        {value && <span className="text-xs text-muted-foreground">{value}</span>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export function ReaderSettingsPanel({ settings, onChange, onReset }: ReaderSettingsPanelProps) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          className={cn(
+            "p-2 rounded-md transition-colors",
+            "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+            "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+          )}
+          aria-label="Reader settings"
+        >
+          <Settings2 className="h-4 w-4" />
+        </button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-sm overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Reader settings</SheetTitle>
+          <SheetDescription>Saved on this device and synced when logged in.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-7">
+          <SettingRow label="Page fit">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={settings.fit}
+              onValueChange={(value) => value && onChange({ fit: value as FitMode })}
+              className="justify-start"
+            >
+              {FIT_OPTIONS.map((option) => (
+                <ToggleGroupItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </SettingRow>
+
+          <SettingRow label="Max width" value={`${settings.maxWidth}px`}>
+            <Slider
+              min={400}
+              max={1600}
+              step={20}
+              value={[settings.maxWidth]}
+              onValueChange={([value]) => onChange({ maxWidth: value })}
+              disabled={settings.fit !== "width"}
+            />
+          </SettingRow>
+
+          <SettingRow label="Page spacing" value={`${settings.pageGap}px`}>
+            <Slider
+              min={0}
+              max={48}
+              step={2}
+              value={[settings.pageGap]}
+              onValueChange={([value]) => onChange({ pageGap: value })}
+            />
+          </SettingRow>
+
+          <SettingRow label="Background">
+            <div className="flex flex-wrap gap-2">
+              {BACKGROUNDS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => onChange({ background: option.value })}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-md border text-xs transition-colors",
+                    settings.background === option.value
+                      ? "border-primary text-foreground"
+                      : "border-border text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  <span
+                    className="h-3 w-3 rounded-full border border-border bg-background"
+                    style={option.value === "theme" ? undefined : { backgroundColor: option.value }}
+                  />
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </SettingRow>
+
+          <SettingRow label="Brightness" value={`${settings.brightness}%`}>
+            <Slider
+              min={30}
+              max={100}
+              step={5}
+              value={[settings.brightness]}
+              onValueChange={([value]) => onChange({ brightness: value })}
+            />
+          </SettingRow>
+
+          <SettingRow label="Sepia" value={`${settings.sepia}%`}>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[settings.sepia]}
+              onValueChange={([value]) => onChange({ sepia: value })}
+            />
+          </SettingRow>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="reader-prefetch" className="text-sm">
+                Preload next chapter
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Paused automatically on Data Saver or slow connections.
+              </p>
+            </div>
+            <Switch
+              id="reader-prefetch"
+              checked={settings.prefetchNext}
+              onCheckedChange={(checked) => onChange({ prefetchNext: checked })}
+            />
+          </div>
+
+          <Button variant="outline" size="sm" onClick={onReset} className="w-full">
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,25 @@
+import { Fragment } from "react";
+
+interface HighlightProps {
+  text: string;
+}
+
+// Renders search_series highlights, where matches come wrapped in <mark>...</mark>.
+// The text is split rather than injected as HTML, so series content stays inert.
+export function Highlight({ text }: HighlightProps) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-primary/25 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
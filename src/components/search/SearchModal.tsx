@@ -1,10 +1,15 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { Link, useNavigate } from "react-router-dom";
-import { Search, X, Loader2, BookOpen, Filter, ChevronDown } from "lucide-react";
-import { useQuickSearch, useAdvancedSearch } from "@/hooks/useSearch";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search, X, Loader2, BookOpen, Filter, Clock, Tag, CornerDownLeft } from "lucide-react";
+import { useSearchSuggest, useAdvancedSearch, SearchSort } from "@/hooks/useSearch";
 import { useGenres } from "@/hooks/useGenres";
+import { useGenreFilter, isGenreFilterActive } from "@/hooks/useGenreFilter";
+import { useRecentSearches } from "@/hooks/useRecentSearches";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { SearchResultItem } from "@/components/search/SearchResultItem";
+import { SeriesSuggestion } from "@/lib/db";
+import { seriesPath } from "@/lib/routes";
 import {
   Dialog,
   DialogContent,
@@ -24,18 +29,18 @@ interface SearchModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
-const statusConfig: Record<string, { color: string; label: string }> = {
-  ongoing: { color: "bg-emerald-500", label: "Ongoing" },
-  completed: { color: "bg-blue-500", label: "Completed" },
-  hiatus: { color: "bg-amber-500", label: "Hiatus" },
-  cancelled: { color: "bg-red-500", label: "Cancelled" },
-  dropped: { color: "bg-gray-500", label: "Dropped" },
-};
+// Entries in the keyboard-navigable list shown while typing, or recent searches when empty
+type SuggestionItem =
+  | { kind: "search"; term: string }
+  | { kind: "series"; series: SeriesSuggestion }
+  | { kind: "genre"; genre: { id: string; name: string; slug: string } }
+  | { kind: "recent"; term: string };
 
-const typeConfig: Record<string, { color: string; label: string }> = {
-  manga: { color: "bg-rose-500/20 text-rose-400", label: "Manga" },
-  manhwa: { color: "bg-primary/20 text-primary", label: "Manhwa" },
-  manhua: { color: "bg-amber-500/20 text-amber-400", label: "Manhua" },
+const groupLabels: Record<SuggestionItem["kind"], string | null> = {
+  search: null,
+  series: "Series",
+  genre: "Genres",
+  recent: "Recent searches",
 };
 
 export function SearchModal({ open, onOpenChange }: SearchModalProps) {
@@ -43,32 +48,73 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
   const [showFilters, setShowFilters] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [typeFilter, setTypeFilter] = useState<string | null>(null);
-  const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState<"relevance" | "latest" | "title" | "rating">("relevance");
+  const [sortBy, setSortBy] = useState<SearchSort>("relevance");
+  const {
+    filter: genreFilter,
+    stateOf: genreState,
+    toggle: toggleGenre,
+    setMatch: setGenreMatch,
+    clear: clearGenres,
+  } = useGenreFilter();
+  
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { recent, add: addRecent, remove: removeRecent, clear: clearRecent } = useRecentSearches();
   
   const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
   
   const { data: genres } = useGenres();
   
-  // Use advanced search when filters are active, otherwise quick search
-  const hasFilters = !!statusFilter || !!typeFilter || selectedGenres.length > 0;
+  // Use advanced search when filters or a custom sort are active, otherwise suggestions
+  const hasFilters = !!statusFilter || !!typeFilter || isGenreFilterActive(genreFilter);
+  const useAdvanced = hasFilters || sortBy !== "relevance";
+  const trimmedQuery = query.trim();
+  const showSuggestions = !useAdvanced && trimmedQuery.length >= 2;
   
-  const { data: quickResults, isLoading: quickLoading } = useQuickSearch(
-    !hasFilters ? query : ""
+  const { data: suggestions, isLoading: suggestLoading } = useSearchSuggest(
+    !useAdvanced ? query : ""
   );
   
-  const { data: advancedResults, isLoading: advancedLoading } = useAdvancedSearch({
-    query,
+  const {
+    data: advancedData,
+    isLoading: advancedLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useAdvancedSearch({
+    query: useAdvanced ? query : "",
     status: statusFilter,
     type: typeFilter,
-    genres: selectedGenres,
+    genres: genreFilter,
     sortBy,
     limit: 20,
   });
   
-  const results = hasFilters ? advancedResults : quickResults;
-  const isLoading = hasFilters ? advancedLoading : quickLoading;
+  const results = advancedData?.pages.flat();
+  const totalCount = advancedData?.pages[0]?.[0]?.total_count ?? 0;
+  const isLoading = useAdvanced ? advancedLoading : showSuggestions && suggestLoading;
+
+  const items = useMemo<SuggestionItem[]>(() => {
+    if (useAdvanced) return [];
+    if (!showSuggestions) return recent.map((term) => ({ kind: "recent", term }));
+    return [
+      { kind: "search", term: trimmedQuery },
+      ...(suggestions?.series ?? []).map((series) => ({ kind: "series" as const, series })),
+      ...(suggestions?.genres ?? []).map((genre) => ({ kind: "genre" as const, genre })),
+    ];
+  }, [useAdvanced, showSuggestions, recent, trimmedQuery, suggestions]);
+
+  // Start from the input again whenever the list changes
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [items]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
 
   // Focus input when modal opens
   useEffect(() => {
@@ -80,9 +126,10 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
       setShowFilters(false);
       setStatusFilter(null);
       setTypeFilter(null);
-      setSelectedGenres([]);
+      clearGenres();
+      setSortBy("relevance");
     }
-  }, [open]);
+  }, [open, clearGenres]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -100,30 +147,143 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
     return () => document.removeEventListener("keydown", handleKeyDown);
   }, [open, onOpenChange]);
 
-  const toggleGenre = useCallback((genreId: string) => {
-    setSelectedGenres((prev) =>
-      prev.includes(genreId)
-        ? prev.filter((id) => id !== genreId)
-        : [...prev, genreId]
-    );
-  }, []);
-
-  const handleResultClick = (seriesId: string) => {
-    navigate(`/series/${seriesId}`);
+  const submitSearch = (term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    addRecent(trimmed);
+    navigate(`/search?q=${encodeURIComponent(trimmed)}`);
     onOpenChange(false);
   };
 
+  const selectItem = (item: SuggestionItem) => {
+    switch (item.kind) {
+      case "search":
+      case "recent":
+        submitSearch(item.term);
+        break;
+      case "series":
+        addRecent(trimmedQuery);
+        navigate(seriesPath(item.series.slug));
+        onOpenChange(false);
+        break;
+      case "genre":
+        navigate(`/browse?genres=${encodeURIComponent(item.genre.slug)}`);
+        onOpenChange(false);
+        break;
+    }
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % items.length);
+    } else if (e.key === "ArrowUp" && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? items.length - 1 : i - 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (activeIndex >= 0 && items[activeIndex]) {
+        selectItem(items[activeIndex]);
+      } else {
+        submitSearch(query);
+      }
+    }
+  };
+
+  const renderItem = (item: SuggestionItem, index: number) => {
+    const active = index === activeIndex;
+    const label = groupLabels[item.kind];
+    const showLabel = label && items[index - 1]?.kind !== item.kind;
+    const key = item.kind === "series" ? item.series.id : item.kind === "genre" ? item.genre.id : `${item.kind}:${item.term}`;
+
+    return (
+      <div key={key}>
+        {showLabel && (
+          <div className="flex items-center justify-between px-4 pt-3 pb-1 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+            <span>{label}</span>
+            {item.kind === "recent" && (
+              <button onClick={clearRecent} className="normal-case tracking-normal hover:text-foreground">
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+        <div
+          role="option"
+          aria-selected={active}
+          data-index={index}
+          onMouseEnter={() => setActiveIndex(index)}
+          onClick={() => selectItem(item)}
+          className={`group flex items-center gap-3 px-4 py-2 cursor-pointer text-sm transition-colors ${
+            active ? "bg-muted" : "hover:bg-muted/50"
+          }`}
+        >
+          {item.kind === "series" ? (
+            <>
+              <div className="w-8 h-11 rounded overflow-hidden bg-muted shrink-0">
+                {item.series.cover_url ? (
+                  <img src={item.series.cover_url} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                    <BookOpen className="h-4 w-4" />
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground truncate">{item.series.title}</p>
+                {item.series.matched_title && (
+                  <p className="text-xs text-muted-foreground truncate">Also: {item.series.matched_title}</p>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground capitalize shrink-0">{item.series.type}</span>
+            </>
+          ) : item.kind === "genre" ? (
+            <>
+              <Tag className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="flex-1 truncate">{item.genre.name}</span>
+              <span className="text-xs text-muted-foreground shrink-0">Browse genre</span>
+            </>
+          ) : item.kind === "recent" ? (
+            <>
+              <Clock className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="flex-1 truncate">{item.term}</span>
+              <button
+                aria-label={`Remove ${item.term} from recent searches`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeRecent(item.term);
+                }}
+                className="text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </>
+          ) : (
+            <>
+              <Search className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="flex-1 truncate">
+                Search for <span className="font-medium text-foreground">"{item.term}"</span>
+              </span>
+              <CornerDownLeft className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const clearFilters = () => {
     setStatusFilter(null);
     setTypeFilter(null);
-    setSelectedGenres([]);
+    clearGenres();
     setSortBy("relevance");
   };
 
   const activeFilterCount = 
     (statusFilter ? 1 : 0) + 
     (typeFilter ? 1 : 0) + 
-    selectedGenres.length;
+    genreFilter.include.length +
+    genreFilter.exclude.length;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -140,6 +300,10 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
             type="text"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            role="combobox"
+            aria-expanded={items.length > 0}
+            aria-controls="search-suggestions"
             placeholder="Search by title, alternative title, or description..."
             className="flex-1 bg-transparent text-foreground placeholder:text-muted-foreground focus:outline-none text-base"
           />
@@ -202,7 +366,7 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
               </Select>
 
               {/* Sort By */}
-              <Select value={sortBy} onValueChange={(v: any) => setSortBy(v)}>
+              <Select value={sortBy} onValueChange={(v) => setSortBy(v as SearchSort)}>
                 <SelectTrigger className="w-36 h-9">
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
@@ -211,104 +375,92 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
                   <SelectItem value="latest">Latest Update</SelectItem>
                   <SelectItem value="title">Title A-Z</SelectItem>
                   <SelectItem value="rating">Highest Rated</SelectItem>
+                  <SelectItem value="views">Most Viewed</SelectItem>
+                  <SelectItem value="chapters">Most Chapters</SelectItem>
                 </SelectContent>
               </Select>
 
-              {activeFilterCount > 0 && (
+              {(activeFilterCount > 0 || sortBy !== "relevance") && (
                 <Button variant="ghost" size="sm" onClick={clearFilters} className="h-9">
                   Clear all
                 </Button>
               )}
             </div>
 
-            {/* Genre Tags */}
+            {/* Genre Tags: click to include, again to exclude, again to clear */}
             {genres && genres.length > 0 && (
-              <div className="flex flex-wrap gap-1.5">
-                {genres.map((genre) => (
-                  <button
-                    key={genre.id}
-                    onClick={() => toggleGenre(genre.id)}
-                    className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
-                      selectedGenres.includes(genre.id)
-                        ? "bg-primary text-primary-foreground border-primary"
-                        : "bg-muted/50 text-muted-foreground border-border hover:border-primary/50"
-                    }`}
-                  >
-                    {genre.name}
-                  </button>
-                ))}
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Genres must match</span>
+                  <Select value={genreFilter.match} onValueChange={(v) => setGenreMatch(v as "all" | "any")}>
+                    <SelectTrigger className="w-20 h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="any">Any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {genres.map((genre) => {
+                    const state = genreState(genre.id);
+                    return (
+                      <button
+                        key={genre.id}
+                        onClick={() => toggleGenre(genre.id)}
+                        className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                          state === "include"
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : state === "exclude"
+                              ? "bg-destructive/15 text-destructive border-destructive/50 line-through"
+                              : "bg-muted/50 text-muted-foreground border-border hover:border-primary/50"
+                        }`}
+                      >
+                        {genre.name}
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
             )}
           </div>
         )}
 
         {/* Results */}
-        <div className="max-h-[60vh] overflow-y-auto">
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto">
           {isLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
-          ) : results && results.length > 0 ? (
+          ) : items.length > 0 ? (
+            <div id="search-suggestions" role="listbox" className="pb-2">
+              {items.map(renderItem)}
+            </div>
+          ) : useAdvanced && results && results.length > 0 ? (
             <div className="divide-y divide-border">
-              {results.map((series) => {
-                const status = statusConfig[series.status] || statusConfig.ongoing;
-                const type = typeConfig[series.type] || typeConfig.manhwa;
-                
-                return (
-                  <button
-                    key={series.id}
-                    onClick={() => handleResultClick(series.id)}
-                    className="w-full flex items-start gap-3 p-3 hover:bg-muted/50 transition-colors text-left"
+              {results.map((series) => (
+                <SearchResultItem key={series.id} series={series} onSelect={() => onOpenChange(false)} />
+              ))}
+              <div className="flex items-center justify-between px-3 py-2 text-xs text-muted-foreground">
+                <span>
+                  Showing {results.length} of {totalCount}
+                </span>
+                {hasNextPage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
                   >
-                    {/* Cover */}
-                    <div className="w-12 h-16 rounded overflow-hidden bg-muted shrink-0">
-                      {series.cover_url ? (
-                        <img
-                          src={series.cover_url}
-                          alt={series.title}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                          <BookOpen className="h-5 w-5" />
-                        </div>
-                      )}
-                    </div>
-
-                    {/* Info */}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start gap-2 mb-1">
-                        <h3 className="font-semibold text-foreground truncate">
-                          {series.title}
-                        </h3>
-                        <Badge className={`${type.color} text-[10px] shrink-0`}>
-                          {type.label}
-                        </Badge>
-                      </div>
-                      
-                      {/* Alternative Titles */}
-                      {series.alternative_titles && series.alternative_titles.length > 0 && (
-                        <p className="text-xs text-muted-foreground truncate mb-1">
-                          Also: {series.alternative_titles.slice(0, 2).join(", ")}
-                          {series.alternative_titles.length > 2 && ` +${series.alternative_titles.length - 2} more`}
-                        </p>
-                      )}
-                      
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                        <Badge className={`${status.color} text-white text-[10px] px-1.5 py-0`}>
-                          {status.label}
-                        </Badge>
-                        <span>{series.chapters_count} chapters</span>
-                        {series.rating != null && (
-                          <span>★ {Number(series.rating).toFixed(1)}</span>
-                        )}
-                      </div>
-                    </div>
-                  </button>
-                );
-              })}
+                    {isFetchingNextPage && <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />}
+                    Load more
+                  </Button>
+                )}
+              </div>
             </div>
-          ) : query.length >= 2 || hasFilters ? (
+          ) : useAdvanced ? (
             <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
               <Search className="h-10 w-10 mb-3 opacity-50" />
               <p className="text-sm">No results found</p>
@@ -0,0 +1,94 @@
+import { Link } from "react-router-dom";
+import { BookOpen } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Highlight } from "@/components/search/Highlight";
+import { SearchResult } from "@/lib/db";
+import { seriesPath } from "@/lib/routes";
+
+interface SearchResultItemProps {
+  series: SearchResult;
+  onSelect?: () => void;
+}
+
+const statusConfig: Record<string, { color: string; label: string }> = {
+  ongoing: { color: "bg-emerald-500", label: "Ongoing" },
+  completed: { color: "bg-blue-500", label: "Completed" },
+  hiatus: { color: "bg-amber-500", label: "Hiatus" },
+  cancelled: { color: "bg-red-500", label: "Cancelled" },
+  dropped: { color: "bg-gray-500", label: "Dropped" },
+};
+
+const typeConfig: Record<string, { color: string; label: string }> = {
+  manga: { color: "bg-rose-500/20 text-rose-400", label: "Manga" },
+  manhwa: { color: "bg-primary/20 text-primary", label: "Manhwa" },
+  manhua: { color: "bg-amber-500/20 text-amber-400", label: "Manhua" },
+};
+
+// One series row in search results, with matched terms highlighted
+export function SearchResultItem({ series, onSelect }: SearchResultItemProps) {
+  const status = statusConfig[series.status] || statusConfig.ongoing;
+  const type = typeConfig[series.type] || typeConfig.manhwa;
+
+  return (
+    <Link
+      to={seriesPath(series.slug)}
+      onClick={onSelect}
+      className="w-full flex items-start gap-3 p-3 hover:bg-muted/50 transition-colors text-left"
+    >
+      {/* Cover */}
+      <div className="w-12 h-16 rounded overflow-hidden bg-muted shrink-0">
+        {series.cover_url ? (
+          <img
+            src={series.cover_url}
+            alt={series.title}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+            <BookOpen className="h-5 w-5" />
+          </div>
+        )}
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start gap-2 mb-1">
+          <h3 className="font-semibold text-foreground truncate">
+            {series.title_highlight ? <Highlight text={series.title_highlight} /> : series.title}
+          </h3>
+          <Badge className={`${type.color} text-[10px] shrink-0`}>
+            {type.label}
+          </Badge>
+        </div>
+        
+        {/* Alternative Titles */}
+        {series.alternative_titles_highlight ? (
+          <p className="text-xs text-muted-foreground truncate mb-1">
+            Also: <Highlight text={series.alternative_titles_highlight} />
+          </p>
+        ) : series.alternative_titles && series.alternative_titles.length > 0 && (
+          <p className="text-xs text-muted-foreground truncate mb-1">
+            Also: {series.alternative_titles.slice(0, 2).join(", ")}
+            {series.alternative_titles.length > 2 && ` +${series.alternative_titles.length - 2} more`}
+          </p>
+        )}
+        
+        {series.snippet && (
+          <p className="text-xs text-muted-foreground line-clamp-2 mb-1">
+            <Highlight text={series.snippet} />
+          </p>
+        )}
+        
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Badge className={`${status.color} text-white text-[10px] px-1.5 py-0`}>
+            {status.label}
+          </Badge>
+          <span>{series.chapters_count} chapters</span>
+          {series.rating != null && (
+            <span>★ {Number(series.rating).toFixed(1)}</span>
+          )}
+        </div>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,98 @@
+import { Bell, BellOff, Bookmark, BookmarkCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFollowStatus, useToggleFollow, useSetFollowNotify } from "@/hooks/useLibrary";
+import { useTelegramUser } from "@/hooks/useTelegramUser";
+import { useToast } from "@/hooks/use-toast";
+
+interface FollowButtonProps {
+  seriesId: string;
+}
+
+export function FollowButton({ seriesId }: FollowButtonProps) {
+  const user = useTelegramUser();
+  const { data: status, isLoading } = useFollowStatus(seriesId);
+  const following = status?.following ?? false;
+  const notify = status?.notify ?? false;
+  const toggleFollow = useToggleFollow();
+  const setNotify = useSetFollowNotify();
+  const { toast } = useToast();
+
+  const handleClick = () => {
+    if (!user) {
+      toast({
+        title: "Login required",
+        description: "Login with Telegram to add series to your library.",
+      });
+      return;
+    }
+
+    toggleFollow.mutate(
+      { seriesId, follow: !following },
+      {
+        onError: (error) => {
+          toast({
+            title: following ? "Failed to unfollow" : "Failed to follow",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleNotifyClick = () => {
+    setNotify.mutate(
+      { seriesId, notify: !notify },
+      {
+        onSuccess: () => {
+          toast({
+            title: notify ? "Telegram alerts off" : "Telegram alerts on",
+            description: notify
+              ? "You won't get messages for new chapters of this series."
+              : "The bot will message you when a new chapter is out.",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Failed to update alerts",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const isBusy = toggleFollow.isPending || (!!user && isLoading);
+
+  return (
+    <>
+      <Button size="lg" variant="outline" onClick={handleClick} disabled={isBusy}>
+        {isBusy ? (
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        ) : following ? (
+          <BookmarkCheck className="mr-2 h-5 w-5 text-primary" />
+        ) : (
+          <Bookmark className="mr-2 h-5 w-5" />
+        )}
+        {following ? "In Library" : "Add to Library"}
+      </Button>
+      {following && (
+        <Button
+          size="lg"
+          variant="outline"
+          onClick={handleNotifyClick}
+          disabled={setNotify.isPending}
+          title={notify ? "Stop Telegram messages for new chapters" : "Get a Telegram message for new chapters"}
+        >
+          {notify ? (
+            <Bell className="mr-2 h-5 w-5 text-primary" />
+          ) : (
+            <BellOff className="mr-2 h-5 w-5" />
+          )}
+          {notify ? "Alerts On" : "Alerts Off"}
+        </Button>
+      )}
+    </>
+  );
+}
@@ -2,9 +2,10 @@ import { Link } from "react-router-dom";
 import { Badge } from "@/components/ui/badge";
 import { Star } from "lucide-react";
 import { LazyImage } from "@/components/ui/lazy-image";
+import { seriesPath } from "@/lib/routes";
 
 interface SeriesCardProps {
-  id: string;
+  slug: string;
   title: string;
   coverUrl?: string | null;
   status: string;
@@ -22,10 +23,10 @@ const statusColors: Record<string, string> = {
   dropped: "bg-gray-500",
 };
 
-export function SeriesCard({ id, title, coverUrl, status, type = "manhwa", rating, chaptersCount, showStatus = true }: SeriesCardProps) {
+export function SeriesCard({ slug, title, coverUrl, status, type = "manhwa", rating, chaptersCount, showStatus = true }: SeriesCardProps) {
   const typeLabel = type.charAt(0).toUpperCase() + type.slice(1);
   return (
-    <Link to={`/series/${id}`} className="group block">
+    <Link to={seriesPath(slug)} className="group block">
       <div className="overflow-hidden rounded-lg bg-card border border-border hover:border-primary/50 transition-all">
         {/* Cover Image with Lazy Loading */}
         <div className="relative">
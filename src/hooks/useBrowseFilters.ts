@@ -0,0 +1,142 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useGenres } from "@/hooks/useGenres";
+import {
+  GenreFilter,
+  EMPTY_GENRE_FILTER,
+  cycleGenre,
+  withoutGenre,
+  toGenreParams,
+} from "@/hooks/useGenreFilter";
+
+export type BrowseSort = "latest" | "newest" | "title" | "rating" | "views" | "chapters";
+
+// Must match RATING_STEPS and CHAPTER_RANGES in the db function, which count these buckets
+export const RATING_STEPS = [9, 8, 7, 6, 5];
+export const CHAPTER_RANGES = ["1-20", "21-50", "51-100", "101-"];
+
+export interface BrowseFilters {
+  status: string | null;
+  type: string | null;
+  genres: GenreFilter;
+  year: number | null;
+  minRating: number | null;
+  // "min-max" chapter count, either bound may be empty
+  chapters: string | null;
+  sort: BrowseSort;
+}
+
+export const DEFAULT_BROWSE_FILTERS: BrowseFilters = {
+  status: null,
+  type: null,
+  genres: EMPTY_GENRE_FILTER,
+  year: null,
+  minRating: null,
+  chapters: null,
+  sort: "latest",
+};
+
+const SORTS: BrowseSort[] = ["latest", "newest", "title", "rating", "views", "chapters"];
+
+// Map browse filters to get_browse_series params
+export function toBrowseParams(filters: BrowseFilters) {
+  const [min, max] = (filters.chapters || "").split("-");
+  return {
+    status: filters.status,
+    type: filters.type,
+    ...toGenreParams(filters.genres),
+    year: filters.year,
+    min_rating: filters.minRating,
+    chapters_min: min ? Number(min) : null,
+    chapters_max: max ? Number(max) : null,
+    sort_by: filters.sort,
+  };
+}
+
+function toNumber(value: string | null) {
+  if (!value) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Browse filters live in the query string so filtered views can be shared and
+// bookmarked. Genres are stored by slug, so their ids resolve once genres load.
+export function useBrowseFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: genres } = useGenres();
+
+  const filters = useMemo<BrowseFilters>(() => {
+    const idsFor = (key: string) =>
+      (searchParams.get(key) || "")
+        .split(",")
+        .map((slug) => genres?.find((g) => g.slug === slug)?.id)
+        .filter((id): id is string => !!id);
+    const sort = searchParams.get("sort") as BrowseSort | null;
+    const chapters = searchParams.get("chapters");
+
+    return {
+      status: searchParams.get("status"),
+      type: searchParams.get("type"),
+      genres: {
+        include: idsFor("genres"),
+        exclude: idsFor("exclude"),
+        match: searchParams.get("match") === "any" ? "any" : "all",
+      },
+      year: toNumber(searchParams.get("year")),
+      minRating: toNumber(searchParams.get("rating")),
+      chapters: chapters && /^\d*-\d*$/.test(chapters) ? chapters : null,
+      sort: sort && SORTS.includes(sort) ? sort : "latest",
+    };
+  }, [searchParams, genres]);
+
+  // Hold off querying until slugs in the URL can be turned into genre ids
+  const ready = !!genres || (!searchParams.has("genres") && !searchParams.has("exclude"));
+
+  const setFilters = useCallback(
+    (next: Partial<BrowseFilters>) => {
+      const merged = { ...filters, ...next };
+      const slugsFor = (ids: string[]) =>
+        ids
+          .map((id) => genres?.find((g) => g.id === id)?.slug)
+          .filter(Boolean)
+          .join(",");
+
+      const params = new URLSearchParams();
+      if (merged.status) params.set("status", merged.status);
+      if (merged.type) params.set("type", merged.type);
+      if (merged.genres.include.length > 0) params.set("genres", slugsFor(merged.genres.include));
+      if (merged.genres.exclude.length > 0) params.set("exclude", slugsFor(merged.genres.exclude));
+      if (merged.genres.match === "any") params.set("match", "any");
+      if (merged.year !== null) params.set("year", String(merged.year));
+      if (merged.minRating !== null) params.set("rating", String(merged.minRating));
+      if (merged.chapters) params.set("chapters", merged.chapters);
+      if (merged.sort !== "latest") params.set("sort", merged.sort);
+
+      setSearchParams(params, { replace: true });
+    },
+    [filters, genres, setSearchParams]
+  );
+
+  const toggleGenre = useCallback(
+    (genreId: string) => setFilters({ genres: cycleGenre(filters.genres, genreId) }),
+    [filters.genres, setFilters]
+  );
+
+  const removeGenre = useCallback(
+    (genreId: string) => setFilters({ genres: withoutGenre(filters.genres, genreId) }),
+    [filters.genres, setFilters]
+  );
+
+  const clear = useCallback(() => setSearchParams(new URLSearchParams(), { replace: true }), [setSearchParams]);
+
+  const activeCount =
+    (filters.status ? 1 : 0) +
+    (filters.type ? 1 : 0) +
+    filters.genres.include.length +
+    filters.genres.exclude.length +
+    (filters.year !== null ? 1 : 0) +
+    (filters.minRating !== null ? 1 : 0) +
+    (filters.chapters ? 1 : 0);
+
+  return { filters, ready, setFilters, toggleGenre, removeGenre, clear, activeCount };
+}
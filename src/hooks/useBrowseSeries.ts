@@ -1,21 +1,25 @@
-import { useInfiniteQuery } from "@tanstack/react-query";
-import { dbQuery, BrowseSeriesItem } from "@/lib/db";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { dbQuery, BrowseSeriesItem, BrowseSeriesPage } from "@/lib/db";
+import { BrowseFilters, DEFAULT_BROWSE_FILTERS, toBrowseParams } from "@/hooks/useBrowseFilters";
 
 export type { BrowseSeriesItem };
 
-export function useBrowseSeries() {
+export function useBrowseSeries(filters: BrowseFilters = DEFAULT_BROWSE_FILTERS, enabled = true) {
   return useInfiniteQuery({
-    queryKey: ["browse-series"],
+    queryKey: ["browse-series", filters],
     queryFn: async ({ pageParam = 0 }) => {
-      const { data, error } = await dbQuery<{
-        series: BrowseSeriesItem[];
-        nextPage: number | undefined;
-      }>("get_browse_series", { page: pageParam });
+      const { data, error } = await dbQuery<BrowseSeriesPage>("get_browse_series", {
+        page: pageParam,
+        ...toBrowseParams(filters),
+      });
 
       if (error) throw new Error(error);
       return data!;
     },
     getNextPageParam: (lastPage) => lastPage.nextPage,
     initialPageParam: 0,
+    // Keep the current grid and facet counts on screen while a new filter loads
+    placeholderData: keepPreviousData,
+    enabled,
   });
 }
@@ -0,0 +1,95 @@
+import { useState, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCreateChapter } from "@/hooks/useSeries";
+import {
+  getPendingUploads,
+  uploadPendingPages,
+  removePendingUpload,
+  discardPendingUpload,
+  PendingChapterUpload,
+  PageProgress,
+} from "@/lib/uploadQueue";
+
+export type ChapterUploads = ReturnType<typeof useChapterUploads>;
+
+// Image chapter uploads for a series: per-page progress for running uploads
+// and the interrupted ones saved on this device, which can be resumed
+export function useChapterUploads(seriesId: string) {
+  const queryClient = useQueryClient();
+  const { mutateAsync: createChapter } = useCreateChapter();
+  const [progress, setProgress] = useState<Record<string, Record<number, PageProgress>>>({});
+  const [active, setActive] = useState<string[]>([]);
+
+  const { data: saved = [] } = useQuery({
+    queryKey: ["pending-uploads", seriesId],
+    queryFn: () => getPendingUploads(seriesId),
+    enabled: !!seriesId,
+  });
+
+  const refreshSaved = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["pending-uploads", seriesId] }),
+    [queryClient, seriesId]
+  );
+
+  // Uploads the missing pages, then creates the chapter. Nothing is written to
+  // the database until every page is on the CDN; on failure the upload stays
+  // saved for a later resume.
+  const start = useCallback(
+    async (upload: PendingChapterUpload) => {
+      setActive((prev) => [...prev, upload.id]);
+      try {
+        const pages = await uploadPendingPages(upload, (pageNumber, pageProgress) =>
+          setProgress((prev) => ({
+            ...prev,
+            [upload.id]: { ...prev[upload.id], [pageNumber]: pageProgress },
+          }))
+        );
+        await createChapter({
+          series_id: upload.seriesId,
+          chapter_number: upload.chapterNumber,
+          title: upload.title || undefined,
+          chapter_type: "images",
+          pages,
+        });
+        await removePendingUpload(upload.id);
+      } finally {
+        setActive((prev) => prev.filter((id) => id !== upload.id));
+        refreshSaved();
+      }
+    },
+    [createChapter, refreshSaved]
+  );
+
+  const discard = useCallback(
+    async (upload: PendingChapterUpload) => {
+      await discardPendingUpload(upload);
+      setProgress((prev) => {
+        const { [upload.id]: _, ...rest } = prev;
+        return rest;
+      });
+      refreshSaved();
+    },
+    [refreshSaved]
+  );
+
+  // Overall progress of one upload, 0-100, weighted by file size
+  const percentFor = useCallback(
+    (id: string) => {
+      const pages = Object.values(progress[id] || {});
+      const total = pages.reduce((sum, page) => sum + page.total, 0);
+      const loaded = pages.reduce((sum, page) => sum + page.loaded, 0);
+      return total > 0 ? Math.round((loaded / total) * 100) : 0;
+    },
+    [progress]
+  );
+
+  return {
+    // Uploads that haven't created their chapter yet, running or interrupted
+    saved,
+    progress,
+    percentFor,
+    isActive: (id: string) => active.includes(id),
+    start,
+    discard,
+  };
+}
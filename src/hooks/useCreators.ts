@@ -0,0 +1,136 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { dbQuery, Creator, CreatorRole, SeriesCreator, CreatorWithSeries } from "@/lib/db";
+
+export type { Creator, CreatorRole, SeriesCreator, CreatorWithSeries };
+
+export const CREATOR_ROLES: CreatorRole[] = ["story", "art", "publisher"];
+
+export const CREATOR_ROLE_LABELS: Record<CreatorRole, string> = {
+  story: "Story",
+  art: "Art",
+  publisher: "Original Publisher",
+};
+
+// Fetch all creators
+export function useCreators() {
+  return useQuery({
+    queryKey: ["creators"],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<Creator[]>("get_creators");
+      if (error) throw new Error(error);
+      return data || [];
+    },
+  });
+}
+
+// Fetch creators for a specific series, with their role
+export function useSeriesCreators(seriesId: string) {
+  return useQuery({
+    queryKey: ["series-creators", seriesId],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<SeriesCreator[]>("get_series_creators", {
+        series_id: seriesId,
+      });
+      if (error) throw new Error(error);
+      return data || [];
+    },
+    enabled: !!seriesId,
+  });
+}
+
+// Fetch a creator and the series they worked on
+export function useCreator(slug: string) {
+  return useQuery({
+    queryKey: ["creator", slug],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<CreatorWithSeries | null>("get_creator", { slug });
+      if (error) throw new Error(error);
+      return data;
+    },
+    enabled: !!slug,
+  });
+}
+
+// Replace the creators linked to a series (admin only)
+export function useUpdateSeriesCreators() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      seriesId,
+      creators,
+    }: {
+      seriesId: string;
+      creators: { creator_id: string; role: CreatorRole }[];
+    }) => {
+      const { error } = await dbQuery("update_series_creators", {
+        series_id: seriesId,
+        creators,
+      });
+      if (error) throw new Error(error);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["series-creators", variables.seriesId] });
+      queryClient.invalidateQueries({ queryKey: ["creator"] });
+    },
+  });
+}
+
+// Create a new creator (admin only)
+export function useCreateCreator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, bio }: { name: string; bio?: string }) => {
+      // The slug is generated from the name on the server
+      const { data, error } = await dbQuery<Creator>("create_creator", {
+        name,
+        bio: bio || null,
+      });
+      if (error) throw new Error(error);
+      return data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["creators"] });
+    },
+  });
+}
+
+// Update a creator (admin only)
+export function useUpdateCreator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name, bio }: { id: string; name: string; bio?: string }) => {
+      // Renaming keeps the creator's slug
+      const { data, error } = await dbQuery<Creator>("update_creator", {
+        id,
+        name,
+        bio: bio || null,
+      });
+      if (error) throw new Error(error);
+      return data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["creators"] });
+      queryClient.invalidateQueries({ queryKey: ["creator"] });
+      queryClient.invalidateQueries({ queryKey: ["series-creators"] });
+    },
+  });
+}
+
+// Delete a creator (admin only)
+export function useDeleteCreator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await dbQuery("delete_creator", { id });
+      if (error) throw new Error(error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["creators"] });
+      queryClient.invalidateQueries({ queryKey: ["series-creators"] });
+    },
+  });
+}
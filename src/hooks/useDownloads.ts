@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  getDownloads,
+  isDownloadsChange,
+  downloadChapter,
+  deleteDownload,
+  DownloadedChapter,
+} from "@/lib/offline";
+
+// Chapters saved for offline reading on this device, newest first
+export function useDownloads() {
+  const [downloads, setDownloads] = useState<Record<string, DownloadedChapter>>(getDownloads);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (isDownloadsChange(e)) setDownloads(getDownloads());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  return Object.values(downloads).sort(
+    (a, b) => new Date(b.downloadedAt).getTime() - new Date(a.downloadedAt).getTime()
+  );
+}
+
+// Download state and actions for a single chapter
+export function useChapterDownload(chapterId: string) {
+  const downloads = useDownloads();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const isDownloaded = downloads.some((d) => d.chapterId === chapterId);
+
+  const download = useCallback(
+    async (seriesTitle: string | null) => {
+      setProgress({ done: 0, total: 0 });
+      try {
+        await downloadChapter(chapterId, seriesTitle, (done, total) =>
+          setProgress({ done, total })
+        );
+      } finally {
+        setProgress(null);
+      }
+    },
+    [chapterId]
+  );
+
+  const remove = useCallback(() => deleteDownload(chapterId), [chapterId]);
+
+  return {
+    isDownloaded,
+    isDownloading: progress !== null,
+    progress,
+    download,
+    remove,
+  };
+}
+
+// Browser storage used by this origin, when the browser reports it
+export function useStorageEstimate(refreshKey: number) {
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+
+  useEffect(() => {
+    if (!navigator.storage?.estimate) return;
+    navigator.storage.estimate().then(({ usage, quota }) => {
+      setEstimate({ usage: usage ?? 0, quota: quota ?? 0 });
+    });
+  }, [refreshKey]);
+
+  return estimate;
+}
@@ -0,0 +1,85 @@
+import { useState, useCallback } from "react";
+
+export type GenreMatch = "all" | "any";
+export type GenreState = "include" | "exclude" | null;
+
+export interface GenreFilterParams {
+  genres_all: string[] | null;
+  genres_any: string[] | null;
+  genres_exclude: string[] | null;
+}
+
+export interface GenreFilter {
+  include: string[];
+  exclude: string[];
+  match: GenreMatch;
+}
+
+export const EMPTY_GENRE_FILTER: GenreFilter = { include: [], exclude: [], match: "all" };
+
+// Map a genre filter to the genres_all/genres_any/genres_exclude params
+// understood by get_browse_series and search_series
+export function toGenreParams(filter: GenreFilter): GenreFilterParams {
+  const include = filter.include.length > 0 ? filter.include : null;
+  return {
+    genres_all: filter.match === "all" ? include : null,
+    genres_any: filter.match === "any" ? include : null,
+    genres_exclude: filter.exclude.length > 0 ? filter.exclude : null,
+  };
+}
+
+export function isGenreFilterActive(filter: GenreFilter) {
+  return filter.include.length > 0 || filter.exclude.length > 0;
+}
+
+export function genreStateOf(filter: GenreFilter, genreId: string): GenreState {
+  if (filter.include.includes(genreId)) return "include";
+  if (filter.exclude.includes(genreId)) return "exclude";
+  return null;
+}
+
+// Genre chips cycle through include -> exclude -> off
+export function cycleGenre(filter: GenreFilter, genreId: string): GenreFilter {
+  if (filter.include.includes(genreId)) {
+    return {
+      ...filter,
+      include: filter.include.filter((id) => id !== genreId),
+      exclude: [...filter.exclude, genreId],
+    };
+  }
+  if (filter.exclude.includes(genreId)) {
+    return { ...filter, exclude: filter.exclude.filter((id) => id !== genreId) };
+  }
+  return { ...filter, include: [...filter.include, genreId] };
+}
+
+export function withoutGenre(filter: GenreFilter, genreId: string): GenreFilter {
+  return {
+    ...filter,
+    include: filter.include.filter((id) => id !== genreId),
+    exclude: filter.exclude.filter((id) => id !== genreId),
+  };
+}
+
+// Local genre filter state, for views that don't keep filters in the URL
+export function useGenreFilter(initial: GenreFilter = EMPTY_GENRE_FILTER) {
+  const [filter, setFilter] = useState<GenreFilter>(initial);
+
+  const stateOf = useCallback((genreId: string) => genreStateOf(filter, genreId), [filter]);
+
+  const toggle = useCallback((genreId: string) => {
+    setFilter((prev) => cycleGenre(prev, genreId));
+  }, []);
+
+  const remove = useCallback((genreId: string) => {
+    setFilter((prev) => withoutGenre(prev, genreId));
+  }, []);
+
+  const setMatch = useCallback((match: GenreMatch) => {
+    setFilter((prev) => ({ ...prev, match }));
+  }, []);
+
+  const clear = useCallback(() => setFilter(EMPTY_GENRE_FILTER), []);
+
+  return { filter, stateOf, toggle, remove, setMatch, clear };
+}
@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { dbQuery, LibraryItem } from "@/lib/db";
+import { useTelegramUser } from "@/hooks/useTelegramUser";
+
+export type { LibraryItem };
+
+// Fetch the signed-in reader's followed series with unread counters
+export function useLibrary() {
+  const user = useTelegramUser();
+
+  return useQuery({
+    queryKey: ["library", user?.telegram_id],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<LibraryItem[]>("get_library");
+      if (error) throw new Error(error);
+      return data || [];
+    },
+    enabled: !!user,
+  });
+}
+
+export interface FollowStatus {
+  following: boolean;
+  // Opted in to Telegram messages for new chapters
+  notify: boolean;
+}
+
+// Check whether the signed-in reader follows a series
+export function useFollowStatus(seriesId: string) {
+  const user = useTelegramUser();
+
+  return useQuery({
+    queryKey: ["follow-status", seriesId, user?.telegram_id],
+    queryFn: async (): Promise<FollowStatus> => {
+      const { data, error } = await dbQuery<FollowStatus>("get_follow_status", {
+        series_id: seriesId,
+      });
+      if (error) throw new Error(error);
+      return { following: data?.following ?? false, notify: data?.notify ?? false };
+    },
+    enabled: !!seriesId && !!user,
+  });
+}
+
+// Follow or unfollow a series
+export function useToggleFollow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ seriesId, follow }: { seriesId: string; follow: boolean }) => {
+      const { error } = await dbQuery(follow ? "follow_series" : "unfollow_series", {
+        series_id: seriesId,
+      });
+      if (error) throw new Error(error);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["follow-status", variables.seriesId] });
+      queryClient.invalidateQueries({ queryKey: ["library"] });
+    },
+  });
+}
+
+// Turn Telegram messages for new chapters of a followed series on or off
+export function useSetFollowNotify() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ seriesId, notify }: { seriesId: string; notify: boolean }) => {
+      const { error } = await dbQuery("set_follow_notify", { series_id: seriesId, notify });
+      if (error) throw new Error(error);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["follow-status", variables.seriesId] });
+    },
+  });
+}
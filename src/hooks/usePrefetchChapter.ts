@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+import { useChapter } from "@/hooks/useSeries";
+import { ChapterPage } from "@/lib/db";
+import { preloadPageImage } from "@/lib/pageImage";
+
+// Pages of the next chapter to warm in the browser cache
+const PREFETCH_PAGES = 3;
+
+interface NetworkInformation {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+// Skip speculative downloads when the reader asked to save data or is on a slow link
+export function isBandwidthConstrained(): boolean {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  if (!connection) return false;
+  if (connection.saveData) return true;
+  return connection.effectiveType === "slow-2g" || connection.effectiveType === "2g";
+}
+
+// Fetch the next chapter into the query cache and preload its first pages,
+// so opening it from the reader is instant. sizesFor gives the sizes the
+// active reader will render a page with, so the same variant is preloaded.
+export function usePrefetchChapter(
+  chapterId: string | null | undefined,
+  enabled: boolean,
+  sizesFor: (page: ChapterPage) => string | undefined
+) {
+  const shouldPrefetch = enabled && !!chapterId && !isBandwidthConstrained();
+  const { data } = useChapter(shouldPrefetch ? chapterId : "");
+  const sizesRef = useRef(sizesFor);
+  sizesRef.current = sizesFor;
+
+  useEffect(() => {
+    if (!shouldPrefetch || !data) return;
+
+    const firstPages = [...data.pages]
+      .sort((a, b) => a.page_number - b.page_number)
+      .slice(0, PREFETCH_PAGES);
+    for (const page of firstPages) {
+      preloadPageImage(page, sizesRef.current(page));
+    }
+  }, [shouldPrefetch, data]);
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef, RefObject } from "react";
+
+export interface ReaderPosition {
+  page: number;
+  // Fraction (0-1) of the page already scrolled past
+  offset: number;
+}
+
+// Height of the fixed reader header; the page under it is the "current" one
+const TOP_OFFSET = 56;
+
+function findPageElement(container: HTMLElement, page: number): HTMLElement | null {
+  return container.querySelector<HTMLElement>(`[data-page-number="${page}"]`);
+}
+
+// Report the page at the top of the viewport and restore a saved position once.
+// Pages inside the container must carry a data-page-number attribute.
+export function useReaderPosition(
+  containerRef: RefObject<HTMLElement>,
+  {
+    pageCount,
+    restoreTo,
+    onPositionChange,
+  }: {
+    pageCount: number;
+    restoreTo?: ReaderPosition | null;
+    onPositionChange?: (position: ReaderPosition) => void;
+  }
+) {
+  const onChangeRef = useRef(onPositionChange);
+  onChangeRef.current = onPositionChange;
+  const restoredRef = useRef(false);
+
+  // Track the current page while scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || pageCount === 0) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const elements = container.querySelectorAll<HTMLElement>("[data-page-number]");
+      for (const element of elements) {
+        const rect = element.getBoundingClientRect();
+        if (rect.bottom > TOP_OFFSET) {
+          const offset = rect.height > 0 ? (TOP_OFFSET - rect.top) / rect.height : 0;
+          onChangeRef.current?.({
+            page: Number(element.dataset.pageNumber),
+            offset: Math.min(1, Math.max(0, offset)),
+          });
+          return;
+        }
+      }
+    };
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [containerRef, pageCount]);
+
+  // Jump to the saved position once its page has rendered
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !restoreTo || restoredRef.current) return;
+
+    const frame = requestAnimationFrame(() => {
+      const element = findPageElement(container, restoreTo.page);
+      if (!element) return;
+      restoredRef.current = true;
+      const rect = element.getBoundingClientRect();
+      window.scrollTo({
+        top: window.scrollY + rect.top + rect.height * restoreTo.offset - TOP_OFFSET,
+        behavior: "instant",
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [containerRef, restoreTo, pageCount]);
+}
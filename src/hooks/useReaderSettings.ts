@@ -0,0 +1,139 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { dbQuery } from "@/lib/db";
+import { useTelegramUser } from "@/hooks/useTelegramUser";
+
+export type FitMode = "width" | "height" | "original";
+
+export interface ReaderSettings {
+  fit: FitMode;
+  // Max page width in px when fitting to width
+  maxWidth: number;
+  // Space between pages in px
+  pageGap: number;
+  // "theme" follows the site theme, otherwise a CSS colour
+  background: string;
+  // Percentages applied as CSS filters on the pages
+  brightness: number;
+  sepia: number;
+  // Load the next chapter near the end of this one (skipped on slow connections)
+  prefetchNext: boolean;
+}
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fit: "width",
+  maxWidth: 768,
+  pageGap: 0,
+  background: "theme",
+  brightness: 100,
+  sepia: 0,
+  prefetchNext: true,
+};
+
+const STORAGE_KEY = "reader_settings";
+const SYNC_DELAY = 1000;
+
+interface StoredSettings {
+  settings: ReaderSettings;
+  updatedAt: string;
+}
+
+function readLocal(): StoredSettings | null {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored) as StoredSettings;
+    return {
+      settings: { ...DEFAULT_READER_SETTINGS, ...parsed.settings },
+      updatedAt: parsed.updatedAt,
+    };
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+}
+
+function writeLocal(stored: StoredSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+// CSS filter for the brightness/sepia settings
+export function getReaderFilter(settings: ReaderSettings): string | undefined {
+  if (settings.brightness === 100 && settings.sepia === 0) return undefined;
+  return `brightness(${settings.brightness}%) sepia(${settings.sepia}%)`;
+}
+
+// Reader display settings: saved per device, and synced through the db
+// function for signed-in Telegram users (newest copy wins)
+export function useReaderSettings() {
+  const user = useTelegramUser();
+  const [stored, setStored] = useState<StoredSettings | null>(readLocal);
+  const storedRef = useRef(stored);
+  storedRef.current = stored;
+  const syncTimer = useRef<number>();
+  const pendingSync = useRef<(() => void) | null>(null);
+
+  // Pull the server copy once signed in
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    dbQuery<{ settings: Partial<ReaderSettings>; updated_at: string } | null>(
+      "get_reader_settings"
+    ).then(({ data }) => {
+      if (cancelled || !data) return;
+      const local = readLocal();
+      if (local && new Date(local.updatedAt) >= new Date(data.updated_at)) return;
+
+      const remote = {
+        settings: { ...DEFAULT_READER_SETTINGS, ...data.settings },
+        updatedAt: data.updated_at,
+      };
+      writeLocal(remote);
+      setStored(remote);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Push any pending change before leaving the reader
+  useEffect(
+    () => () => {
+      if (pendingSync.current) {
+        window.clearTimeout(syncTimer.current);
+        pendingSync.current();
+      }
+    },
+    []
+  );
+
+  const update = useCallback(
+    (changes: Partial<ReaderSettings>) => {
+      const next = {
+        settings: { ...(storedRef.current?.settings ?? DEFAULT_READER_SETTINGS), ...changes },
+        updatedAt: new Date().toISOString(),
+      };
+      writeLocal(next);
+      setStored(next);
+
+      if (user) {
+        window.clearTimeout(syncTimer.current);
+        pendingSync.current = () => {
+          pendingSync.current = null;
+          dbQuery("save_reader_settings", { settings: next.settings });
+        };
+        syncTimer.current = window.setTimeout(pendingSync.current, SYNC_DELAY);
+      }
+    },
+    [user]
+  );
+
+  const reset = useCallback(() => update(DEFAULT_READER_SETTINGS), [update]);
+
+  return {
+    settings: stored?.settings ?? DEFAULT_READER_SETTINGS,
+    update,
+    reset,
+  };
+}
@@ -0,0 +1,79 @@
+import { useState, useCallback } from "react";
+
+export type ReadingMode = "vertical" | "paged";
+export type ReadingDirection = "ltr" | "rtl";
+
+export interface ReadingModeSettings {
+  mode: ReadingMode;
+  direction: ReadingDirection;
+  // Paged mode only: show two pages side by side on wide screens
+  spread: boolean;
+  // Shift spread pairing by one page so the cover stands alone
+  spreadOffset: boolean;
+}
+
+// Manga reads right-to-left one page at a time; manhwa/manhua are vertical strips
+export function getDefaultReadingMode(seriesType?: string): ReadingModeSettings {
+  return seriesType === "manga"
+    ? { mode: "paged", direction: "rtl", spread: false, spreadOffset: false }
+    : { mode: "vertical", direction: "ltr", spread: false, spreadOffset: false };
+}
+
+function storageKey(seriesId: string) {
+  return `reader_mode_${seriesId}`;
+}
+
+function readOverride(seriesId: string): Partial<ReadingModeSettings> | null {
+  if (!seriesId) return null;
+  const stored = localStorage.getItem(storageKey(seriesId));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(storageKey(seriesId));
+    return null;
+  }
+}
+
+// Reading mode for a series: the type-based default unless the reader overrode it
+export function useReadingMode(seriesId: string, seriesType?: string) {
+  const [override, setOverride] = useState(() => readOverride(seriesId));
+  const [overrideFor, setOverrideFor] = useState(seriesId);
+
+  // Reload the stored override when switching series
+  if (overrideFor !== seriesId) {
+    setOverrideFor(seriesId);
+    setOverride(readOverride(seriesId));
+  }
+
+  const settings: ReadingModeSettings = {
+    ...getDefaultReadingMode(seriesType),
+    ...override,
+  };
+
+  const update = useCallback(
+    (changes: Partial<ReadingModeSettings>) => {
+      setOverride((prev) => {
+        const next = { ...prev, ...changes };
+        if (seriesId) localStorage.setItem(storageKey(seriesId), JSON.stringify(next));
+        return next;
+      });
+    },
+    [seriesId]
+  );
+
+  const reset = useCallback(() => {
+    if (seriesId) localStorage.removeItem(storageKey(seriesId));
+    setOverride(null);
+  }, [seriesId]);
+
+  return {
+    ...settings,
+    isOverridden: !!override,
+    setMode: (mode: ReadingMode) => update({ mode }),
+    setDirection: (direction: ReadingDirection) => update({ direction }),
+    setSpread: (spread: boolean) => update({ spread }),
+    setSpreadOffset: (spreadOffset: boolean) => update({ spreadOffset }),
+    reset,
+  };
+}
@@ -0,0 +1,43 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { dbQuery, ReadingProgress } from "@/lib/db";
+import { useTelegramUser } from "@/hooks/useTelegramUser";
+
+export type { ReadingProgress };
+
+// Fetch the signed-in reader's last position in a series
+export function useReadingProgress(seriesId: string) {
+  const user = useTelegramUser();
+
+  return useQuery({
+    queryKey: ["reading-progress", seriesId, user?.telegram_id],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<ReadingProgress | null>(
+        "get_reading_progress",
+        { series_id: seriesId }
+      );
+      if (error) throw new Error(error);
+      return data || null;
+    },
+    enabled: !!seriesId && !!user,
+  });
+}
+
+// Save the reader's current chapter and page
+export function useSaveReadingProgress() {
+  return useMutation({
+    mutationFn: async (progress: {
+      seriesId: string;
+      chapterId: string;
+      pageNumber: number;
+      scrollOffset: number;
+    }) => {
+      const { error } = await dbQuery("save_reading_progress", {
+        series_id: progress.seriesId,
+        chapter_id: progress.chapterId,
+        page_number: progress.pageNumber,
+        scroll_offset: progress.scrollOffset,
+      });
+      if (error) throw new Error(error);
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from "react";
+
+const STORAGE_KEY = "recent_searches";
+const MAX_RECENT = 8;
+
+function readRecent(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter((s): s is string => typeof s === "string") : [];
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+    return [];
+  }
+}
+
+function writeRecent(recent: string[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+  // Storage events only reach other tabs, so tell this one too
+  window.dispatchEvent(new StorageEvent("storage", { key: STORAGE_KEY }));
+}
+
+// Recent search terms, kept per device, newest first
+export function useRecentSearches() {
+  const [recent, setRecent] = useState<string[]>(readRecent);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setRecent(readRecent());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const add = useCallback((term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    const lower = trimmed.toLowerCase();
+    writeRecent([trimmed, ...readRecent().filter((s) => s.toLowerCase() !== lower)].slice(0, MAX_RECENT));
+  }, []);
+
+  const remove = useCallback((term: string) => {
+    writeRecent(readRecent().filter((s) => s !== term));
+  }, []);
+
+  const clear = useCallback(() => writeRecent([]), []);
+
+  return { recent, add, remove, clear };
+}
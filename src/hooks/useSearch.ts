@@ -1,65 +1,83 @@
-import { useQuery } from "@tanstack/react-query";
-import { dbQuery, SearchResult } from "@/lib/db";
+import { useState, useEffect } from "react";
+import { useQuery, useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { dbQuery, SearchResult, SearchSuggestions } from "@/lib/db";
+import { GenreFilter, isGenreFilterActive, toGenreParams } from "@/hooks/useGenreFilter";
 
-export type { SearchResult };
+export type { SearchResult, SearchSuggestions };
+
+export type SearchSort = "relevance" | "latest" | "title" | "rating" | "views" | "chapters";
 
 export interface SearchFilters {
   query: string;
   status?: string | null;
   type?: string | null;
-  genres?: string[];
-  sortBy?: "relevance" | "latest" | "title" | "rating";
+  genres?: GenreFilter;
+  // Creator slug
+  creator?: string | null;
+  sortBy?: SearchSort;
   limit?: number;
-  offset?: number;
 }
 
+// Filtered search, paged by result_offset; each row carries the total match count
 export function useAdvancedSearch(filters: SearchFilters) {
-  return useQuery({
+  const limit = filters.limit || 20;
+
+  return useInfiniteQuery({
     queryKey: ["search", filters],
-    queryFn: async (): Promise<SearchResult[]> => {
+    queryFn: async ({ pageParam = 0 }): Promise<SearchResult[]> => {
       const { data, error } = await dbQuery<SearchResult[]>("search_series", {
         search_query: filters.query || null,
         filter_status: filters.status || null,
         filter_type: filters.type || null,
-        filter_genres: filters.genres?.length ? filters.genres : null,
+        filter_creator: filters.creator || null,
+        ...(filters.genres ? toGenreParams(filters.genres) : {}),
         sort_by: filters.sortBy || "relevance",
-        result_limit: filters.limit || 20,
-        result_offset: filters.offset || 0,
+        result_limit: limit,
+        result_offset: pageParam,
       });
 
       if (error) throw new Error(error);
       return data || [];
     },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) => {
+      const loaded = allPages.reduce((sum, page) => sum + page.length, 0);
+      const total = lastPage[0]?.total_count ?? 0;
+      return loaded < total ? loaded : undefined;
+    },
     enabled:
       filters.query.length > 0 ||
       !!filters.status ||
       !!filters.type ||
-      (filters.genres?.length || 0) > 0,
+      !!filters.creator ||
+      (!!filters.genres && isGenreFilterActive(filters.genres)),
     staleTime: 1000 * 30, // 30 seconds
   });
 }
 
-// Quick search for header (simpler, faster)
-export function useQuickSearch(query: string) {
-  return useQuery({
-    queryKey: ["quick-search", query],
-    queryFn: async (): Promise<SearchResult[]> => {
-      if (!query.trim()) return [];
+// Title and genre completions for the search box, debounced so typing doesn't
+// fire a request per keystroke
+export function useSearchSuggest(query: string) {
+  const [debounced, setDebounced] = useState(query.trim());
 
-      const { data, error } = await dbQuery<SearchResult[]>("search_series", {
-        search_query: query.trim(),
-        filter_status: null,
-        filter_type: null,
-        filter_genres: null,
-        sort_by: "relevance",
-        result_limit: 8,
-        result_offset: 0,
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), 150);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ["search-suggest", debounced],
+    queryFn: async (): Promise<SearchSuggestions> => {
+      const { data, error } = await dbQuery<SearchSuggestions>("search_suggest", {
+        query: debounced,
+        limit: 6,
       });
 
       if (error) throw new Error(error);
-      return data || [];
+      return data || { series: [], genres: [] };
     },
-    enabled: query.trim().length >= 2,
-    staleTime: 1000 * 30,
+    enabled: debounced.length >= 2,
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 60,
   });
 }
@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { dbQuery, Series, Chapter, ChapterPage } from "@/lib/db";
+import { getOfflineChapter } from "@/lib/offline";
+import { deleteFilesByUrl } from "@/lib/storage";
 
 export type { Series, Chapter, ChapterPage };
 
@@ -42,6 +44,20 @@ export function useSeries(id: string) {
   });
 }
 
+// Fetch a series by its slug. Previous slugs and ids also resolve, so callers
+// should redirect when the returned slug differs from the one in the URL.
+export function useSeriesBySlug(slug: string) {
+  return useQuery({
+    queryKey: ["series", "slug", slug],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<Series | null>("get_series_by_slug", { slug });
+      if (error) throw new Error(error);
+      return data;
+    },
+    enabled: !!slug,
+  });
+}
+
 // Fetch chapters for a series
 export function useChapters(seriesId: string) {
   return useQuery({
@@ -57,7 +73,7 @@ export function useChapters(seriesId: string) {
   });
 }
 
-// Fetch single chapter with pages
+// Fetch single chapter with pages, falling back to a downloaded copy offline
 export function useChapter(chapterId: string) {
   return useQuery({
     queryKey: ["chapter", chapterId],
@@ -66,10 +82,16 @@ export function useChapter(chapterId: string) {
         chapter: Chapter;
         pages: ChapterPage[];
       }>("get_chapter", { id: chapterId });
-      if (error) throw new Error(error);
+      if (error) {
+        const offline = await getOfflineChapter(chapterId);
+        if (offline) return offline;
+        throw new Error(error);
+      }
       return data;
     },
     enabled: !!chapterId,
+    // Still run the query without a connection so downloads can be read
+    networkMode: "offlineFirst",
   });
 }
 
@@ -80,6 +102,7 @@ export function useCreateSeries() {
   return useMutation({
     mutationFn: async (data: {
       title: string;
+      slug?: string;
       alternative_titles?: string[];
       description?: string;
       cover_url?: string;
@@ -88,6 +111,9 @@ export function useCreateSeries() {
       type?: string;
       rating?: number | null;
       is_featured?: boolean;
+      downloads_enabled?: boolean;
+      notifications_muted?: boolean;
+      release_year?: number | null;
     }) => {
       const { data: result, error } = await dbQuery<Series>("create_series", data);
       if (error) throw new Error(error);
@@ -111,6 +137,7 @@ export function useUpdateSeries() {
     }: {
       id: string;
       title?: string;
+      slug?: string;
       alternative_titles?: string[];
       description?: string;
       cover_url?: string;
@@ -119,6 +146,9 @@ export function useUpdateSeries() {
       type?: string;
       rating?: number | null;
       is_featured?: boolean;
+      downloads_enabled?: boolean;
+      notifications_muted?: boolean;
+      release_year?: number | null;
     }) => {
       const { data: result, error } = await dbQuery<Series>("update_series", {
         id,
@@ -141,8 +171,11 @@ export function useDeleteSeries() {
 
   return useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await dbQuery("delete_series", { id });
+      const { data, error } = await dbQuery<{ removed_urls: string[] }>("delete_series", { id });
       if (error) throw new Error(error);
+      // The rows are gone; a file left behind is found by the storage audit.
+      // Resolves with the number of files that couldn't be deleted.
+      return deleteFilesByUrl(data?.removed_urls ?? []);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["series"] });
@@ -162,7 +195,7 @@ export function useCreateChapter() {
       title?: string;
       chapter_type: string;
       pdf_url?: string;
-      pages?: { page_number: number; image_url: string }[];
+      pages?: Omit<ChapterPage, "id" | "chapter_id" | "created_at">[];
     }) => {
       const { data: result, error } = await dbQuery<Chapter>("create_chapter", data);
       if (error) throw new Error(error);
@@ -181,11 +214,12 @@ export function useDeleteChapter() {
 
   return useMutation({
     mutationFn: async ({ id, seriesId }: { id: string; seriesId: string }) => {
-      const { error } = await dbQuery("delete_chapter", { id });
+      const { data, error } = await dbQuery<{ removed_urls: string[] }>("delete_chapter", { id });
       if (error) throw new Error(error);
-      return seriesId;
+      const failedFiles = await deleteFilesByUrl(data?.removed_urls ?? []);
+      return { seriesId, failedFiles };
     },
-    onSuccess: (seriesId) => {
+    onSuccess: ({ seriesId }) => {
       queryClient.invalidateQueries({ queryKey: ["chapters", seriesId] });
       queryClient.invalidateQueries({ queryKey: ["series-with-chapters"] });
       queryClient.invalidateQueries({ queryKey: ["series-with-latest-chapters"] });
@@ -193,6 +227,42 @@ export function useDeleteChapter() {
   });
 }
 
+// Save a chapter's page list (order, replacements, insertions, deletions).
+// Images the chapter no longer uses are deleted from storage afterwards.
+export function useUpdateChapterPages() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      chapterId,
+      pages,
+    }: {
+      chapterId: string;
+      // New pages have no id; width, height and variants come from the upload
+      pages: (Pick<ChapterPage, "image_url" | "width" | "height" | "variants"> & { id?: string })[];
+    }) => {
+      const { data, error } = await dbQuery<{ pages: ChapterPage[]; removed_urls: string[] }>(
+        "update_chapter_pages",
+        { chapter_id: chapterId, pages }
+      );
+      if (error) throw new Error(error);
+
+      // The pages are already saved; a file left behind is found by the storage audit
+      const failedFiles = await deleteFilesByUrl(data!.removed_urls);
+
+      return { pages: data!.pages, chapterId, failedFiles };
+    },
+    onSuccess: (result) => {
+      // Update the cached chapter right away so editors don't flash the old order
+      queryClient.setQueryData<{ chapter: Chapter; pages: ChapterPage[] }>(
+        ["chapter", result.chapterId],
+        (old) => old && { ...old, pages: result.pages }
+      );
+      queryClient.invalidateQueries({ queryKey: ["chapter", result.chapterId] });
+    },
+  });
+}
+
 // Update chapter mutation
 export function useUpdateChapter() {
   const queryClient = useQueryClient();
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { dbQuery, RelationType, SeriesRelation } from "@/lib/db";
+
+export type { RelationType, SeriesRelation };
+
+export const RELATION_TYPES: RelationType[] = [
+  "prequel",
+  "sequel",
+  "parent_story",
+  "side_story",
+  "spin_off",
+  "adaptation",
+  "source",
+  "alternative",
+];
+
+export const RELATION_LABELS: Record<RelationType, string> = {
+  prequel: "Prequel",
+  sequel: "Sequel",
+  parent_story: "Main Story",
+  side_story: "Side Story",
+  spin_off: "Spin-off",
+  adaptation: "Adaptation",
+  source: "Original Work",
+  alternative: "Alternative Version",
+};
+
+// Fetch related series, including links added from the other side
+export function useSeriesRelations(seriesId: string) {
+  return useQuery({
+    queryKey: ["series-relations", seriesId],
+    queryFn: async () => {
+      const { data, error } = await dbQuery<SeriesRelation[]>("get_series_relations", {
+        series_id: seriesId,
+      });
+      if (error) throw new Error(error);
+      return data || [];
+    },
+    enabled: !!seriesId,
+  });
+}
+
+// Replace the relations added on a series (admin only)
+export function useUpdateSeriesRelations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      seriesId,
+      relations,
+    }: {
+      seriesId: string;
+      relations: { related_series_id: string; relation_type: RelationType }[];
+    }) => {
+      const { error } = await dbQuery("update_series_relations", {
+        series_id: seriesId,
+        relations,
+      });
+      if (error) throw new Error(error);
+    },
+    onSuccess: () => {
+      // Inverse links show up on the related series too
+      queryClient.invalidateQueries({ queryKey: ["series-relations"] });
+    },
+  });
+}
@@ -25,6 +25,7 @@ export function useFeaturedSeries() {
       const { data, error } = await dbQuery<
         {
           id: string;
+          slug: string;
           title: string;
           description: string | null;
           cover_url: string | null;
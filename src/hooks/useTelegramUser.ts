@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+import type { TelegramUser } from "@/components/comments/TelegramLogin";
+
+// Read the Telegram user saved by TelegramLogin after a successful sign-in
+export function getStoredTelegramUser(): TelegramUser | null {
+  const stored = localStorage.getItem("tg_user");
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem("tg_user");
+    return null;
+  }
+}
+
+// Let mounted useTelegramUser hooks in this tab pick up a login or logout
+export function notifyTelegramUserChange() {
+  window.dispatchEvent(new StorageEvent("storage", { key: "tg_user" }));
+}
+
+// Current Telegram reader, or null when signed out
+export function useTelegramUser() {
+  const [user, setUser] = useState<TelegramUser | null>(getStoredTelegramUser);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === "tg_user") setUser(getStoredTelegramUser());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  return user;
+}
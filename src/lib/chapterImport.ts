@@ -0,0 +1,133 @@
+import { unzip, Unzipped } from "fflate";
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+const ARCHIVE_EXTENSIONS = ["zip", "cbz"];
+
+// A chapter assembled from an archive, a folder or a loose image selection
+export interface ImportedChapter {
+  key: string;
+  // Archive or folder name the chapter was read from
+  source: string;
+  // Detected from the source name; null when nothing looked like a number
+  chapterNumber: number | null;
+  pages: File[];
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+// Sorts "2.jpg" before "10.jpg", as a person would
+export function naturalCompare(a: string, b: string) {
+  return collator.compare(a, b);
+}
+
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot + 1).toLowerCase();
+}
+
+function baseName(path: string) {
+  return path.split("/").pop() || path;
+}
+
+export function isImageFile(name: string) {
+  return extensionOf(name) in IMAGE_TYPES;
+}
+
+export function isArchiveFile(name: string) {
+  return ARCHIVE_EXTENSIONS.includes(extensionOf(name));
+}
+
+// Chapter number from names like "Ch 12.5", "Chapter_013.cbz" or
+// "Vol.2 Ch.14"; falls back to the last number in the name
+export function detectChapterNumber(name: string): number | null {
+  const stem = name.replace(/\.(zip|cbz)$/i, "");
+  const labelled = stem.match(/(?:^|[^a-z])(?:ch|chap|chapter|ep|episode)[\s._-]*(\d+(?:\.\d+)?)/i);
+  if (labelled) return parseFloat(labelled[1]);
+  const numbers = stem.match(/\d+(?:\.\d+)?/g);
+  return numbers ? parseFloat(numbers[numbers.length - 1]) : null;
+}
+
+export function sortPages(files: File[]) {
+  return [...files].sort((a, b) => naturalCompare(pagePath(a), pagePath(b)));
+}
+
+// Folder selections keep their relative path, so "a/2.jpg" and "b/2.jpg" sort apart
+function pagePath(file: File) {
+  return file.webkitRelativePath || file.name;
+}
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(
+      data,
+      {
+        // Skip macOS metadata and anything that isn't a page image
+        filter: (entry) =>
+          !entry.name.startsWith("__MACOSX/") &&
+          !baseName(entry.name).startsWith(".") &&
+          isImageFile(entry.name),
+      },
+      (error, result) => (error ? reject(error) : resolve(result))
+    );
+  });
+}
+
+// Reads the page images out of a ZIP/CBZ, in natural filename order
+export async function readArchive(archive: File): Promise<File[]> {
+  const entries = await unzipAsync(new Uint8Array(await archive.arrayBuffer()));
+  return Object.keys(entries)
+    .sort(naturalCompare)
+    .map(
+      (path) =>
+        new File([entries[path]], baseName(path), {
+          type: IMAGE_TYPES[extensionOf(path)],
+        })
+    );
+}
+
+// Turns a file selection into chapters: every archive is one chapter, and
+// images are grouped by the folder they came from (loose images form one)
+export async function buildChapters(files: File[]): Promise<ImportedChapter[]> {
+  const chapters: ImportedChapter[] = [];
+
+  for (const file of files.filter((f) => isArchiveFile(f.name))) {
+    chapters.push({
+      key: `${file.name}-${file.size}-${file.lastModified}`,
+      source: file.name,
+      chapterNumber: detectChapterNumber(file.name),
+      pages: await readArchive(file),
+    });
+  }
+
+  const folders = new Map<string, File[]>();
+  for (const file of files.filter((f) => isImageFile(f.name))) {
+    const folder = file.webkitRelativePath.split("/").slice(0, -1).join("/");
+    folders.set(folder, [...(folders.get(folder) || []), file]);
+  }
+  for (const [folder, images] of folders) {
+    const name = baseName(folder) || "Selected images";
+    chapters.push({
+      key: `${folder || "images"}-${images.length}`,
+      source: folder || name,
+      chapterNumber: folder ? detectChapterNumber(name) : null,
+      pages: sortPages(images),
+    });
+  }
+
+  return chapters
+    .filter((chapter) => chapter.pages.length > 0)
+    .sort((a, b) =>
+      a.chapterNumber !== null && b.chapterNumber !== null
+        ? a.chapterNumber - b.chapterNumber
+        : naturalCompare(a.source, b.source)
+    );
+}
+
@@ -38,6 +38,7 @@ export async function dbQuery<T = unknown>(
 // Types
 export interface Series {
   id: string;
+  slug: string;
   title: string;
   alternative_titles: string[] | null;
   description: string | null;
@@ -47,6 +48,9 @@ export interface Series {
   type: string;
   rating: number | null;
   is_featured: boolean;
+  downloads_enabled: boolean;
+  notifications_muted: boolean;
+  release_year: number | null;
   total_views: number;
   created_at: string;
   updated_at: string;
@@ -62,11 +66,23 @@ export interface Chapter {
   created_at: string;
 }
 
+// A stored size/format of a processed page
+export interface ImageVariant {
+  url: string;
+  width: number;
+  // jpeg is a single full-width copy kept for PDF and CBZ export
+  format: "webp" | "avif" | "jpeg";
+}
+
 export interface ChapterPage {
   id: string;
   chapter_id: string;
   page_number: number;
   image_url: string;
+  // Null for pages stored as uploaded, without processing
+  width: number | null;
+  height: number | null;
+  variants: ImageVariant[];
   created_at: string;
 }
 
@@ -86,6 +102,7 @@ export interface Genre {
 
 export interface PopularSeries {
   id: string;
+  slug: string;
   title: string;
   cover_url: string | null;
   status: string;
@@ -100,6 +117,7 @@ export interface PopularSeriesWithGenres extends PopularSeries {
 
 export interface SearchResult {
   id: string;
+  slug: string;
   title: string;
   alternative_titles: string[] | null;
   description: string | null;
@@ -109,8 +127,85 @@ export interface SearchResult {
   rating: number | null;
   is_featured: boolean;
   updated_at: string;
+  total_views: number;
   chapters_count: number;
   relevance_score: number;
+  // Matches across all pages, for pagination
+  total_count: number;
+  // Matched terms wrapped in <mark>...</mark>; null when the field didn't match
+  title_highlight: string | null;
+  alternative_titles_highlight: string | null;
+  snippet: string | null;
+}
+
+export type RelationType =
+  | "prequel"
+  | "sequel"
+  | "parent_story"
+  | "side_story"
+  | "spin_off"
+  | "adaptation"
+  | "source"
+  | "alternative";
+
+export interface SeriesRelation {
+  relation_type: RelationType;
+  // false when the link was added on the other series and this is its inverse
+  direct: boolean;
+  id: string;
+  slug: string;
+  title: string;
+  cover_url: string | null;
+  status: string;
+  type: string;
+  chapters_count: number;
+  first_chapter_number: number | null;
+}
+
+export type CreatorRole = "story" | "art" | "publisher";
+
+export interface Creator {
+  id: string;
+  name: string;
+  slug: string;
+  bio: string | null;
+  created_at: string;
+}
+
+export interface SeriesCreator extends Creator {
+  role: CreatorRole;
+}
+
+export interface CreatorSeries {
+  id: string;
+  slug: string;
+  title: string;
+  cover_url: string | null;
+  status: string;
+  type: string;
+  updated_at: string;
+  chaptersCount: number;
+  roles: CreatorRole[];
+}
+
+export interface CreatorWithSeries {
+  creator: Creator;
+  series: CreatorSeries[];
+}
+
+export interface SeriesSuggestion {
+  id: string;
+  slug: string;
+  title: string;
+  cover_url: string | null;
+  type: string;
+  // The alternative title that matched, when the main title didn't
+  matched_title: string | null;
+}
+
+export interface SearchSuggestions {
+  series: SeriesSuggestion[];
+  genres: Pick<Genre, "id" | "name" | "slug">[];
 }
 
 export interface SeriesWithChapters extends Series {
@@ -125,10 +220,121 @@ export interface SeriesWithChapters extends Series {
 
 export interface BrowseSeriesItem {
   id: string;
+  slug: string;
   title: string;
   cover_url: string | null;
   status: string;
   type: string;
+  rating: number | null;
+  release_year: number | null;
   updated_at: string;
   chaptersCount: number;
 }
+
+// Per-facet counts keyed by value (genre id, year, rating step, chapter range "min-max").
+// Each facet ignores its own filter, so counts show what picking that value would give.
+export interface BrowseFacets {
+  status: Record<string, number>;
+  type: Record<string, number>;
+  genre: Record<string, number>;
+  year: Record<string, number>;
+  rating: Record<string, number>;
+  chapters: Record<string, number>;
+}
+
+export interface BrowseSeriesPage {
+  series: BrowseSeriesItem[];
+  total: number;
+  nextPage: number | undefined;
+  // Only returned with the first page
+  facets: BrowseFacets | undefined;
+}
+
+export interface ReadingProgress {
+  id: string;
+  telegram_id: number;
+  series_id: string;
+  chapter_id: string;
+  chapter_number: number;
+  page_number: number;
+  scroll_offset: number;
+  updated_at: string;
+}
+
+export interface LibraryItem {
+  id: string;
+  slug: string;
+  title: string;
+  cover_url: string | null;
+  status: string;
+  type: string;
+  followed_at: string;
+  last_read_chapter_id: string | null;
+  last_read_chapter_number: number | null;
+  last_read_at: string | null;
+  latest_chapter_at: string | null;
+  chapters_count: number;
+  unread_count: number;
+}
+
+// Public REST API (supabase/functions/api). These shapes are the v1 contract
+// and scripts/generate-openapi.mjs builds the OpenAPI document from them.
+
+export interface ApiSeries {
+  id: string;
+  title: string;
+  alternative_titles: string[];
+  description: string | null;
+  cover_url: string | null;
+  // ongoing, completed, hiatus, cancelled or dropped
+  status: string;
+  // manhwa, manga, manhua, ...
+  type: string;
+  // Out of 10
+  rating: number | null;
+  genres: string[];
+  chapters_count: number;
+  latest_chapter_at: string | null;
+  updated_at: string;
+}
+
+export interface ApiChapter {
+  id: string;
+  series_id: string;
+  chapter_number: number;
+  title: string | null;
+  // "images" or "pdf"
+  chapter_type: string;
+  // Set for PDF chapters, which have no pages
+  pdf_url: string | null;
+  page_count: number;
+  created_at: string;
+}
+
+export interface ApiPage {
+  // Zero-based position in the chapter
+  index: number;
+  page_number: number;
+  image_url: string;
+}
+
+export interface ApiChapterPages {
+  chapter: ApiChapter;
+  pages: ApiPage[];
+}
+
+export interface ApiSeriesList {
+  data: ApiSeries[];
+  // Pass as ?cursor= to get the next page; null on the last page
+  next_cursor: string | null;
+}
+
+export interface ApiChapterList {
+  data: ApiChapter[];
+  // Pass as ?cursor= to get the next page; null on the last page
+  next_cursor: string | null;
+}
+
+export interface ApiError {
+  error: string;
+}
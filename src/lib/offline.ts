@@ -0,0 +1,175 @@
+import { pdfjs } from "react-pdf";
+import { dbQuery, Chapter, ChapterPage } from "@/lib/db";
+
+// Must match DOWNLOADS_CACHE in public/sw.js, which serves these entries
+const DOWNLOADS_CACHE = "bntoon-downloads-v1";
+const INDEX_KEY = "offline_chapters";
+
+export interface ChapterData {
+  chapter: Chapter;
+  pages: ChapterPage[];
+}
+
+export interface DownloadedChapter {
+  chapterId: string;
+  seriesId: string;
+  seriesTitle: string | null;
+  chapterNumber: number;
+  chapterTitle: string | null;
+  pageCount: number;
+  // Bytes we could measure; opaque cross-origin responses count as 0
+  bytes: number;
+  urls: string[];
+  downloadedAt: string;
+}
+
+export function isOfflineSupported() {
+  return "caches" in window && "serviceWorker" in navigator;
+}
+
+// Cache key for the get_chapter response of a downloaded chapter
+function chapterDataKey(chapterId: string) {
+  return `${window.location.origin}/offline/chapters/${chapterId}`;
+}
+
+export function getDownloads(): Record<string, DownloadedChapter> {
+  const stored = localStorage.getItem(INDEX_KEY);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(INDEX_KEY);
+    return {};
+  }
+}
+
+function saveDownloads(downloads: Record<string, DownloadedChapter>) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(downloads));
+  // Let mounted useDownloads hooks in this tab refresh
+  window.dispatchEvent(new StorageEvent("storage", { key: INDEX_KEY }));
+}
+
+export function isDownloadsChange(e: StorageEvent) {
+  return e.key === INDEX_KEY;
+}
+
+// Fetch a file and store it under its URL. Hosts without CORS still work for
+// <img> tags through an opaque response, we just can't measure its size.
+async function cacheUrl(cache: Cache, url: string): Promise<number> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: "cors" });
+  } catch {
+    response = await fetch(url, { mode: "no-cors" });
+  }
+
+  if (response.type === "opaque") {
+    await cache.put(url, response);
+    return 0;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}`);
+  }
+
+  // Store the whole body without range headers so the PDF reader doesn't
+  // try partial requests against the cached copy
+  const blob = await response.blob();
+  await cache.put(
+    url,
+    new Response(blob, {
+      headers: { "Content-Type": response.headers.get("Content-Type") || blob.type },
+    })
+  );
+  return blob.size;
+}
+
+function resolveUrl(url: string) {
+  return new URL(url, window.location.href).href;
+}
+
+// Save a chapter's data and every page (or its PDF) for offline reading
+export async function downloadChapter(
+  chapterId: string,
+  seriesTitle: string | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<DownloadedChapter> {
+  const { data, error } = await dbQuery<ChapterData>("get_chapter", { id: chapterId });
+  if (error || !data) throw new Error(error || "Chapter not found");
+
+  const { chapter, pages } = data;
+  const urls =
+    chapter.chapter_type === "pdf" && chapter.pdf_url
+      ? [chapter.pdf_url, pdfjs.GlobalWorkerOptions.workerSrc]
+      : [...pages].sort((a, b) => a.page_number - b.page_number).map((p) => p.image_url);
+  const resolved = urls.map(resolveUrl);
+
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  let bytes = 0;
+  let done = 0;
+  onProgress?.(done, resolved.length);
+
+  try {
+    for (const url of resolved) {
+      bytes += await cacheUrl(cache, url);
+      done += 1;
+      onProgress?.(done, resolved.length);
+    }
+
+    // Only image_url is cached; offline, the reader leaves the variants alone
+    const json = JSON.stringify(data);
+    await cache.put(
+      chapterDataKey(chapterId),
+      new Response(json, { headers: { "Content-Type": "application/json" } })
+    );
+    bytes += json.length;
+  } catch (err) {
+    // Don't leave a half-downloaded chapter behind
+    await Promise.all(resolved.map((url) => cache.delete(url)));
+    throw err;
+  }
+
+  const download: DownloadedChapter = {
+    chapterId,
+    seriesId: chapter.series_id,
+    seriesTitle,
+    chapterNumber: chapter.chapter_number,
+    chapterTitle: chapter.title,
+    pageCount: pages.length,
+    bytes,
+    urls: resolved,
+    downloadedAt: new Date().toISOString(),
+  };
+  saveDownloads({ ...getDownloads(), [chapterId]: download });
+  return download;
+}
+
+// Cached get_chapter response for a downloaded chapter, if any
+export async function getOfflineChapter(chapterId: string): Promise<ChapterData | null> {
+  if (!("caches" in window) || !getDownloads()[chapterId]) return null;
+  const response = await caches.match(chapterDataKey(chapterId), {
+    cacheName: DOWNLOADS_CACHE,
+  });
+  return response ? response.json() : null;
+}
+
+export async function deleteDownload(chapterId: string) {
+  const downloads = getDownloads();
+  const download = downloads[chapterId];
+
+  const cache = await caches.open(DOWNLOADS_CACHE);
+  await cache.delete(chapterDataKey(chapterId));
+  if (download) {
+    // The PDF worker is shared between PDF chapters
+    const stillUsed = new Set(
+      Object.values(downloads)
+        .filter((d) => d.chapterId !== chapterId)
+        .flatMap((d) => d.urls)
+    );
+    await Promise.all(
+      download.urls.filter((url) => !stillUsed.has(url)).map((url) => cache.delete(url))
+    );
+  }
+
+  delete downloads[chapterId];
+  saveDownloads(downloads);
+}
@@ -0,0 +1,74 @@
+import { ImageVariant } from "@/lib/db";
+import type { FitMode } from "@/hooks/useReaderSettings";
+
+export interface PageImageSource {
+  image_url: string;
+  // Set for pages processed on upload
+  width?: number | null;
+  height?: number | null;
+  variants?: ImageVariant[];
+}
+
+// Preferred first; the browser takes the first type it supports
+const SOURCE_FORMATS = [
+  { format: "avif", type: "image/avif" },
+  { format: "webp", type: "image/webp" },
+] as const;
+
+// <source> candidates for a page. Downloads only cache image_url, so without
+// a connection the variants are skipped and image_url is used as is.
+export function sourcesFor(page: PageImageSource) {
+  if (!navigator.onLine) return [];
+  return SOURCE_FORMATS.flatMap(({ format, type }) => {
+    const matching = (page.variants ?? []).filter((variant) => variant.format === format);
+    if (matching.length === 0) return [];
+    return [{ type, srcSet: matching.map((variant) => `${variant.url} ${variant.width}w`).join(", ") }];
+  });
+}
+
+// Aspect ratio known before the image loads, for reserving its space
+export function pageAspectRatio(page: PageImageSource) {
+  return page.width && page.height ? `${page.width} / ${page.height}` : undefined;
+}
+
+// Displayed width of a page in the scrolling reader, for picking a variant;
+// original size uses the full image
+export function scrollPageSizes(page: PageImageSource, fit: FitMode, maxWidth: number) {
+  if (fit === "width") return `(min-width: ${maxWidth}px) ${maxWidth}px, 100vw`;
+  if (fit === "height" && page.width && page.height) {
+    return `min(100vw, calc((100vh - 3rem) * ${page.width / page.height}))`;
+  }
+  return undefined;
+}
+
+// The same for the paged reader, where half is a page in a two-page spread
+export function pagedPageSizes(page: PageImageSource, fit: FitMode, maxWidth: number, half: boolean) {
+  const viewport = half ? "50vw" : "100vw";
+  if (fit === "width") return `(min-width: ${maxWidth * (half ? 2 : 1)}px) ${maxWidth}px, ${viewport}`;
+  if (fit === "height" && page.width && page.height) {
+    return `min(${viewport}, calc((100vh - 4rem) * ${page.width / page.height}))`;
+  }
+  return undefined;
+}
+
+// Loads the same file a PageImage would pick into the browser cache
+export function preloadPageImage(
+  page: PageImageSource,
+  sizes: string | undefined,
+  onLoad?: (img: HTMLImageElement) => void
+) {
+  const picture = document.createElement("picture");
+  if (sizes) {
+    for (const { type, srcSet } of sourcesFor(page)) {
+      const source = document.createElement("source");
+      source.type = type;
+      source.srcset = srcSet;
+      source.sizes = sizes;
+      picture.append(source);
+    }
+  }
+  const img = new Image();
+  img.onload = () => onLoad?.(img);
+  picture.append(img);
+  img.src = page.image_url;
+}
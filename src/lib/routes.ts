@@ -0,0 +1,28 @@
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/feed`;
+
+// Canonical URLs for series and chapters. Chapters are addressed by their
+// number within the series, e.g. /series/solo-leveling/chapter/12.5
+export function seriesPath(slug: string) {
+  return `/series/${slug}`;
+}
+
+export function chapterPath(seriesSlug: string, chapterNumber: number | string) {
+  return `/series/${seriesSlug}/chapter/${Number(chapterNumber)}`;
+}
+
+// Atom feed of a series' new chapters; feed readers can add ?format=rss
+export function seriesFeedUrl(slug: string) {
+  return `${FEED_FUNCTION_URL}/series/${slug}`;
+}
+
+// Matches the slugs the db function generates for series titles
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function slugify(title: string) {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
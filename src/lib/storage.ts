@@ -1,9 +1,35 @@
+import { ImageVariant } from "@/lib/db";
+
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const UPLOAD_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/upload`;
 
+// Top-level folders the admin uploads into; the storage audit scans these and
+// delete_urls only deletes inside them. Must match STORAGE_FOLDERS in
+// supabase/functions/upload/audit.ts
+export const STORAGE_FOLDERS = ["chapters", "covers", "banners"];
+
+// URLs sent per delete_urls request; the upload function accepts up to 500
+const DELETE_BATCH_SIZE = 200;
+
 interface UploadResponse {
   url?: string;
   error?: string;
+  // HTTP status of a rejected upload; absent for network errors
+  status?: number;
+}
+
+// A stored chapter page. Tall strips come back as several of these.
+export interface ProcessedImage {
+  url: string;
+  width: number | null;
+  height: number | null;
+  variants: ImageVariant[];
+}
+
+interface PageUploadResponse extends UploadResponse {
+  images?: ProcessedImage[];
+  // Set when the page was stored as uploaded instead of being processed
+  processing_error?: string;
 }
 
 interface DeleteResponse {
@@ -11,35 +37,71 @@ interface DeleteResponse {
   error?: string;
 }
 
+// Uses XMLHttpRequest rather than fetch so callers can follow upload progress
+function send<T extends UploadResponse>(
+  formData: FormData,
+  path: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<T> {
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", UPLOAD_FUNCTION_URL);
+    xhr.withCredentials = true;
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      const result = xhr.response || {};
+      if (xhr.status < 200 || xhr.status >= 300) {
+        resolve({ error: result.error || "Upload failed", status: xhr.status } as T);
+        return;
+      }
+      resolve(result as T);
+    };
+    xhr.onerror = () => {
+      console.error("Upload error: network failure for", path);
+      resolve({ error: "Network error" } as T);
+    };
+
+    xhr.send(formData);
+  });
+}
+
 export async function uploadFile(
   file: File,
-  path: string
+  path: string,
+  onProgress?: (loaded: number, total: number) => void
 ): Promise<UploadResponse> {
-  try {
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("path", path);
-    formData.append("action", "upload");
-
-    const response = await fetch(UPLOAD_FUNCTION_URL, {
-      method: "POST",
-      credentials: "include",
-      body: formData,
-    });
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("path", path);
+  formData.append("action", "upload");
 
-    const result = await response.json();
+  const { url, error, status } = await send<UploadResponse>(formData, path, onProgress);
+  return error ? { error, status } : { url };
+}
 
-    if (!response.ok) {
-      return { error: result.error || "Upload failed" };
-    }
+// Uploads a chapter page through the upload function's image processing:
+// WebP/AVIF variants at several widths, and tall strips split into segments
+export async function uploadPageImage(
+  file: File,
+  path: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<PageUploadResponse> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("path", path);
+  formData.append("action", "upload_page");
 
-    return { url: result.url };
-  } catch (error) {
-    console.error("Upload error:", error);
-    return {
-      error: error instanceof Error ? error.message : "Network error",
-    };
-  }
+  const { images, error, status, processing_error } = await send<PageUploadResponse>(
+    formData,
+    path,
+    onProgress
+  );
+  if (error || !images?.length) return { error: error || "Upload failed", status };
+  return { url: images[0].url, images, processing_error };
 }
 
 export async function deleteFile(path: string): Promise<DeleteResponse> {
@@ -90,3 +152,99 @@ export function generateChapterPagePath(
 ): string {
   return `chapters/${seriesId}/ch-${chapterNumber}/${pageNumber}.${extension}`;
 }
+
+// Path for a page added or replaced in the page editor. Unlike
+// generateChapterPagePath it never reuses a name, so the CDN can't serve a
+// cached copy of the previous image.
+export function generateEditedPagePath(
+  seriesId: string,
+  chapterNumber: number,
+  extension: string
+): string {
+  return `chapters/${seriesId}/ch-${chapterNumber}/${crypto.randomUUID()}.${extension}`;
+}
+
+// Deletes files by their public URLs in batches handled by the upload
+// function, and returns how many could not be deleted. The function skips
+// URLs that aren't on our CDN or outside STORAGE_FOLDERS (e.g. a pasted
+// external cover).
+export async function deleteFilesByUrl(urls: string[]): Promise<number> {
+  const unique = [...new Set(urls)];
+  let failed = 0;
+
+  for (let start = 0; start < unique.length; start += DELETE_BATCH_SIZE) {
+    const batch = unique.slice(start, start + DELETE_BATCH_SIZE);
+    try {
+      const formData = new FormData();
+      formData.append("action", "delete_urls");
+      formData.append("urls", JSON.stringify(batch));
+
+      const response = await fetch(UPLOAD_FUNCTION_URL, {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error("Delete error:", result.error);
+        failed += batch.length;
+      } else {
+        failed += (result.failed as string[]).length;
+      }
+    } catch (error) {
+      console.error("Delete error:", error);
+      failed += batch.length;
+    }
+  }
+
+  if (failed > 0) console.error(`Could not delete ${failed} of ${unique.length} files from storage`);
+  return failed;
+}
+
+export interface StorageObject {
+  path: string;
+  size: number;
+  last_changed: string;
+}
+
+export interface StorageAuditReport {
+  scanned: number;
+  referenced: number;
+  // Unreferenced but too new to call orphaned; may belong to an unfinished upload
+  recent: number;
+  orphans: StorageObject[];
+  orphan_bytes: number;
+  removed: number;
+}
+
+// Compares the files under STORAGE_FOLDERS with the URLs stored in the
+// database; with remove, deletes the orphans it finds
+export async function auditStorage(
+  remove = false
+): Promise<{ report?: StorageAuditReport; error?: string }> {
+  try {
+    const formData = new FormData();
+    formData.append("action", "audit");
+    if (remove) formData.append("remove", "true");
+
+    const response = await fetch(UPLOAD_FUNCTION_URL, {
+      method: "POST",
+      credentials: "include",
+      body: formData,
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      return { error: result.error || "Storage audit failed" };
+    }
+
+    return { report: result };
+  } catch (error) {
+    console.error("Storage audit error:", error);
+    return {
+      error: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
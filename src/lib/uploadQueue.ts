@@ -0,0 +1,245 @@
+import {
+  uploadPageImage,
+  deleteFilesByUrl,
+  generateChapterPagePath,
+  ProcessedImage,
+} from "@/lib/storage";
+import { ImageVariant } from "@/lib/db";
+
+// Chapter uploads are kept in IndexedDB (page files included) until the
+// chapter row is created, so an interrupted upload can resume after a reload
+const DB_NAME = "bntoon-uploads";
+const STORE = "chapters";
+
+// Pages sent at the same time
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 4;
+// First retry delay; doubles with every attempt
+const RETRY_BASE_MS = 1000;
+
+export interface PendingPage {
+  pageNumber: number;
+  file: File;
+  // Storage path from generateChapterPagePath, stable across retries so a
+  // re-sent page overwrites its earlier copy instead of leaving an orphan
+  path: string;
+  // Set once the page is on the CDN; a sliced strip has several images
+  images: ProcessedImage[] | null;
+}
+
+// A page in create_chapter's shape
+export interface UploadedPage {
+  page_number: number;
+  image_url: string;
+  width: number | null;
+  height: number | null;
+  variants: ImageVariant[];
+}
+
+export interface PendingChapterUpload {
+  id: string;
+  seriesId: string;
+  chapterNumber: number;
+  title: string | null;
+  pages: PendingPage[];
+  createdAt: string;
+}
+
+export type PageStatus = "queued" | "uploading" | "retrying" | "done" | "failed";
+
+export interface PageProgress {
+  status: PageStatus;
+  loaded: number;
+  total: number;
+  attempt: number;
+  error?: string;
+  // Why an uploaded page wasn't converted to WebP/AVIF variants
+  warning?: string;
+}
+
+// Thrown when some pages are still missing after every retry; the upload
+// stays saved so it can be resumed
+export class IncompleteUploadError extends Error {
+  failedPages: number;
+
+  constructor(failedPages: number) {
+    super(`${failedPages} page${failedPages === 1 ? "" : "s"} failed to upload`);
+    this.name = "IncompleteUploadError";
+    this.failedPages = failedPages;
+  }
+}
+
+// ============ INDEXEDDB ============
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function isUploadResumeSupported() {
+  return "indexedDB" in window;
+}
+
+export async function savePendingUpload(upload: PendingChapterUpload) {
+  if (!isUploadResumeSupported()) return;
+  await withStore("readwrite", (store) => store.put(upload));
+}
+
+export async function getPendingUploads(seriesId: string): Promise<PendingChapterUpload[]> {
+  if (!isUploadResumeSupported()) return [];
+  const all = await withStore<PendingChapterUpload[]>("readonly", (store) => store.getAll());
+  return all
+    .filter((upload) => upload.seriesId === seriesId)
+    .sort((a, b) => a.chapterNumber - b.chapterNumber);
+}
+
+export async function removePendingUpload(id: string) {
+  if (!isUploadResumeSupported()) return;
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// ============ QUEUE ============
+
+export function createPendingUpload(
+  seriesId: string,
+  chapterNumber: number,
+  title: string | null,
+  files: File[]
+): PendingChapterUpload {
+  return {
+    id: crypto.randomUUID(),
+    seriesId,
+    chapterNumber,
+    title,
+    pages: files.map((file, index) => ({
+      pageNumber: index + 1,
+      file,
+      path: generateChapterPagePath(
+        seriesId,
+        chapterNumber,
+        index + 1,
+        file.name.split(".").pop() || "jpg"
+      ),
+      images: null,
+    })),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Network errors, rate limiting and server errors are worth another try;
+// anything else (expired session, rejected file) will fail the same way again
+function isRetryable(status?: number) {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Uploads the pages that aren't on the CDN yet, CONCURRENCY at a time, with
+// retries and backoff. Each finished page is saved right away so a reload
+// only re-sends what was missing. Resolves with the pages in create_chapter's
+// shape once all are uploaded; sliced strips are numbered as separate pages.
+export async function uploadPendingPages(
+  upload: PendingChapterUpload,
+  onProgress?: (pageNumber: number, progress: PageProgress) => void
+): Promise<UploadedPage[]> {
+  await savePendingUpload(upload);
+
+  const queue = upload.pages.filter((page) => !page.images);
+  for (const page of upload.pages) {
+    onProgress?.(page.pageNumber, {
+      status: page.images ? "done" : "queued",
+      loaded: page.images ? page.file.size : 0,
+      total: page.file.size,
+      attempt: 0,
+    });
+  }
+
+  let failed = 0;
+  // Serialises IndexedDB writes from concurrent workers
+  let saving = Promise.resolve();
+
+  const uploadPage = async (page: PendingPage) => {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      onProgress?.(page.pageNumber, { status: "uploading", loaded: 0, total: page.file.size, attempt });
+      const { images, error, status, processing_error } = await uploadPageImage(page.file, page.path, (loaded, total) =>
+        onProgress?.(page.pageNumber, { status: "uploading", loaded, total, attempt })
+      );
+
+      if (images) {
+        page.images = images;
+        onProgress?.(page.pageNumber, {
+          status: "done",
+          loaded: page.file.size,
+          total: page.file.size,
+          attempt,
+          warning: processing_error,
+        });
+        saving = saving.then(() => savePendingUpload(upload)).catch(console.error);
+        return;
+      }
+
+      if (attempt === MAX_ATTEMPTS || !isRetryable(status)) {
+        failed++;
+        onProgress?.(page.pageNumber, { status: "failed", loaded: 0, total: page.file.size, attempt, error });
+        return;
+      }
+
+      onProgress?.(page.pageNumber, { status: "retrying", loaded: 0, total: page.file.size, attempt, error });
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  };
+
+  const worker = async () => {
+    for (let page = queue.shift(); page; page = queue.shift()) {
+      await uploadPage(page);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker));
+  await saving;
+
+  if (failed > 0) throw new IncompleteUploadError(failed);
+
+  return upload.pages
+    .flatMap((page) => page.images!)
+    .map((image, index) => ({
+      page_number: index + 1,
+      image_url: image.url,
+      width: image.width,
+      height: image.height,
+      variants: image.variants,
+    }));
+}
+
+// Every stored file of an uploaded image: the main URL and its variants
+export function imageUrls(image: { url: string; variants: ImageVariant[] }) {
+  return [image.url, ...image.variants.map((variant) => variant.url)];
+}
+
+// Deletes the files that already reached the CDN and forgets the upload
+export async function discardPendingUpload(upload: PendingChapterUpload) {
+  const urls = upload.pages.flatMap((page) => page.images ?? []).flatMap(imageUrls);
+  await deleteFilesByUrl(urls);
+  await removePendingUpload(upload.id);
+}
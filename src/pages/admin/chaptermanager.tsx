@@ -2,12 +2,18 @@ import { useEffect, useState } from "react";
 import { useNavigate, useParams, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useSeries, useChapters, useCreateChapter, useDeleteChapter, useUpdateChapter } from "@/hooks/useSeries";
-import { uploadFile, generateFilePath, generateChapterPagePath } from "@/lib/storage";
+import { uploadFile, generateFilePath, deleteFilesByUrl } from "@/lib/storage";
+import { sortPages } from "@/lib/chapterImport";
+import { createPendingUpload, IncompleteUploadError, PendingChapterUpload } from "@/lib/uploadQueue";
+import { useChapterUploads } from "@/hooks/useChapterUploads";
+import { BulkChapterImport } from "@/components/admin/BulkChapterImport";
+import { UploadProgressList } from "@/components/admin/UploadProgressList";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import {
   Dialog,
   DialogContent,
@@ -42,6 +48,8 @@ import {
   Image,
   Calendar,
   Edit,
+  Layers,
+  RotateCw,
 } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
@@ -56,8 +64,10 @@ const ChapterManager = () => {
   const createChapter = useCreateChapter();
   const deleteChapter = useDeleteChapter();
   const updateChapter = useUpdateChapter();
+  const uploads = useChapterUploads(seriesId || "");
 
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [bulkOpen, setBulkOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingChapter, setEditingChapter] = useState<{ id: string; chapter_number: number; title: string | null } | null>(null);
   const [editChapterNumber, setEditChapterNumber] = useState("");
@@ -68,6 +78,8 @@ const ChapterManager = () => {
   const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
+  // The image upload running in the Add Chapter dialog
+  const [currentUpload, setCurrentUpload] = useState<PendingChapterUpload | null>(null);
 
   useEffect(() => {
     if (!authLoading) {
@@ -83,11 +95,14 @@ const ChapterManager = () => {
     setChapterType("images");
     setImageFiles([]);
     setPdfFile(null);
+    setCurrentUpload(null);
   };
 
   const handleImageFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    setImageFiles(files);
+    setCurrentUpload(null);
+    // Pickers return files in arbitrary order; page 2 must come before page 10
+    setImageFiles(sortPages(files));
   };
 
   const handlePdfChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -114,57 +129,79 @@ const ChapterManager = () => {
       return;
     }
 
+    if (chapters?.some((c) => Number(c.chapter_number) === parseFloat(chapterNumber))) {
+      toast.error(`Chapter ${parseFloat(chapterNumber)} already exists`);
+      return;
+    }
+
     setUploading(true);
 
     try {
-      let pdfUrl: string | undefined;
-      let pages: { page_number: number; image_url: string }[] | undefined;
-
       if (chapterType === "pdf" && pdfFile) {
         const path = generateFilePath("chapters", pdfFile.name, seriesId);
         const { url, error } = await uploadFile(pdfFile, path);
         if (error) throw new Error(error);
-        pdfUrl = url;
-      } else if (chapterType === "images" && imageFiles.length > 0) {
-        const chapterNum = parseFloat(chapterNumber);
-        const uploadedPages = await Promise.all(
-          imageFiles.map(async (file, index) => {
-            const ext = file.name.split('.').pop() || 'jpg';
-            const path = generateChapterPagePath(seriesId, chapterNum, index + 1, ext);
-            const { url, error } = await uploadFile(file, path);
-            if (error) throw new Error(error);
-            return {
-              page_number: index + 1,
-              image_url: url!,
-            };
-          })
-        );
-        pages = uploadedPages;
+        try {
+          await createChapter.mutateAsync({
+            series_id: seriesId,
+            chapter_number: parseFloat(chapterNumber),
+            title: chapterTitle.trim() || undefined,
+            chapter_type: "pdf",
+            pdf_url: url,
+          });
+        } catch (error) {
+          // No chapter references the PDF
+          await deleteFilesByUrl([url!]);
+          throw error;
+        }
+      } else {
+        // A retry after a failure keeps the pages that already went through
+        const upload =
+          currentUpload ||
+          createPendingUpload(seriesId, parseFloat(chapterNumber), chapterTitle.trim() || null, imageFiles);
+        setCurrentUpload(upload);
+        await uploads.start({ ...upload, title: chapterTitle.trim() || null });
       }
 
-      await createChapter.mutateAsync({
-        series_id: seriesId,
-        chapter_number: parseFloat(chapterNumber),
-        title: chapterTitle.trim() || undefined,
-        chapter_type: chapterType,
-        pdf_url: pdfUrl,
-        pages,
-      });
-
       toast.success("Chapter uploaded successfully");
       setDialogOpen(false);
       resetForm();
     } catch (error) {
-      toast.error("Failed to upload chapter");
+      if (error instanceof IncompleteUploadError) {
+        toast.error(`${error.message}. Submit again to retry them.`);
+      } else {
+        toast.error("Failed to upload chapter");
+      }
     } finally {
       setUploading(false);
     }
   };
 
+  const handleResume = async (upload: PendingChapterUpload) => {
+    try {
+      await uploads.start(upload);
+      toast.success(`Chapter ${upload.chapterNumber} uploaded successfully`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload chapter");
+    }
+  };
+
+  const handleDiscard = async (upload: PendingChapterUpload) => {
+    try {
+      await uploads.discard(upload);
+      toast.success("Upload discarded");
+    } catch (error) {
+      toast.error("Failed to discard upload");
+    }
+  };
+
   const handleDeleteChapter = async (id: string) => {
     try {
-      await deleteChapter.mutateAsync({ id, seriesId: seriesId! });
+      const { failedFiles } = await deleteChapter.mutateAsync({ id, seriesId: seriesId! });
       toast.success("Chapter deleted successfully");
+      if (failedFiles > 0) {
+        toast.warning(`${failedFiles} files could not be removed from storage; the storage audit will list them`);
+      }
     } catch (error) {
       toast.error("Failed to delete chapter");
     }
@@ -240,119 +277,203 @@ const ChapterManager = () => {
             <p className="text-muted-foreground">Manage chapters</p>
           </div>
 
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="btn-accent">
-                <Plus className="h-4 w-4 mr-1" />
-                Add Chapter
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-lg">
-              <DialogHeader>
-                <DialogTitle>Upload New Chapter</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="chapterNumber">Chapter Number *</Label>
-                    <Input
-                      id="chapterNumber"
-                      type="number"
-                      step="0.1"
-                      value={chapterNumber}
-                      onChange={(e) => setChapterNumber(e.target.value)}
-                      placeholder="1"
-                      required
-                    />
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setBulkOpen(true)}>
+              <Layers className="h-4 w-4 mr-1" />
+              Bulk Upload
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="btn-accent">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Chapter
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>Upload New Chapter</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="chapterNumber">Chapter Number *</Label>
+                      <Input
+                        id="chapterNumber"
+                        type="number"
+                        step="0.1"
+                        value={chapterNumber}
+                        onChange={(e) => {
+                          setChapterNumber(e.target.value);
+                          setCurrentUpload(null);
+                        }}
+                        placeholder="1"
+                        disabled={uploading}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="chapterTitle">Title (optional)</Label>
+                      <Input
+                        id="chapterTitle"
+                        value={chapterTitle}
+                        onChange={(e) => setChapterTitle(e.target.value)}
+                        placeholder="Chapter title"
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="chapterTitle">Title (optional)</Label>
-                    <Input
-                      id="chapterTitle"
-                      value={chapterTitle}
-                      onChange={(e) => setChapterTitle(e.target.value)}
-                      placeholder="Chapter title"
-                    />
+
+                  <Tabs value={chapterType} onValueChange={(v) => setChapterType(v as "images" | "pdf")}>
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="images" className="flex items-center gap-2">
+                        <Image className="h-4 w-4" />
+                        Images
+                      </TabsTrigger>
+                      <TabsTrigger value="pdf" className="flex items-center gap-2">
+                        <FileText className="h-4 w-4" />
+                        PDF
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="images" className="mt-4">
+                      <Label className="cursor-pointer">
+                        <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-muted-foreground transition-colors">
+                          <Upload className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+                          <p className="text-sm text-muted-foreground">
+                            {imageFiles.length > 0
+                              ? `${imageFiles.length} images selected`
+                              : "Click to upload images"}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Pages are ordered by file name
+                          </p>
+                        </div>
+                        <input
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          onChange={handleImageFilesChange}
+                          disabled={uploading}
+                          className="hidden"
+                        />
+                      </Label>
+                      {currentUpload && (
+                        <div className="mt-4">
+                          <UploadProgressList
+                            upload={currentUpload}
+                            progress={uploads.progress[currentUpload.id]}
+                          />
+                        </div>
+                      )}
+                    </TabsContent>
+                    <TabsContent value="pdf" className="mt-4">
+                      <Label className="cursor-pointer">
+                        <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-muted-foreground transition-colors">
+                          <FileText className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+                          <p className="text-sm text-muted-foreground">
+                            {pdfFile ? pdfFile.name : "Click to upload PDF"}
+                          </p>
+                        </div>
+                        <input
+                          type="file"
+                          accept="application/pdf"
+                          onChange={handlePdfChange}
+                          className="hidden"
+                        />
+                      </Label>
+                    </TabsContent>
+                  </Tabs>
+
+                  <div className="flex justify-end gap-3 pt-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => {
+                        setDialogOpen(false);
+                        resetForm();
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button type="submit" className="btn-accent" disabled={uploading}>
+                      {uploading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Uploading...
+                        </>
+                      ) : (
+                        "Upload Chapter"
+                      )}
+                    </Button>
                   </div>
-                </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
 
-                <Tabs value={chapterType} onValueChange={(v) => setChapterType(v as "images" | "pdf")}>
-                  <TabsList className="grid w-full grid-cols-2">
-                    <TabsTrigger value="images" className="flex items-center gap-2">
-                      <Image className="h-4 w-4" />
-                      Images
-                    </TabsTrigger>
-                    <TabsTrigger value="pdf" className="flex items-center gap-2">
-                      <FileText className="h-4 w-4" />
-                      PDF
-                    </TabsTrigger>
-                  </TabsList>
-                  <TabsContent value="images" className="mt-4">
-                    <Label className="cursor-pointer">
-                      <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-muted-foreground transition-colors">
-                        <Upload className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
-                        <p className="text-sm text-muted-foreground">
-                          {imageFiles.length > 0
-                            ? `${imageFiles.length} images selected`
-                            : "Click to upload images"}
-                        </p>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Select multiple images in order
-                        </p>
-                      </div>
-                      <input
-                        type="file"
-                        accept="image/*"
-                        multiple
-                        onChange={handleImageFilesChange}
-                        className="hidden"
-                      />
-                    </Label>
-                  </TabsContent>
-                  <TabsContent value="pdf" className="mt-4">
-                    <Label className="cursor-pointer">
-                      <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-muted-foreground transition-colors">
-                        <FileText className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
-                        <p className="text-sm text-muted-foreground">
-                          {pdfFile ? pdfFile.name : "Click to upload PDF"}
-                        </p>
-                      </div>
-                      <input
-                        type="file"
-                        accept="application/pdf"
-                        onChange={handlePdfChange}
-                        className="hidden"
-                      />
-                    </Label>
-                  </TabsContent>
-                </Tabs>
-
-                <div className="flex justify-end gap-3 pt-4">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => {
-                      setDialogOpen(false);
-                      resetForm();
-                    }}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit" className="btn-accent" disabled={uploading}>
-                    {uploading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Uploading...
-                      </>
-                    ) : (
-                      "Upload Chapter"
-                    )}
-                  </Button>
+        <BulkChapterImport
+          seriesId={series.id}
+          existingNumbers={chapters?.map((c) => Number(c.chapter_number)) ?? []}
+          uploads={uploads}
+          open={bulkOpen}
+          onOpenChange={setBulkOpen}
+        />
+
+        {/* Interrupted Uploads */}
+        {uploads.saved.length > 0 && (
+          <div className="mb-6 space-y-2">
+            <h2 className="text-sm font-semibold text-muted-foreground">Unfinished uploads</h2>
+            {uploads.saved.map((upload) => {
+              const uploaded = upload.pages.filter((page) => page.images).length;
+              const active = uploads.isActive(upload.id);
+              return (
+                <div
+                  key={upload.id}
+                  className="flex items-center justify-between gap-4 p-4 bg-card rounded-lg shadow-card"
+                >
+                  <div className="flex-1 space-y-2">
+                    <p className="font-medium text-foreground">
+                      Chapter {upload.chapterNumber}
+                      {upload.title && `: ${upload.title}`}
+                    </p>
+                    <Progress
+                      value={active ? uploads.percentFor(upload.id) : (uploaded / upload.pages.length) * 100}
+                      className="h-1.5"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {active
+                        ? "Uploading..."
+                        : `${uploaded} of ${upload.pages.length} pages uploaded · started ${format(new Date(upload.createdAt), "MMM d, HH:mm")}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResume(upload)}
+                      disabled={active}
+                    >
+                      {active ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCw className="h-4 w-4 mr-1" />
+                      )}
+                      Resume
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => handleDiscard(upload)}
+                      disabled={active}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
-              </form>
-            </DialogContent>
-          </Dialog>
-        </div>
+              );
+            })}
+          </div>
+        )}
 
         {/* Chapters List */}
         {chaptersLoading ? (
@@ -387,6 +508,13 @@ const ChapterManager = () => {
                   <Badge variant="outline" className="capitalize">
                     {chapter.chapter_type}
                   </Badge>
+                  {chapter.chapter_type === "images" && (
+                    <Link to={`/admin/series/${seriesId}/chapters/${chapter.id}/pages`}>
+                      <Button variant="outline" size="sm" title="Edit pages">
+                        <Image className="h-4 w-4" />
+                      </Button>
+                    </Link>
+                  )}
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -0,0 +1,403 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams, Link } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useSeries, useChapter, useUpdateChapterPages } from "@/hooks/useSeries";
+import {
+  uploadPageImage,
+  deleteFilesByUrl,
+  generateEditedPagePath,
+  ProcessedImage,
+} from "@/lib/storage";
+import { imageUrls } from "@/lib/uploadQueue";
+import { ChapterPage } from "@/lib/db";
+import { sortPages } from "@/lib/chapterImport";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Save,
+  Trash2,
+  Undo2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+// A page in the editor: either saved (id + stored image) or waiting for
+// upload (file). A saved page with a file is being replaced.
+interface EditorPage {
+  key: string;
+  id?: string;
+  saved?: Pick<ChapterPage, "image_url" | "width" | "height" | "variants">;
+  file?: File;
+  preview: string;
+}
+
+// Where the next picked files go: a new page list position or a replacement
+type PickTarget = { kind: "insert"; index: number } | { kind: "replace"; key: string };
+
+const ChapterPages = () => {
+  const { seriesId, chapterId } = useParams<{ seriesId: string; chapterId: string }>();
+  const navigate = useNavigate();
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+
+  const { data: series } = useSeries(seriesId || "");
+  const { data, isLoading } = useChapter(chapterId || "");
+  const updatePages = useUpdateChapterPages();
+
+  const [pages, setPages] = useState<EditorPage[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState<{ done: number; total: number } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const pickTarget = useRef<PickTarget | null>(null);
+  // Object URLs for local previews, revoked when the editor unmounts
+  const previews = useRef<string[]>([]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated || !isAdmin) {
+        navigate("/admin/login");
+      }
+    }
+  }, [authLoading, isAuthenticated, isAdmin, navigate]);
+
+  // Show the saved pages whenever there are no unsaved edits
+  const savedPages = data?.pages;
+  useEffect(() => {
+    if (dirty) return;
+    setPages(
+      (savedPages ?? []).map((page) => ({
+        key: page.id,
+        id: page.id,
+        saved: {
+          image_url: page.image_url,
+          width: page.width,
+          height: page.height,
+          variants: page.variants,
+        },
+        preview: page.image_url,
+      }))
+    );
+  }, [savedPages, dirty]);
+
+  useEffect(() => {
+    const urls = previews.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const change = (next: EditorPage[]) => {
+    setPages(next);
+    setDirty(true);
+  };
+
+  const localPage = (file: File): EditorPage => {
+    const preview = URL.createObjectURL(file);
+    previews.current.push(preview);
+    return { key: preview, file, preview };
+  };
+
+  const pickFiles = (target: PickTarget) => {
+    pickTarget.current = target;
+    if (fileInput.current) {
+      fileInput.current.multiple = target.kind === "insert";
+      fileInput.current.click();
+    }
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = sortPages(Array.from(e.target.files || []));
+    e.target.value = "";
+    const target = pickTarget.current;
+    if (files.length === 0 || !target) return;
+
+    if (target.kind === "insert") {
+      const added = files.map(localPage);
+      change([...pages.slice(0, target.index), ...added, ...pages.slice(target.index)]);
+    } else {
+      const { preview, file } = localPage(files[0]);
+      change(pages.map((page) => (page.key === target.key ? { ...page, file, preview } : page)));
+    }
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= pages.length || from === to) return;
+    const next = [...pages];
+    const [page] = next.splice(from, 1);
+    next.splice(to, 0, page);
+    change(next);
+  };
+
+  const handleDrop = (targetKey: string) => {
+    if (!dragKey) return;
+    move(
+      pages.findIndex((page) => page.key === dragKey),
+      pages.findIndex((page) => page.key === targetKey)
+    );
+    setDragKey(null);
+  };
+
+  const handleSave = async () => {
+    if (!seriesId || !chapterId || !data) return;
+    if (pages.length === 0) {
+      toast.error("A chapter needs at least one page");
+      return;
+    }
+
+    const toUpload = pages.filter((page) => page.file);
+    const uploaded: Record<string, ProcessedImage[]> = {};
+    setSaving({ done: 0, total: toUpload.length });
+
+    try {
+      for (const page of toUpload) {
+        const ext = page.file!.name.split(".").pop() || "jpg";
+        const path = generateEditedPagePath(seriesId, Number(data.chapter.chapter_number), ext);
+        const { images, error, processing_error } = await uploadPageImage(page.file!, path);
+        if (error) throw new Error(error);
+        if (processing_error) {
+          toast.warning(`${page.file!.name} was stored without optimized versions: ${processing_error}`);
+        }
+        uploaded[page.key] = images!;
+        setSaving((prev) => prev && { ...prev, done: prev.done + 1 });
+      }
+
+      // A strip split into segments takes several pages; a replaced page
+      // keeps its id for the first one
+      const { failedFiles } = await updatePages.mutateAsync({
+        chapterId,
+        pages: pages.flatMap((page) =>
+          uploaded[page.key]
+            ? uploaded[page.key].map((image, index) => ({
+                id: index === 0 ? page.id : undefined,
+                image_url: image.url,
+                width: image.width,
+                height: image.height,
+                variants: image.variants,
+              }))
+            : [{ id: page.id, ...page.saved! }]
+        ),
+      });
+      setDirty(false);
+      toast.success("Pages saved");
+      if (failedFiles > 0) {
+        toast.warning(`${failedFiles} old files could not be removed from storage; the storage audit will list them`);
+      }
+    } catch (error) {
+      // Nothing references the new uploads yet
+      await deleteFilesByUrl(Object.values(uploaded).flat().flatMap(imageUrls));
+      toast.error(error instanceof Error ? error.message : "Failed to save pages");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!data?.chapter || data.chapter.chapter_type !== "images") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <h1 className="text-xl font-bold mb-4">
+            {data?.chapter ? "PDF chapters have no pages to edit" : "Chapter not found"}
+          </h1>
+          <Link to={`/admin/series/${seriesId}/chapters`}>
+            <Button>Back to Chapters</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { chapter } = data;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <Link
+          to={`/admin/series/${seriesId}/chapters`}
+          className="inline-flex items-center text-muted-foreground hover:text-foreground mb-6 transition-colors"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Chapters
+        </Link>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="font-display text-2xl md:text-3xl font-bold text-foreground">
+              Chapter {Number(chapter.chapter_number)}
+              {chapter.title && `: ${chapter.title}`}
+            </h1>
+            <p className="text-muted-foreground">
+              {series?.title ? `${series.title} · ` : ""}
+              {pages.length} pages · drag to reorder
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => pickFiles({ kind: "insert", index: pages.length })} disabled={!!saving}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Pages
+            </Button>
+            <Button variant="outline" onClick={() => setDirty(false)} disabled={!dirty || !!saving}>
+              <Undo2 className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+            <Button className="btn-accent" onClick={handleSave} disabled={!dirty || !!saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {saving.done < saving.total ? `Uploading ${saving.done + 1} of ${saving.total}...` : "Saving..."}
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-1" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        <input type="file" accept="image/*" ref={fileInput} onChange={handleFiles} className="hidden" />
+
+        {/* Pages Grid */}
+        {pages.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4">
+            {pages.map((page, index) => (
+              <div
+                key={page.key}
+                draggable={!saving}
+                onDragStart={() => setDragKey(page.key)}
+                onDragEnd={() => setDragKey(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(page.key)}
+                className={`group relative bg-card rounded-lg shadow-card overflow-hidden cursor-grab ${
+                  dragKey === page.key ? "opacity-50" : ""
+                }`}
+              >
+                <img
+                  src={page.preview}
+                  alt={`Page ${index + 1}`}
+                  loading="lazy"
+                  className="aspect-[2/3] w-full object-cover object-top pointer-events-none"
+                />
+                <span className="absolute top-2 left-2 rounded bg-background/90 px-2 py-0.5 text-xs font-semibold">
+                  {index + 1}
+                </span>
+                {page.file && (
+                  <span className="absolute top-2 right-2 rounded bg-primary px-2 py-0.5 text-xs text-primary-foreground">
+                    {page.id ? "Replaced" : "New"}
+                  </span>
+                )}
+                <div className="absolute inset-x-0 bottom-0 flex justify-between gap-1 bg-background/90 p-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0 || !!saving}
+                    aria-label="Move earlier"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => pickFiles({ kind: "insert", index })}
+                    disabled={!!saving}
+                    aria-label="Insert pages before"
+                    title="Insert pages before"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => pickFiles({ kind: "replace", key: page.key })}
+                    disabled={!!saving}
+                    aria-label="Replace page"
+                    title="Replace page"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-destructive"
+                        disabled={!!saving}
+                        aria-label="Delete page"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Page</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Remove page {index + 1}? The image is deleted from storage when you save.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => change(pages.filter((p) => p.key !== page.key))}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === pages.length - 1 || !!saving}
+                    aria-label="Move later"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16 bg-card rounded-xl shadow-card">
+            <p className="text-muted-foreground mb-4">No pages</p>
+            <Button className="btn-accent" onClick={() => pickFiles({ kind: "insert", index: 0 })}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Pages
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChapterPages;
@@ -0,0 +1,375 @@
+import { useEffect, useState } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useCreators, useCreateCreator, useDeleteCreator, useUpdateCreator } from "@/hooks/useCreators";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  BookOpen,
+  Plus,
+  Trash2,
+  LogOut,
+  Home,
+  ArrowLeft,
+  Users,
+  Edit,
+} from "lucide-react";
+import { toast } from "sonner";
+
+const CreatorManager = () => {
+  const { user, loading: authLoading, signOut, isAuthenticated, isAdmin } = useAuth();
+  const { data: creators, isLoading: creatorsLoading } = useCreators();
+  const createCreator = useCreateCreator();
+  const deleteCreator = useDeleteCreator();
+  const updateCreator = useUpdateCreator();
+  const navigate = useNavigate();
+
+  const [newCreatorName, setNewCreatorName] = useState("");
+  const [newCreatorBio, setNewCreatorBio] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingCreator, setEditingCreator] = useState<{ id: string; name: string; bio: string | null } | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editBio, setEditBio] = useState("");
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        navigate("/admin/login");
+      } else if (!isAdmin) {
+        navigate("/admin/login");
+      }
+    }
+  }, [authLoading, isAuthenticated, isAdmin, navigate]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    toast.success("Signed out successfully");
+    navigate("/admin/login");
+  };
+
+  const handleCreate = async () => {
+    const trimmedName = newCreatorName.trim();
+    if (!trimmedName) {
+      toast.error("Creator name cannot be empty");
+      return;
+    }
+
+    if (trimmedName.length > 100) {
+      toast.error("Creator name must be less than 100 characters");
+      return;
+    }
+
+    try {
+      await createCreator.mutateAsync({ name: trimmedName, bio: newCreatorBio.trim() });
+      toast.success(`Creator "${trimmedName}" created`);
+      setNewCreatorName("");
+      setNewCreatorBio("");
+      setIsCreateOpen(false);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("duplicate")) {
+        toast.error("A creator with this name already exists");
+      } else {
+        toast.error("Failed to create creator");
+      }
+    }
+  };
+
+  const handleEdit = async () => {
+    if (!editingCreator) return;
+    
+    const trimmedName = editName.trim();
+    if (!trimmedName) {
+      toast.error("Creator name cannot be empty");
+      return;
+    }
+
+    if (trimmedName.length > 100) {
+      toast.error("Creator name must be less than 100 characters");
+      return;
+    }
+
+    try {
+      await updateCreator.mutateAsync({ id: editingCreator.id, name: trimmedName, bio: editBio.trim() });
+      toast.success(`Creator "${trimmedName}" updated`);
+      setEditingCreator(null);
+      setEditName("");
+      setEditBio("");
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("duplicate")) {
+        toast.error("A creator with this name already exists");
+      } else {
+        toast.error("Failed to update creator");
+      }
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    try {
+      await deleteCreator.mutateAsync(id);
+      toast.success(`Creator "${name}" deleted`);
+    } catch (error) {
+      toast.error("Failed to delete creator");
+    }
+  };
+
+  const openEditDialog = (creator: { id: string; name: string; bio: string | null }) => {
+    setEditingCreator(creator);
+    setEditName(creator.name);
+    setEditBio(creator.bio || "");
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border bg-card">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <BookOpen className="h-5 w-5" />
+              </div>
+              <div>
+                <span className="font-display text-lg font-bold text-foreground">
+                  BnToon Admin
+                </span>
+                <p className="text-xs text-muted-foreground">{user?.email}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Link to="/">
+                <Button variant="ghost" size="sm">
+                  <Home className="h-4 w-4 mr-1" />
+                  View Site
+                </Button>
+              </Link>
+              <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign Out
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        {/* Back Link */}
+        <Link
+          to="/admin"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6 transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Dashboard
+        </Link>
+
+        {/* Creator Management Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-accent/20 text-accent">
+              <Users className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="font-display text-2xl font-bold text-foreground">
+                Creator Management
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {creators?.length || 0} creators total
+              </p>
+            </div>
+          </div>
+
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button className="btn-accent">
+                <Plus className="h-4 w-4 mr-1" />
+                New Creator
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Creator</DialogTitle>
+                <DialogDescription>
+                  Add an author, artist or publisher that series can be credited to.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="py-4 space-y-3">
+                <Input
+                  placeholder="Name (e.g., Chugong, D&C Media)"
+                  value={newCreatorName}
+                  onChange={(e) => setNewCreatorName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                  maxLength={100}
+                />
+                <Textarea
+                  placeholder="Short bio (optional)"
+                  value={newCreatorBio}
+                  onChange={(e) => setNewCreatorBio(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={createCreator.isPending}>
+                  {createCreator.isPending ? "Creating..." : "Add Creator"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Edit Dialog */}
+        <Dialog open={!!editingCreator} onOpenChange={(open) => !open && setEditingCreator(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Creator</DialogTitle>
+              <DialogDescription>
+                Update the creator's name and bio.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4 space-y-3">
+              <Input
+                placeholder="Name"
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleEdit()}
+                maxLength={100}
+              />
+              <Textarea
+                placeholder="Short bio (optional)"
+                value={editBio}
+                onChange={(e) => setEditBio(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingCreator(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleEdit} disabled={updateCreator.isPending}>
+                {updateCreator.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Creators List */}
+        {creatorsLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {[...Array(8)].map((_, i) => (
+              <Skeleton key={i} className="h-20 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : creators && creators.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {creators.map((creator) => (
+              <div
+                key={creator.id}
+                className="group relative bg-card rounded-xl shadow-card p-4 hover:shadow-lg transition-all duration-300 border border-border/50 hover:border-primary/30"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-foreground truncate">
+                      {creator.name}
+                    </h3>
+                    <Link
+                      to={`/creator/${creator.slug}`}
+                      className="text-xs text-muted-foreground hover:text-primary mt-1 inline-block"
+                    >
+                      /creator/{creator.slug}
+                    </Link>
+                  </div>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => openEditDialog(creator)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Creator</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{creator.name}"? This will remove them from the credits of all series.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDelete(creator.id, creator.name)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16 bg-card rounded-xl shadow-card">
+            <Users className="mx-auto h-12 w-12 text-muted-foreground/40 mb-4" />
+            <p className="text-muted-foreground mb-4">No creators yet</p>
+            <Button className="btn-accent" onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Your First Creator
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CreatorManager;
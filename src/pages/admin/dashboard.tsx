@@ -4,7 +4,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useAllSeries, useDeleteSeries } from "@/hooks/useSeries";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { BookOpen, Plus, Tag } from "lucide-react";
+import { BookOpen, HardDrive, Plus, Tag, Users } from "lucide-react";
 import { toast } from "sonner";
 import { AdminHeader } from "@/components/admin/AdminHeader";
 import { StatsGrid } from "@/components/admin/StatsGrid";
@@ -32,8 +32,11 @@ const AdminDashboard = () => {
 
   const handleDelete = async (id: string, title: string) => {
     try {
-      await deleteSeries.mutateAsync(id);
+      const failedFiles = await deleteSeries.mutateAsync(id);
       toast.success(`"${title}" deleted successfully`);
+      if (failedFiles > 0) {
+        toast.warning(`${failedFiles} files could not be removed from storage; the storage audit will list them`);
+      }
     } catch (error) {
       toast.error("Failed to delete series");
     }
@@ -77,6 +80,18 @@ const AdminDashboard = () => {
               Manage Genres
             </Button>
           </Link>
+          <Link to="/admin/creators">
+            <Button variant="outline" size="sm" className="gap-2">
+              <Users className="h-4 w-4" />
+              Manage Creators
+            </Button>
+          </Link>
+          <Link to="/admin/storage">
+            <Button variant="outline" size="sm" className="gap-2">
+              <HardDrive className="h-4 w-4" />
+              Storage Audit
+            </Button>
+          </Link>
         </div>
 
         {/* Series Management */}
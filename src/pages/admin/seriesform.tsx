@@ -3,7 +3,12 @@ import { useNavigate, useParams, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useSeries, useCreateSeries, useUpdateSeries } from "@/hooks/useSeries";
 import { useGenres, useSeriesGenres, useUpdateSeriesGenres } from "@/hooks/useGenres";
-import { uploadFile, generateFilePath } from "@/lib/storage";
+import { useSeriesCreators, useUpdateSeriesCreators } from "@/hooks/useCreators";
+import { CreatorPicker, CreatorLink } from "@/components/admin/CreatorPicker";
+import { useSeriesRelations, useUpdateSeriesRelations } from "@/hooks/useSeriesRelations";
+import { RelationPicker, RelationLink } from "@/components/admin/RelationPicker";
+import { uploadFile, generateFilePath, deleteFilesByUrl } from "@/lib/storage";
+import { SLUG_PATTERN, slugify } from "@/lib/routes";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -16,7 +21,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { ArrowLeft, Loader2, Upload, Tag, Star, Sparkles, Image, Plus, X } from "lucide-react";
+import { ArrowLeft, Loader2, Upload, Tag, Star, Sparkles, Image, Plus, X, Download, Calendar, Users, Link2, Globe, BellOff } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 
@@ -32,18 +37,29 @@ const SeriesForm = () => {
   const createSeries = useCreateSeries();
   const updateSeries = useUpdateSeries();
   const updateSeriesGenres = useUpdateSeriesGenres();
+  const { data: seriesCreators } = useSeriesCreators(id || "");
+  const updateSeriesCreators = useUpdateSeriesCreators();
+  const { data: seriesRelations } = useSeriesRelations(id || "");
+  const updateSeriesRelations = useUpdateSeriesRelations();
 
   const [title, setTitle] = useState("");
+  // Left empty, the slug follows the title and the server makes it unique
+  const [slug, setSlug] = useState("");
   const [alternativeTitles, setAlternativeTitles] = useState<string[]>([]);
   const [newAltTitle, setNewAltTitle] = useState("");
   const [description, setDescription] = useState("");
   const [status, setStatus] = useState("ongoing");
   const [type, setType] = useState("manhwa");
   const [rating, setRating] = useState<string>("");
+  const [releaseYear, setReleaseYear] = useState<string>("");
   const [isFeatured, setIsFeatured] = useState(false);
+  const [downloadsEnabled, setDownloadsEnabled] = useState(true);
+  const [notificationsMuted, setNotificationsMuted] = useState(false);
   const [coverUrl, setCoverUrl] = useState("");
   const [bannerUrl, setBannerUrl] = useState("");
   const [selectedGenreIds, setSelectedGenreIds] = useState<string[]>([]);
+  const [creatorLinks, setCreatorLinks] = useState<CreatorLink[]>([]);
+  const [relationLinks, setRelationLinks] = useState<RelationLink[]>([]);
   const [uploading, setUploading] = useState(false);
   const [uploadingBanner, setUploadingBanner] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -59,12 +75,16 @@ const SeriesForm = () => {
   useEffect(() => {
     if (existingSeries) {
       setTitle(existingSeries.title);
+      setSlug(existingSeries.slug);
       setAlternativeTitles((existingSeries as any).alternative_titles || []);
       setDescription(existingSeries.description || "");
       setStatus(existingSeries.status);
       setType(existingSeries.type || "manhwa");
       setRating(existingSeries.rating !== null ? String(existingSeries.rating) : "");
+      setReleaseYear(existingSeries.release_year != null ? String(existingSeries.release_year) : "");
       setIsFeatured(existingSeries.is_featured || false);
+      setDownloadsEnabled(existingSeries.downloads_enabled ?? true);
+      setNotificationsMuted(existingSeries.notifications_muted ?? false);
       setCoverUrl(existingSeries.cover_url || "");
       setBannerUrl((existingSeries as any).banner_url || "");
     }
@@ -76,6 +96,28 @@ const SeriesForm = () => {
     }
   }, [seriesGenres]);
 
+  useEffect(() => {
+    if (seriesCreators) {
+      setCreatorLinks(seriesCreators.map((c) => ({ creator_id: c.id, role: c.role })));
+    }
+  }, [seriesCreators]);
+
+  useEffect(() => {
+    if (seriesRelations) {
+      setRelationLinks(
+        seriesRelations
+          .filter((rel) => rel.direct)
+          .map((rel) => ({ related_series_id: rel.id, relation_type: rel.relation_type }))
+      );
+    }
+  }, [seriesRelations]);
+
+  // A cover or banner uploaded here but replaced before saving is never
+  // referenced, so it is removed right away
+  const discardUnsaved = (url: string, savedUrl: string | null | undefined) => {
+    if (url && url !== savedUrl) deleteFilesByUrl([url]);
+  };
+
   const handleCoverUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -87,6 +129,7 @@ const SeriesForm = () => {
 
       if (error) throw new Error(error);
 
+      discardUnsaved(coverUrl, existingSeries?.cover_url);
       setCoverUrl(url!);
       toast.success("Cover uploaded successfully");
     } catch (error) {
@@ -107,6 +150,7 @@ const SeriesForm = () => {
 
       if (error) throw new Error(error);
 
+      discardUnsaved(bannerUrl, existingSeries?.banner_url);
       setBannerUrl(url!);
       toast.success("Banner uploaded successfully");
     } catch (error) {
@@ -142,35 +186,56 @@ const SeriesForm = () => {
       toast.error("Title is required");
       return;
     }
+    const slugValue = slug.trim();
+    if (slugValue && !SLUG_PATTERN.test(slugValue)) {
+      toast.error("Slug may only contain lowercase letters, numbers and single hyphens");
+      return;
+    }
 
     setSaving(true);
     try {
       let seriesId = id;
       const ratingValue = rating.trim() === "" ? null : parseFloat(rating);
+      const releaseYearValue = releaseYear.trim() === "" ? null : parseInt(releaseYear, 10);
       
       if (isEditing) {
         await updateSeries.mutateAsync({
           id: id!,
           title: title.trim(),
+          slug: slugValue || undefined,
           alternative_titles: alternativeTitles,
           description: description.trim() || undefined,
           status,
           type,
           rating: ratingValue,
+          release_year: releaseYearValue,
           is_featured: isFeatured,
+          downloads_enabled: downloadsEnabled,
+          notifications_muted: notificationsMuted,
           cover_url: coverUrl || undefined,
           banner_url: bannerUrl || undefined,
         });
+        // The images these replaced aren't referenced anymore
+        await deleteFilesByUrl(
+          [
+            coverUrl && coverUrl !== existingSeries?.cover_url ? existingSeries?.cover_url : null,
+            bannerUrl && bannerUrl !== existingSeries?.banner_url ? existingSeries?.banner_url : null,
+          ].filter((url): url is string => !!url)
+        );
         toast.success("Series updated successfully");
       } else {
         const newSeries = await createSeries.mutateAsync({
           title: title.trim(),
+          slug: slugValue || undefined,
           alternative_titles: alternativeTitles,
           description: description.trim() || undefined,
           status,
           type,
           rating: ratingValue,
+          release_year: releaseYearValue,
           is_featured: isFeatured,
+          downloads_enabled: downloadsEnabled,
+          notifications_muted: notificationsMuted,
           cover_url: coverUrl || undefined,
           banner_url: bannerUrl || undefined,
         });
@@ -178,12 +243,20 @@ const SeriesForm = () => {
         toast.success("Series created successfully");
       }
 
-      // Update genres
+      // Update genres, creators and relations
       if (seriesId) {
         await updateSeriesGenres.mutateAsync({
           seriesId,
           genreIds: selectedGenreIds,
         });
+        await updateSeriesCreators.mutateAsync({
+          seriesId,
+          creators: creatorLinks,
+        });
+        await updateSeriesRelations.mutateAsync({
+          seriesId,
+          relations: relationLinks,
+        });
       }
 
       navigate("/admin");
@@ -275,6 +348,24 @@ const SeriesForm = () => {
             />
           </div>
 
+          {/* Slug */}
+          <div className="space-y-2">
+            <Label htmlFor="slug" className="flex items-center gap-2">
+              <Globe className="h-4 w-4" />
+              URL Slug
+            </Label>
+            <Input
+              id="slug"
+              value={slug}
+              onChange={(e) => setSlug(e.target.value.toLowerCase())}
+              placeholder={slugify(title) || "generated-from-title"}
+            />
+            <p className="text-xs text-muted-foreground">
+              /series/{slug.trim() || slugify(title) || "…"}
+              {isEditing && " · links using the previous slug keep redirecting here"}
+            </p>
+          </div>
+
           {/* Alternative Titles */}
           <div className="space-y-2">
             <Label>Alternative Titles</Label>
@@ -373,6 +464,46 @@ const SeriesForm = () => {
             </Select>
           </div>
 
+          {/* Downloads Toggle */}
+          <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+            <div className="flex items-center gap-3">
+              <Download className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <Label htmlFor="downloads" className="text-base font-medium cursor-pointer">
+                  Allow Downloads
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Let readers export chapters as CBZ or PDF
+                </p>
+              </div>
+            </div>
+            <Checkbox
+              id="downloads"
+              checked={downloadsEnabled}
+              onCheckedChange={(checked) => setDownloadsEnabled(checked === true)}
+            />
+          </div>
+
+          {/* Telegram Mute Toggle */}
+          <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+            <div className="flex items-center gap-3">
+              <BellOff className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <Label htmlFor="muted" className="text-base font-medium cursor-pointer">
+                  Mute Telegram Announcements
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Don't post new chapters to the channel or message followers
+                </p>
+              </div>
+            </div>
+            <Checkbox
+              id="muted"
+              checked={notificationsMuted}
+              onCheckedChange={(checked) => setNotificationsMuted(checked === true)}
+            />
+          </div>
+
           {/* Featured Toggle */}
           <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
             <div className="flex items-center gap-3">
@@ -466,6 +597,25 @@ const SeriesForm = () => {
             </div>
           </div>
 
+          {/* Release Year */}
+          <div className="space-y-2">
+            <Label htmlFor="releaseYear" className="flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              Release Year (Optional)
+            </Label>
+            <Input
+              id="releaseYear"
+              type="number"
+              min="1900"
+              max="2100"
+              step="1"
+              value={releaseYear}
+              onChange={(e) => setReleaseYear(e.target.value)}
+              placeholder="e.g. 2018"
+              className="w-28"
+            />
+          </div>
+
           {/* Genres */}
           <div className="space-y-2">
             <Label className="flex items-center gap-2">
@@ -491,6 +641,29 @@ const SeriesForm = () => {
             </div>
           </div>
 
+          {/* Creators */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Creators
+            </Label>
+            <CreatorPicker value={creatorLinks} onChange={setCreatorLinks} />
+          </div>
+
+          {/* Related Series */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Link2 className="h-4 w-4" />
+              Related Series
+            </Label>
+            <RelationPicker
+              seriesId={id}
+              value={relationLinks}
+              onChange={setRelationLinks}
+              inverse={seriesRelations?.filter((rel) => !rel.direct)}
+            />
+          </div>
+
           {/* Submit */}
           <div className="flex justify-end gap-3 pt-4">
             <Link to="/admin">
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { auditStorage, StorageAuditReport } from "@/lib/storage";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, HardDrive, Loader2, Search, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const StorageAudit = () => {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+
+  const [report, setReport] = useState<StorageAuditReport | null>(null);
+  const [running, setRunning] = useState<"scan" | "remove" | null>(null);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated || !isAdmin) {
+        navigate("/admin/login");
+      }
+    }
+  }, [authLoading, isAuthenticated, isAdmin, navigate]);
+
+  const runAudit = async (remove: boolean) => {
+    setRunning(remove ? "remove" : "scan");
+    try {
+      const { report: result, error } = await auditStorage(remove);
+      if (error || !result) {
+        toast.error(error || "Storage audit failed");
+        return;
+      }
+
+      if (remove) {
+        toast.success(`Deleted ${result.removed} of ${result.orphans.length} orphaned files`);
+        // Show what is left rather than the list that was just removed
+        setReport({
+          ...result,
+          orphans: [],
+          orphan_bytes: 0,
+        });
+        if (result.removed < result.orphans.length) {
+          toast.error("Some files could not be deleted; run the audit again to see them");
+        }
+      } else {
+        setReport(result);
+      }
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  const stats = report
+    ? [
+        { label: "Files scanned", value: report.scanned },
+        { label: "In use", value: report.referenced },
+        { label: "Recent, not yet used", value: report.recent },
+        { label: "Orphaned", value: `${report.orphans.length} · ${formatBytes(report.orphan_bytes)}` },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <Link
+          to="/admin"
+          className="inline-flex items-center text-muted-foreground hover:text-foreground mb-6 transition-colors"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Link>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-accent/20 text-accent">
+              <HardDrive className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="font-display text-2xl md:text-3xl font-bold text-foreground">
+                Storage Audit
+              </h1>
+              <p className="text-muted-foreground">
+                Finds files in chapters/, covers/ and banners/ that no series or chapter uses
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => runAudit(false)} disabled={!!running}>
+              {running === "scan" ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Search className="h-4 w-4 mr-1" />
+              )}
+              {running === "scan" ? "Scanning..." : "Run Audit"}
+            </Button>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={!!running || !report?.orphans.length}>
+                  {running === "remove" ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-1" />
+                  )}
+                  {running === "remove" ? "Deleting..." : "Delete Orphans"}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete orphaned files?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The audit runs again and permanently deletes every file that is still
+                    unused. Files uploaded in the last few days are kept, since they may
+                    belong to an unfinished chapter upload.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => runAudit(true)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        {!report ? (
+          <div className="text-center py-16 bg-card rounded-xl border border-border">
+            <HardDrive className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {running ? "Listing storage, this can take a while..." : "Run an audit to check storage for unused files"}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+              {stats.map((stat) => (
+                <div key={stat.label} className="bg-card rounded-xl border border-border p-4">
+                  <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  <p className="font-display text-xl font-bold text-foreground">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.orphans.length === 0 ? (
+              <div className="text-center py-12 bg-card rounded-xl border border-border">
+                <p className="text-muted-foreground">No orphaned files</p>
+              </div>
+            ) : (
+              <div className="bg-card rounded-xl border border-border divide-y divide-border">
+                {report.orphans.map((orphan) => (
+                  <div key={orphan.path} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                    <span className="truncate font-mono" title={orphan.path}>
+                      {orphan.path}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {formatBytes(orphan.size)} ·{" "}
+                      {formatDistanceToNow(new Date(orphan.last_changed), { addSuffix: true })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StorageAudit;
@@ -1,24 +1,66 @@
 import { Layout } from "@/components/layout/Layout";
 import { BrowseCard } from "@/components/browse/BrowseCard";
+import { FacetSelect } from "@/components/browse/FacetSelect";
 import { useBrowseSeries } from "@/hooks/useBrowseSeries";
+import { useBrowseFilters, BrowseSort, RATING_STEPS, CHAPTER_RANGES } from "@/hooks/useBrowseFilters";
 import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import { useGenres } from "@/hooks/useGenres";
+import { genreStateOf } from "@/hooks/useGenreFilter";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { BackToTop } from "@/components/ui/back-to-top";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { BookOpen, X, Filter, Loader2 } from "lucide-react";
-import { useState, useEffect, useMemo } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useMemo } from "react";
 import { MiniBannerAd } from "@/components/ads/AdBanner";
 
+const STATUS_OPTIONS = [
+  { value: "ongoing", label: "Ongoing" },
+  { value: "completed", label: "Completed" },
+  { value: "hiatus", label: "Hiatus" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "dropped", label: "Dropped" },
+];
+
+const TYPE_OPTIONS = [
+  { value: "manga", label: "Manga" },
+  { value: "manhwa", label: "Manhwa" },
+  { value: "manhua", label: "Manhua" },
+];
+
+const RATING_OPTIONS = RATING_STEPS.map((step) => ({ value: String(step), label: `${step}+ ★` }));
+
+const CHAPTER_OPTIONS = CHAPTER_RANGES.map((range) => {
+  const [min, max] = range.split("-");
+  return { value: range, label: max ? `${min}-${max} chapters` : `${min}+ chapters` };
+});
+
+const SORT_OPTIONS: { value: BrowseSort; label: string }[] = [
+  { value: "latest", label: "Latest Update" },
+  { value: "newest", label: "Newly Added" },
+  { value: "title", label: "Title A-Z" },
+  { value: "rating", label: "Highest Rated" },
+  { value: "views", label: "Most Viewed" },
+  { value: "chapters", label: "Most Chapters" },
+];
+
 const Browse = () => {
-  const { data, isLoading: seriesLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useBrowseSeries();
+  const { filters, ready, setFilters, toggleGenre, removeGenre, clear: clearFilters, activeCount } =
+    useBrowseFilters();
+  const genreFilter = filters.genres;
 
-  const { data: genres, isLoading: genresLoading } = useGenres();
+  const { data, isLoading: seriesLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useBrowseSeries(
+    filters,
+    ready
+  );
 
-  const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
-  const [seriesGenresMap, setSeriesGenresMap] = useState<Record<string, string[]>>({});
-  const [loadingGenreMap, setLoadingGenreMap] = useState(true);
+  const { data: genres, isLoading: genresLoading } = useGenres();
 
   const { loadMoreRef } = useInfiniteScroll({
     hasNextPage: hasNextPage ?? false,
@@ -28,44 +70,18 @@ const Browse = () => {
 
   /* Flatten paginated series */
   const allSeries = useMemo(() => data?.pages.flatMap((page) => page.series) ?? [], [data]);
+  const total = data?.pages[0]?.total ?? 0;
+  const facets = data?.pages[0]?.facets;
 
-  /* Fetch series-genre relations */
-  useEffect(() => {
-    const fetchSeriesGenres = async () => {
-      const { data, error } = await supabase.from("series_genres").select("series_id, genre_id");
-
-      if (!error && data) {
-        const map: Record<string, string[]> = {};
-        data.forEach((sg) => {
-          if (!map[sg.series_id]) map[sg.series_id] = [];
-          map[sg.series_id].push(sg.genre_id);
-        });
-        setSeriesGenresMap(map);
-      }
-
-      setLoadingGenreMap(false);
-    };
-
-    fetchSeriesGenres();
-  }, []);
-
-  /* Genre controls */
-  const toggleGenre = (genreId: string) => {
-    setSelectedGenres((prev) => (prev.includes(genreId) ? prev.filter((id) => id !== genreId) : [...prev, genreId]));
-  };
-
-  const clearFilters = () => setSelectedGenres([]);
+  // Years come from the facet counts, plus the selected one in case it has no matches
+  const yearOptions = useMemo(() => {
+    const years = new Set(Object.keys(facets?.year ?? {}));
+    if (filters.year !== null) years.add(String(filters.year));
+    return [...years].sort((a, b) => Number(b) - Number(a)).map((year) => ({ value: year, label: year }));
+  }, [facets, filters.year]);
 
-  /* Filtering logic */
-  const filteredSeries = useMemo(() => {
-    return allSeries.filter((s) => {
-      if (selectedGenres.length === 0) return true;
-      return selectedGenres.every((gid) => seriesGenresMap[s.id]?.includes(gid));
-    });
-  }, [allSeries, selectedGenres, seriesGenresMap]);
-
-  const isLoading = seriesLoading || genresLoading || loadingGenreMap;
-  const hasActiveFilters = selectedGenres.length > 0;
+  const isLoading = !ready || seriesLoading || genresLoading;
+  const hasActiveFilters = activeCount > 0;
 
   return (
     <Layout>
@@ -81,55 +97,136 @@ const Browse = () => {
           <MiniBannerAd />
         </div>
 
-        {/* Genre Filters */}
-        {!genresLoading && genres?.length > 0 && (
-          <div className="mb-8 space-y-3">
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Filter className="h-4 w-4" />
-              <span>Filter by genre:</span>
-            </div>
+        {/* Filters */}
+        <div className="mb-8 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <FacetSelect
+              value={filters.status}
+              onChange={(status) => setFilters({ status })}
+              allLabel="All Status"
+              options={STATUS_OPTIONS}
+              counts={facets?.status}
+            />
+            <FacetSelect
+              value={filters.type}
+              onChange={(type) => setFilters({ type })}
+              allLabel="All Types"
+              options={TYPE_OPTIONS}
+              counts={facets?.type}
+            />
+            <FacetSelect
+              value={filters.year !== null ? String(filters.year) : null}
+              onChange={(year) => setFilters({ year: year !== null ? Number(year) : null })}
+              allLabel="Any Year"
+              options={yearOptions}
+              counts={facets?.year}
+            />
+            <FacetSelect
+              value={filters.minRating !== null ? String(filters.minRating) : null}
+              onChange={(rating) => setFilters({ minRating: rating !== null ? Number(rating) : null })}
+              allLabel="Any Rating"
+              options={RATING_OPTIONS}
+              counts={facets?.rating}
+            />
+            <FacetSelect
+              value={filters.chapters}
+              onChange={(chapters) => setFilters({ chapters })}
+              allLabel="Any Length"
+              options={CHAPTER_OPTIONS}
+              counts={facets?.chapters}
+            />
+            <Select value={filters.sort} onValueChange={(sort) => setFilters({ sort: sort as BrowseSort })}>
+              <SelectTrigger className="w-40 h-9">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-            <div className="flex flex-wrap gap-2">
-              {genres.map((genre) => (
-                <button
-                  key={genre.id}
-                  onClick={() => toggleGenre(genre.id)}
-                  className={`px-3 py-1.5 rounded-full text-sm font-medium transition
-                    ${
-                      selectedGenres.includes(genre.id)
-                        ? "bg-accent text-accent-foreground"
-                        : "bg-secondary hover:bg-secondary/80"
-                    }`}
-                >
-                  {genre.name}
-                </button>
-              ))}
-            </div>
+          {!genresLoading && genres?.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <Filter className="h-4 w-4" />
+                <span>Filter by genre (click again to exclude):</span>
+                <div className="flex rounded-full bg-secondary p-0.5 text-xs">
+                  {(["all", "any"] as const).map((match) => (
+                    <button
+                      key={match}
+                      onClick={() => setFilters({ genres: { ...genreFilter, match } })}
+                      className={`px-2.5 py-1 rounded-full transition ${
+                        genreFilter.match === match ? "bg-accent text-accent-foreground" : "hover:text-foreground"
+                      }`}
+                    >
+                      Match {match}
+                    </button>
+                  ))}
+                </div>
+              </div>
 
-            {hasActiveFilters && (
-              <div className="flex flex-wrap items-center gap-2 pt-2">
-                {selectedGenres.map((gid) => {
-                  const genre = genres.find((g) => g.id === gid);
+              <div className="flex flex-wrap gap-2">
+                {genres.map((genre) => {
+                  const state = genreStateOf(genreFilter, genre.id);
                   return (
-                    genre && (
-                      <Badge key={gid} variant="outline" className="gap-1">
-                        {genre.name}
-                        <button onClick={() => toggleGenre(gid)}>
-                          <X className="h-3 w-3" />
-                        </button>
-                      </Badge>
-                    )
+                    <button
+                      key={genre.id}
+                      onClick={() => toggleGenre(genre.id)}
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium transition
+                        ${
+                          state === "include"
+                            ? "bg-accent text-accent-foreground"
+                            : state === "exclude"
+                              ? "bg-destructive/15 text-destructive line-through"
+                              : "bg-secondary hover:bg-secondary/80"
+                        }`}
+                    >
+                      {genre.name}
+                      {facets && <span className="ml-1 opacity-60">{facets.genre[genre.id] ?? 0}</span>}
+                    </button>
                   );
                 })}
-                <button onClick={clearFilters} className="text-sm underline text-muted-foreground">
-                  Clear all
-                </button>
               </div>
-            )}
-          </div>
-        )}
+            </>
+          )}
+
+          {hasActiveFilters && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              {[...genreFilter.include, ...genreFilter.exclude].map((gid) => {
+                const genre = genres?.find((g) => g.id === gid);
+                const excluded = genreFilter.exclude.includes(gid);
+                return (
+                  genre && (
+                    <Badge
+                      key={gid}
+                      variant="outline"
+                      className={`gap-1 ${excluded ? "border-destructive/50 text-destructive" : ""}`}
+                    >
+                      {excluded ? `Not ${genre.name}` : genre.name}
+                      <button onClick={() => removeGenre(gid)}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  )
+                );
+              })}
+              <button onClick={clearFilters} className="text-sm underline text-muted-foreground">
+                Clear all
+              </button>
+            </div>
+          )}
+        </div>
 
         {/* Results */}
+        {!isLoading && (
+          <p className="mb-4 text-sm text-muted-foreground">
+            {total} series
+          </p>
+        )}
         {isLoading ? (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
             {[...Array(12)].map((_, i) => (
@@ -140,13 +237,13 @@ const Browse = () => {
               </div>
             ))}
           </div>
-        ) : filteredSeries.length > 0 ? (
+        ) : allSeries.length > 0 ? (
           <>
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
-              {filteredSeries.map((s) => (
+              {allSeries.map((s) => (
                 <BrowseCard
                   key={s.id}
-                  id={s.id}
+                  slug={s.slug}
                   title={s.title}
                   coverUrl={s.cover_url} // ✅ important fix
                   status={s.status}
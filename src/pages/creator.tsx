@@ -0,0 +1,103 @@
+import { useParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { BrowseCard } from "@/components/browse/BrowseCard";
+import { useCreator, CREATOR_ROLES, CREATOR_ROLE_LABELS } from "@/hooks/useCreators";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Search, User } from "lucide-react";
+
+const CreatorPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { data, isLoading } = useCreator(slug || "");
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 md:py-12 space-y-6">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-4 w-full max-w-xl" />
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="aspect-[2/3] rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!data) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <h1 className="font-display text-2xl font-bold mb-4">Creator not found</h1>
+          <Link to="/browse">
+            <Button>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Browse
+            </Button>
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { creator, series } = data;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 md:py-12">
+        {/* Header */}
+        <div className="flex items-start gap-4 mb-8">
+          <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full bg-muted text-muted-foreground">
+            <User className="h-7 w-7" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="font-display text-3xl md:text-4xl font-bold mb-2">{creator.name}</h1>
+            {creator.bio && <p className="text-muted-foreground max-w-2xl whitespace-pre-line">{creator.bio}</p>}
+            <Link
+              to={`/search?creator=${encodeURIComponent(creator.slug)}`}
+              className="inline-flex items-center gap-1 mt-3 text-sm text-primary hover:underline"
+            >
+              <Search className="h-4 w-4" />
+              Search their works
+            </Link>
+          </div>
+        </div>
+
+        {/* Series by role */}
+        {series.length > 0 ? (
+          CREATOR_ROLES.map((role) => {
+            const credited = series.filter((s) => s.roles.includes(role));
+            if (credited.length === 0) return null;
+            return (
+              <section key={role} className="mb-10">
+                <h2 className="font-display text-xl font-bold mb-4">
+                  {CREATOR_ROLE_LABELS[role]}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">{credited.length}</span>
+                </h2>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+                  {credited.map((s) => (
+                    <BrowseCard
+                      key={s.id}
+                      slug={s.slug}
+                      title={s.title}
+                      coverUrl={s.cover_url}
+                      status={s.status}
+                      type={s.type}
+                      chaptersCount={s.chaptersCount}
+                    />
+                  ))}
+                </div>
+              </section>
+            );
+          })
+        ) : (
+          <p className="text-muted-foreground">No series credited yet.</p>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default CreatorPage;
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useDownloads, useStorageEstimate } from "@/hooks/useDownloads";
+import { deleteDownload, isOfflineSupported, DownloadedChapter } from "@/lib/offline";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Trash2, BookOpen } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const Downloads = () => {
+  const downloads = useDownloads();
+  const estimate = useStorageEstimate(downloads.length);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const totalBytes = downloads.reduce((sum, d) => sum + d.bytes, 0);
+
+  // Group chapters under their series, keeping the newest download first
+  const groups = downloads.reduce<{ seriesId: string; title: string; chapters: DownloadedChapter[] }[]>(
+    (acc, d) => {
+      const group = acc.find((g) => g.seriesId === d.seriesId);
+      if (group) group.chapters.push(d);
+      else acc.push({ seriesId: d.seriesId, title: d.seriesTitle || "Untitled series", chapters: [d] });
+      return acc;
+    },
+    []
+  );
+
+  const handleDelete = async (ids: string[]) => {
+    setDeleting(ids.length === 1 ? ids[0] : "all");
+    try {
+      for (const id of ids) {
+        await deleteDownload(id);
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to delete download",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 md:py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="font-display text-3xl md:text-4xl font-bold mb-4">Downloads</h1>
+          <p className="text-muted-foreground">
+            Chapters saved on this device can be read without a connection.
+          </p>
+        </div>
+
+        {!isOfflineSupported() ? (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground">This browser doesn't support offline reading.</p>
+          </div>
+        ) : downloads.length === 0 ? (
+          <div className="text-center py-16">
+            <Download className="mx-auto h-12 w-12 opacity-40 mb-4" />
+            <p className="mb-6">No downloaded chapters yet.</p>
+            <Link to="/browse">
+              <Button>Browse Series</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Storage */}
+            <div className="bg-card rounded-xl border border-border p-5 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">
+                  {downloads.length} {downloads.length === 1 ? "chapter" : "chapters"}
+                  {totalBytes > 0 && ` · ${formatBytes(totalBytes)}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  disabled={deleting !== null}
+                  onClick={() => handleDelete(downloads.map((d) => d.chapterId))}
+                >
+                  <Trash2 className="mr-1.5 h-4 w-4" />
+                  Delete all
+                </Button>
+              </div>
+              {estimate && estimate.quota > 0 && (
+                <>
+                  <Progress value={(estimate.usage / estimate.quota) * 100} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} available storage used on this device
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* Chapters by series */}
+            {groups.map((group) => (
+              <div key={group.seriesId}>
+                <h2 className="font-display text-lg font-bold mb-3">
+                  <Link to={`/series/${group.seriesId}`} className="hover:text-primary transition-colors">
+                    {group.title}
+                  </Link>
+                </h2>
+                <div className="divide-y divide-border rounded-xl bg-card shadow-card overflow-hidden">
+                  {[...group.chapters]
+                    .sort((a, b) => a.chapterNumber - b.chapterNumber)
+                    .map((d) => (
+                      <div key={d.chapterId} className="flex items-center justify-between p-4">
+                        <Link to={`/read/${d.chapterId}`} className="flex items-center gap-4 min-w-0">
+                          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10 text-primary font-semibold text-sm">
+                            {d.chapterNumber}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="font-medium text-foreground truncate">
+                              Chapter {d.chapterNumber}
+                              {d.chapterTitle && (
+                                <span className="text-muted-foreground font-normal"> - {d.chapterTitle}</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {d.pageCount > 0 ? `${d.pageCount} pages` : "PDF"}
+                              {d.bytes > 0 && ` · ${formatBytes(d.bytes)}`}
+                              {" · "}
+                              {formatDistanceToNow(new Date(d.downloadedAt), { addSuffix: true })}
+                            </p>
+                          </div>
+                        </Link>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Link to={`/read/${d.chapterId}`}>
+                            <Button variant="ghost" size="icon" aria-label="Read chapter">
+                              <BookOpen className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Delete download"
+                            disabled={deleting !== null}
+                            onClick={() => handleDelete([d.chapterId])}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Downloads;
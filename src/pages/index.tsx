@@ -128,7 +128,7 @@ const Index = () => {
                           } ${Math.floor(index / 2) < Math.floor((latestSeries.length - 1) / 2) ? "md:border-b" : ""}`}
                         >
                           <LatestUpdateCard
-                            id={s.id}
+                            slug={s.slug}
                             title={s.title}
                             coverUrl={s.cover_url}
                             status={s.status}
@@ -0,0 +1,77 @@
+import { Layout } from "@/components/layout/Layout";
+import { BrowseCard } from "@/components/browse/BrowseCard";
+import { TelegramLogin } from "@/components/comments/TelegramLogin";
+import { useLibrary } from "@/hooks/useLibrary";
+import { useTelegramUser } from "@/hooks/useTelegramUser";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Link } from "react-router-dom";
+import { Bookmark } from "lucide-react";
+
+const Library = () => {
+  const user = useTelegramUser();
+  const { data: library, isLoading, error } = useLibrary();
+
+  const unreadTotal = library?.reduce((sum, s) => sum + s.unread_count, 0) ?? 0;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 md:py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="font-display text-3xl md:text-4xl font-bold mb-4">My Library</h1>
+          <p className="text-muted-foreground">
+            {user && library
+              ? `${library.length} followed series · ${unreadTotal} new ${unreadTotal === 1 ? "chapter" : "chapters"}`
+              : "Series you follow, with new chapters since you last read"}
+          </p>
+        </div>
+
+        {!user ? (
+          <div className="bg-card rounded-xl border border-border p-8">
+            <TelegramLogin botName="BnToonAccBot" onAuth={() => undefined} />
+          </div>
+        ) : isLoading ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+            {[...Array(6)].map((_, i) => (
+              <div key={i} className="space-y-3">
+                <Skeleton className="aspect-[2/3] rounded-xl" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-3 w-2/3" />
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground">Failed to load your library. Please try again.</p>
+          </div>
+        ) : library && library.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+            {library.map((s) => (
+              <BrowseCard
+                key={s.id}
+                slug={s.slug}
+                title={s.title}
+                coverUrl={s.cover_url}
+                status={s.status}
+                type={s.type}
+                chaptersCount={s.chapters_count}
+                unreadCount={s.unread_count}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <Bookmark className="mx-auto h-12 w-12 opacity-40 mb-4" />
+            <p className="mb-6">Your library is empty.</p>
+            <Link to="/browse">
+              <Button>Browse Series</Button>
+            </Link>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Library;
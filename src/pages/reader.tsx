@@ -1,20 +1,55 @@
-import { useEffect } from "react";
-import { useParams, Link } from "react-router-dom";
-import { useChapter, useChapters, useSeries } from "@/hooks/useSeries";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useParams, useLocation, Link, Navigate } from "react-router-dom";
+import { useChapter, useChapters, useSeries, useSeriesBySlug } from "@/hooks/useSeries";
 import { useRecordView } from "@/hooks/useViews";
+import { useReadingProgress, useSaveReadingProgress } from "@/hooks/useReadingProgress";
+import { useTelegramUser } from "@/hooks/useTelegramUser";
+import type { ReaderPosition } from "@/hooks/useReaderPosition";
+import { useReadingMode } from "@/hooks/useReadingMode";
+import { useReaderSettings, getReaderFilter } from "@/hooks/useReaderSettings";
+import { usePrefetchChapter } from "@/hooks/usePrefetchChapter";
+import { useIsMobile } from "@/hooks/use-mobile";
 import { MinimalHeader } from "@/components/reader/MinimalHeader";
 import { MinimalImageReader } from "@/components/reader/MinimalImageReader";
 import { MinimalPDFReader } from "@/components/reader/MinimalPDFReader";
+import { PagedImageReader } from "@/components/reader/PagedImageReader";
 import { EndNavigation } from "@/components/reader/EndNavigation";
 import { CommentSection } from "@/components/comments/CommentSection";
+import { chapterPath } from "@/lib/routes";
+import { ChapterPage } from "@/lib/db";
+import { pagedPageSizes, scrollPageSizes } from "@/lib/pageImage";
 import { Home } from "lucide-react";
 
+// Start loading the next chapter once the reader is this close to the end
+const NEAR_END_PAGES = 3;
+
 const Reader = () => {
-  const { chapterId } = useParams<{ chapterId: string }>();
-  const { data, isLoading, error } = useChapter(chapterId || "");
-  const { data: series } = useSeries(data?.chapter.series_id || "");
+  const params = useParams<{ chapterId: string; slug: string; number: string }>();
+  const location = useLocation();
+  // /series/:slug/chapter/:number is looked up in the series' chapter list.
+  // Old /read/:chapterId links load directly (downloads rely on that offline)
+  // and are redirected once the series slug is known.
+  const { data: slugSeries, isLoading: slugSeriesLoading } = useSeriesBySlug(params.slug || "");
+  const { data: slugChapters, isLoading: slugChaptersLoading } = useChapters(slugSeries?.id || "");
+  const chapterId =
+    params.chapterId ||
+    slugChapters?.find((c) => Number(c.chapter_number) === Number(params.number))?.id ||
+    "";
+  const { data, isLoading: chapterLoading, error } = useChapter(chapterId);
+  const { data: series, isLoading: seriesLoading } = useSeries(data?.chapter.series_id || "");
   const { data: chapters } = useChapters(data?.chapter.series_id || "");
   const recordView = useRecordView();
+  const telegramUser = useTelegramUser();
+  const { data: progress, isFetched: progressFetched } = useReadingProgress(
+    data?.chapter.series_id || ""
+  );
+  const { mutate: saveProgress } = useSaveReadingProgress();
+  const readingMode = useReadingMode(data?.chapter.series_id || "", series?.type);
+  const isMobile = useIsMobile();
+  const readerSettings = useReaderSettings();
+  const { settings } = readerSettings;
+  const [isNearEnd, setIsNearEnd] = useState(false);
+  const pendingSave = useRef<{ timer: number; flush: () => void } | null>(null);
 
   // Record view when chapter loads
   useEffect(() => {
@@ -29,9 +64,64 @@ const Reader = () => {
   // Scroll to top on chapter change
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: "instant" });
+    setIsNearEnd(false);
   }, [chapterId]);
 
-  if (isLoading) {
+  // Save reading position for signed-in readers, debounced while scrolling
+  const seriesId = data?.chapter.series_id;
+  const canSaveProgress = !!telegramUser && !!seriesId && progressFetched;
+  const pageCount = data?.pages.length ?? 0;
+  const handlePositionChange = useCallback(
+    (position: ReaderPosition) => {
+      if (pageCount > 0 && position.page > pageCount - NEAR_END_PAGES) {
+        setIsNearEnd(true);
+      }
+
+      if (!canSaveProgress || !chapterId) return;
+      if (pendingSave.current) window.clearTimeout(pendingSave.current.timer);
+      const flush = () => {
+        pendingSave.current = null;
+        saveProgress({
+          seriesId,
+          chapterId,
+          pageNumber: position.page,
+          scrollOffset: position.offset,
+        });
+      };
+      pendingSave.current = { timer: window.setTimeout(flush, 1500), flush };
+    },
+    [pageCount, canSaveProgress, chapterId, seriesId, saveProgress]
+  );
+
+  // Load the next chapter while the reader finishes this one. chapter_number
+  // is NUMERIC and arrives as a string, so compare it as a number.
+  const nextChapterId = useMemo(() => {
+    if (!chapters || !data) return null;
+    const current = Number(data.chapter.chapter_number);
+    const next = chapters
+      .filter((c) => Number(c.chapter_number) > current)
+      .sort((a, b) => Number(a.chapter_number) - Number(b.chapter_number))[0];
+    return next?.id ?? null;
+  }, [chapters, data]);
+  // Preload the variants the current reader will show; the first spread's
+  // pairing isn't known yet, so spread pages are assumed to be halves
+  const prefetchSizes = (page: ChapterPage) =>
+    readingMode.mode === "paged"
+      ? pagedPageSizes(page, settings.fit, settings.maxWidth, readingMode.spread && !isMobile)
+      : scrollPageSizes(page, settings.fit, settings.maxWidth);
+  usePrefetchChapter(nextChapterId, isNearEnd && settings.prefetchNext, prefetchSizes);
+
+  // Don't lose the last position when leaving the chapter
+  useEffect(() => {
+    return () => {
+      if (pendingSave.current) {
+        window.clearTimeout(pendingSave.current.timer);
+        pendingSave.current.flush();
+      }
+    };
+  }, [chapterId]);
+
+  if (slugSeriesLoading || slugChaptersLoading || chapterLoading || seriesLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="w-6 h-6 border-2 border-muted-foreground/20 border-t-muted-foreground/60 rounded-full animate-spin" />
@@ -60,6 +150,13 @@ const Reader = () => {
 
   const { chapter, pages } = data;
 
+  if (series) {
+    const canonical = chapterPath(series.slug, chapter.chapter_number);
+    if (location.pathname !== canonical) {
+      return <Navigate to={{ pathname: canonical, search: location.search }} replace />;
+    }
+  }
+
   // Find previous and next chapters
   const sortedChapters =
     chapters?.sort((a, b) => a.chapter_number - b.chapter_number) || [];
@@ -70,34 +167,94 @@ const Reader = () => {
       ? sortedChapters[currentIndex + 1]
       : null;
 
+  const isPdf = chapter.chapter_type === "pdf" && !!chapter.pdf_url;
+
+  // Resume where the reader left off when reopening their last chapter
+  const restoreTo: ReaderPosition | null =
+    progress && progress.chapter_id === chapter.id
+      ? { page: progress.page_number, offset: progress.scroll_offset }
+      : null;
+
   return (
-    <div className="min-h-screen bg-background">
+    <div
+      className="min-h-screen bg-background"
+      style={settings.background !== "theme" ? { backgroundColor: settings.background } : undefined}
+    >
       {/* Minimal Header */}
       {chapters && chapters.length > 0 && (
         <MinimalHeader
           seriesId={chapter.series_id}
+          seriesSlug={series?.slug}
           seriesTitle={series?.title}
           currentChapter={chapter}
           chapters={chapters}
           prevChapter={prevChapter}
           nextChapter={nextChapter}
+          settings={settings}
+          onSettingsChange={readerSettings.update}
+          onSettingsReset={readerSettings.reset}
+          {...(isPdf
+            ? {}
+            : {
+                readingMode: readingMode.mode,
+                direction: readingMode.direction,
+                spread: readingMode.spread,
+                spreadOffset: readingMode.spreadOffset,
+                onReadingModeChange: readingMode.setMode,
+                onDirectionChange: readingMode.setDirection,
+                onSpreadChange: readingMode.setSpread,
+                onSpreadOffsetChange: readingMode.setSpreadOffset,
+              })}
         />
       )}
 
       {/* Spacer for fixed header */}
       <div className="h-12" />
 
-      {/* Reading Area */}
-      <main className="py-4">
-        {chapter.chapter_type === "pdf" && chapter.pdf_url ? (
-          <MinimalPDFReader pdfUrl={chapter.pdf_url} />
+      {/* Reading Area. Readers are keyed by chapter so their page and
+          restore state start over when a prefetched chapter opens in place. */}
+      <main className="py-4" style={{ filter: getReaderFilter(settings) }}>
+        {isPdf ? (
+          <MinimalPDFReader
+            key={chapter.id}
+            pdfUrl={chapter.pdf_url}
+            maxWidth={settings.maxWidth}
+            pageGap={settings.pageGap}
+            restoreTo={restoreTo}
+            onPositionChange={handlePositionChange}
+          />
+        ) : readingMode.mode === "paged" ? (
+          <PagedImageReader
+            key={chapter.id}
+            pages={pages}
+            direction={readingMode.direction}
+            spread={readingMode.spread}
+            spreadOffset={readingMode.spreadOffset}
+            fit={settings.fit}
+            maxWidth={settings.maxWidth}
+            restoreTo={restoreTo}
+            onPositionChange={handlePositionChange}
+          />
         ) : (
-          <MinimalImageReader pages={pages} />
+          <MinimalImageReader
+            key={chapter.id}
+            pages={pages}
+            fit={settings.fit}
+            maxWidth={settings.maxWidth}
+            pageGap={settings.pageGap}
+            restoreTo={restoreTo}
+            onPositionChange={handlePositionChange}
+          />
         )}
       </main>
 
       {/* End Navigation */}
-      <EndNavigation prevChapter={prevChapter} nextChapter={nextChapter} />
+      <EndNavigation
+        prevChapter={prevChapter}
+        nextChapter={nextChapter}
+        seriesId={chapter.series_id}
+        seriesSlug={series?.slug}
+      />
 
       {/* Chapter Comments */}
       <div className="container mx-auto px-4 pb-8 max-w-4xl">
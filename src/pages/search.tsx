@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react";
+import { useSearchParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { SearchResultItem } from "@/components/search/SearchResultItem";
+import { useAdvancedSearch } from "@/hooks/useSearch";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { useRecentSearches } from "@/hooks/useRecentSearches";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BackToTop } from "@/components/ui/back-to-top";
+import { Search, Loader2 } from "lucide-react";
+
+const SearchPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = (searchParams.get("q") || "").trim();
+  // Set by "Search their works" on creator pages
+  const creator = searchParams.get("creator");
+  const [input, setInput] = useState(query);
+  const { add: addRecent } = useRecentSearches();
+
+  // Follow back/forward and links from the search modal
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useAdvancedSearch({
+    query,
+    creator,
+    limit: 20,
+  });
+
+  const { loadMoreRef } = useInfiniteScroll({
+    hasNextPage: hasNextPage ?? false,
+    isFetchingNextPage,
+    fetchNextPage,
+  });
+
+  const results = data?.pages.flat() ?? [];
+  const total = data?.pages[0]?.[0]?.total_count ?? 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = input.trim();
+    if (!trimmed) return;
+    addRecent(trimmed);
+    setSearchParams(creator ? { q: trimmed, creator } : { q: trimmed });
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 md:py-12 max-w-3xl">
+        <h1 className="font-display text-3xl md:text-4xl font-bold mb-6">Search</h1>
+
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-6">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search by title, alternative title, or description..."
+            className="flex-1"
+          />
+          <Button type="submit" className="gap-1.5">
+            <Search className="h-4 w-4" />
+            Search
+          </Button>
+        </form>
+
+        {creator && (
+          <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+            <span>
+              Only works by <Link to={`/creator/${creator}`} className="text-primary hover:underline">{creator}</Link>
+            </span>
+            <button
+              onClick={() => setSearchParams(query ? { q: query } : {})}
+              className="underline hover:text-foreground"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
+        {!query && !creator ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <Search className="mx-auto h-12 w-12 opacity-40 mb-4" />
+            <p>Enter a title to search the catalog.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-3">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="h-20 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : results.length > 0 ? (
+          <>
+            <p className="mb-3 text-sm text-muted-foreground">
+              {total} {total === 1 ? "result" : "results"}
+              {query && ` for "${query}"`}
+            </p>
+            <div className="divide-y divide-border rounded-lg border border-border bg-card">
+              {results.map((series) => (
+                <SearchResultItem key={series.id} series={series} />
+              ))}
+            </div>
+
+            {/* Infinite Scroll Trigger */}
+            <div ref={loadMoreRef} className="mt-8 flex justify-center">
+              {isFetchingNextPage && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  <span>Loading more...</span>
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-16 text-muted-foreground">
+            <Search className="mx-auto h-12 w-12 opacity-40 mb-4" />
+            <p>{query ? `No results for "${query}".` : "No results."}</p>
+            <p className="text-sm mt-1">Try a different spelling or an alternative title.</p>
+          </div>
+        )}
+      </div>
+
+      <BackToTop />
+    </Layout>
+  );
+};
+
+export default SearchPage;
@@ -1,23 +1,35 @@
 import { useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, Link, Navigate } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
-import { useSeries, useChapters } from "@/hooks/useSeries";
+import { useSeriesBySlug, useChapters } from "@/hooks/useSeries";
 import { useSeriesGenres } from "@/hooks/useGenres";
+import { useSeriesCreators, CREATOR_ROLES, CREATOR_ROLE_LABELS } from "@/hooks/useCreators";
+import { useSeriesRelations, RELATION_LABELS } from "@/hooks/useSeriesRelations";
+import { BrowseCard } from "@/components/browse/BrowseCard";
 import { useSeriesViews, formatViewCount } from "@/hooks/useViews";
 import { useAuth } from "@/hooks/useAuth";
+import { useReadingProgress } from "@/hooks/useReadingProgress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, BookOpen, Calendar, Tag, Star, Eye, ArrowUpDown } from "lucide-react";
+import { ArrowLeft, BookOpen, History, Calendar, Tag, Star, Eye, ArrowUpDown, Rss } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
  import { CommentSection } from "@/components/comments/CommentSection";
+import { FollowButton } from "@/components/series/FollowButton";
+import { DownloadChapterButton } from "@/components/downloads/DownloadChapterButton";
+import { ExportChapterMenu } from "@/components/downloads/ExportChapterMenu";
+import { chapterPath, seriesPath, seriesFeedUrl } from "@/lib/routes";
 
 const SeriesPage = () => {
-  const { id } = useParams<{ id: string }>();
-  const { data: series, isLoading: seriesLoading } = useSeries(id || "");
+  const { slug } = useParams<{ slug: string }>();
+  const { data: series, isLoading: seriesLoading } = useSeriesBySlug(slug || "");
+  const id = series?.id;
   const { data: chapters, isLoading: chaptersLoading } = useChapters(id || "");
   const { data: genres } = useSeriesGenres(id || "");
+  const { data: creators } = useSeriesCreators(id || "");
+  const { data: relations } = useSeriesRelations(id || "");
   const { data: totalViews } = useSeriesViews(id || "");
+  const { data: progress } = useReadingProgress(id || "");
   const { isAdmin } = useAuth();
   const [sortDescending, setSortDescending] = useState(true);
 
@@ -63,6 +75,11 @@ const SeriesPage = () => {
     );
   }
 
+  // Old slugs and UUID links land here too; send them to the current URL
+  if (series.slug !== slug) {
+    return <Navigate to={seriesPath(series.slug)} replace />;
+  }
+
   return (
     <Layout>
       <div className="container mx-auto px-4 py-8 md:py-12">
@@ -135,6 +152,31 @@ const SeriesPage = () => {
               </div>
             )}
 
+            {/* Creators */}
+            {creators && creators.length > 0 && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm mb-6">
+                {CREATOR_ROLES.map((role) => {
+                  const credited = creators.filter((c) => c.role === role);
+                  if (credited.length === 0) return null;
+                  return (
+                    <div key={role} className="contents">
+                      <dt className="text-muted-foreground">{CREATOR_ROLE_LABELS[role]}</dt>
+                      <dd>
+                        {credited.map((creator, i) => (
+                          <span key={creator.id}>
+                            {i > 0 && ", "}
+                            <Link to={`/creator/${creator.slug}`} className="text-foreground hover:text-primary hover:underline">
+                              {creator.name}
+                            </Link>
+                          </span>
+                        ))}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            )}
+
             {series.description && (
               <div className="prose prose-sm max-w-none">
                 <p className="text-muted-foreground leading-relaxed">
@@ -143,17 +185,60 @@ const SeriesPage = () => {
               </div>
             )}
 
-            {chapters && chapters.length > 0 && (
-              <Link to={`/read/${chapters[0].id}`} className="mt-6 inline-block">
-                <Button size="lg" className="btn-accent">
-                  <BookOpen className="mr-2 h-5 w-5" />
-                  Start Reading
+            <div className="mt-6 flex flex-wrap gap-3">
+              {progress && (
+                <Link to={chapterPath(series.slug, progress.chapter_number)}>
+                  <Button size="lg" className="btn-accent">
+                    <History className="mr-2 h-5 w-5" />
+                    Continue Chapter {progress.chapter_number}
+                  </Button>
+                </Link>
+              )}
+              {chapters && chapters.length > 0 && (
+                <Link to={chapterPath(series.slug, chapters[0].chapter_number)}>
+                  <Button size="lg" variant={progress ? "outline" : "default"} className={progress ? undefined : "btn-accent"}>
+                    <BookOpen className="mr-2 h-5 w-5" />
+                    Start Reading
+                  </Button>
+                </Link>
+              )}
+              <FollowButton seriesId={series.id} />
+              <a href={seriesFeedUrl(series.slug)} target="_blank" rel="noopener noreferrer">
+                <Button size="lg" variant="ghost" title="Follow new chapters in a feed reader">
+                  <Rss className="mr-2 h-5 w-5" />
+                  RSS
                 </Button>
-              </Link>
-            )}
+              </a>
+            </div>
           </div>
         </div>
 
+        {/* Related Series */}
+        {relations && relations.length > 0 && (
+          <div className="mb-12">
+            <h2 className="font-display text-xl md:text-2xl font-bold text-foreground mb-6">
+              Related Series
+            </h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              {relations.map((rel) => (
+                <div key={rel.id} className="space-y-2">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    {RELATION_LABELS[rel.relation_type]}
+                  </p>
+                  <BrowseCard
+                    slug={rel.slug}
+                    title={rel.title}
+                    coverUrl={rel.cover_url}
+                    status={rel.status}
+                    type={rel.type}
+                    chaptersCount={rel.chapters_count}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Chapters List */}
         <div>
           <div className="flex items-center justify-between mb-6">
@@ -189,7 +274,7 @@ const SeriesPage = () => {
                 return (
                   <Link
                     key={chapter.id}
-                    to={`/read/${chapter.id}`}
+                    to={chapterPath(series.slug, chapter.chapter_number)}
                     className="block"
                   >
                     <div className="flex items-center justify-between p-4 hover:bg-muted/50 transition-colors">
@@ -215,11 +300,21 @@ const SeriesPage = () => {
                           </p>
                         </div>
                       </div>
-                      {isAdmin && (
-                        <Badge variant="outline" className="capitalize text-xs">
-                          {chapter.chapter_type}
-                        </Badge>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {isAdmin && (
+                          <Badge variant="outline" className="capitalize text-xs">
+                            {chapter.chapter_type}
+                          </Badge>
+                        )}
+                        <DownloadChapterButton
+                          chapterId={chapter.id}
+                          chapterNumber={chapter.chapter_number}
+                          seriesTitle={series.title}
+                        />
+                        {series.downloads_enabled !== false && (
+                          <ExportChapterMenu chapterId={chapter.id} chapterType={chapter.chapter_type} />
+                        )}
+                      </div>
                     </div>
                   </Link>
                 );
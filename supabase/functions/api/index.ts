@@ -0,0 +1,377 @@
+import { neon } from "https://esm.sh/@neondatabase/serverless@0.10.4";
+import openapi from "./openapi.json" with { type: "json" };
+
+// Versioned, read-only public API for third-party readers. Response shapes
+// mirror the Api* interfaces in src/lib/db.ts, which openapi.json is generated
+// from (npm run generate:openapi) — change both together.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "content-type, if-none-match",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Expose-Headers":
+    "ETag, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining",
+};
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Simple in-memory rate limiter per client IP
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+const RATE_LIMIT_WINDOW = 60000;
+const RATE_LIMIT_MAX = 120;
+
+function checkRateLimit(ip: string): { allowed: boolean; remaining: number; resetAt: number } {
+  const now = Date.now();
+  const entry = rateLimitMap.get(ip);
+
+  if (!entry || now > entry.resetAt) {
+    const resetAt = now + RATE_LIMIT_WINDOW;
+    rateLimitMap.set(ip, { count: 1, resetAt });
+    return { allowed: true, remaining: RATE_LIMIT_MAX - 1, resetAt };
+  }
+
+  if (entry.count >= RATE_LIMIT_MAX) {
+    return { allowed: false, remaining: 0, resetAt: entry.resetAt };
+  }
+
+  entry.count++;
+  return { allowed: true, remaining: RATE_LIMIT_MAX - entry.count, resetAt: entry.resetAt };
+}
+
+class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// ============ RESPONSE SHAPES (see src/lib/db.ts) ============
+
+interface ApiSeries {
+  id: string;
+  title: string;
+  alternative_titles: string[];
+  description: string | null;
+  cover_url: string | null;
+  status: string;
+  type: string;
+  rating: number | null;
+  genres: string[];
+  chapters_count: number;
+  latest_chapter_at: string | null;
+  updated_at: string;
+}
+
+interface ApiChapter {
+  id: string;
+  series_id: string;
+  chapter_number: number;
+  title: string | null;
+  chapter_type: string;
+  pdf_url: string | null;
+  page_count: number;
+  created_at: string;
+}
+
+interface ApiPage {
+  index: number;
+  page_number: number;
+  image_url: string;
+}
+
+// ============ CURSORS ============
+
+// Cursors are opaque to clients: base64url-encoded keyset positions
+function encodeCursor(value: Record<string, unknown>): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeCursor<T>(cursor: string | null): T | null {
+  if (!cursor) return null;
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))) as T;
+  } catch {
+    throw new ApiError(400, "Invalid cursor");
+  }
+}
+
+function parseLimit(raw: string | null): number {
+  if (raw === null) return DEFAULT_LIMIT;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiError(400, `limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  return limit;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseId(id: string): string {
+  if (!UUID_PATTERN.test(id)) throw new ApiError(404, "Not found");
+  return id;
+}
+
+// ============ QUERIES ============
+
+type Sql = ReturnType<typeof neon>;
+
+// Full series rows for the given ids, in the given order
+async function loadSeries(sql: Sql, ids: string[]): Promise<ApiSeries[]> {
+  if (ids.length === 0) return [];
+  const rows = (await sql`
+    SELECT s.id, s.title, COALESCE(s.alternative_titles, '{}') as alternative_titles,
+      s.description, s.cover_url, s.status, s.type, s.rating::float as rating,
+      COALESCE(
+        (SELECT array_agg(g.name ORDER BY g.name)
+         FROM series_genres sg JOIN genres g ON g.id = sg.genre_id
+         WHERE sg.series_id = s.id),
+        '{}'
+      ) as genres,
+      (SELECT COUNT(*) FROM chapters WHERE series_id = s.id)::int as chapters_count,
+      (SELECT MAX(created_at) FROM chapters WHERE series_id = s.id) as latest_chapter_at,
+      s.updated_at
+    FROM series s
+    WHERE s.id = ANY(${ids})
+  `) as ApiSeries[];
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return ids.map((id) => byId.get(id)).filter((row): row is ApiSeries => !!row);
+}
+
+async function listSeries(sql: Sql, params: URLSearchParams) {
+  const limit = parseLimit(params.get("limit"));
+  const cursor = decodeCursor<{ updated_at: string; id: string }>(params.get("cursor"));
+  const status = params.get("status");
+  const type = params.get("type");
+
+  // updated_at goes into the cursor as Postgres prints it: a JS Date would
+  // drop the microseconds and skip or repeat rows at the page boundary
+  const rows = (await sql`
+    SELECT id, updated_at::text AS updated_at FROM series
+    WHERE (${status}::text IS NULL OR status = ${status})
+      AND (${type}::text IS NULL OR type = ${type})
+      AND (${cursor?.updated_at ?? null}::timestamptz IS NULL
+        OR (updated_at, id) < (${cursor?.updated_at ?? null}::timestamptz, ${cursor?.id ?? null}::uuid))
+    ORDER BY updated_at DESC, id DESC
+    LIMIT ${limit + 1}
+  `) as { id: string; updated_at: string }[];
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    data: await loadSeries(sql, page.map((row) => row.id)),
+    next_cursor:
+      rows.length > limit && last
+        ? encodeCursor({ updated_at: last.updated_at, id: last.id })
+        : null,
+  };
+}
+
+async function getSeries(sql: Sql, id: string) {
+  const [series] = await loadSeries(sql, [parseId(id)]);
+  if (!series) throw new ApiError(404, "Series not found");
+  return series;
+}
+
+async function listChapters(sql: Sql, seriesId: string, params: URLSearchParams) {
+  const id = parseId(seriesId);
+  const limit = parseLimit(params.get("limit"));
+  const order = params.get("order") || "asc";
+  if (order !== "asc" && order !== "desc") {
+    throw new ApiError(400, "order must be asc or desc");
+  }
+  const cursor = decodeCursor<{ chapter_number: number; id: string }>(params.get("cursor"));
+  const afterNumber = cursor?.chapter_number ?? null;
+  const afterId = cursor?.id ?? null;
+
+  const exists = await sql`SELECT 1 FROM series WHERE id = ${id}`;
+  if (exists.length === 0) throw new ApiError(404, "Series not found");
+
+  const rows = (
+    order === "asc"
+      ? await sql`
+          SELECT c.id, c.series_id, c.chapter_number::float as chapter_number, c.title,
+            c.chapter_type, c.pdf_url, c.created_at,
+            (SELECT COUNT(*) FROM chapter_pages WHERE chapter_id = c.id)::int as page_count
+          FROM chapters c
+          WHERE c.series_id = ${id}
+            AND (${afterNumber}::numeric IS NULL
+              OR (c.chapter_number, c.id) > (${afterNumber}::numeric, ${afterId}::uuid))
+          ORDER BY c.chapter_number ASC, c.id ASC
+          LIMIT ${limit + 1}
+        `
+      : await sql`
+          SELECT c.id, c.series_id, c.chapter_number::float as chapter_number, c.title,
+            c.chapter_type, c.pdf_url, c.created_at,
+            (SELECT COUNT(*) FROM chapter_pages WHERE chapter_id = c.id)::int as page_count
+          FROM chapters c
+          WHERE c.series_id = ${id}
+            AND (${afterNumber}::numeric IS NULL
+              OR (c.chapter_number, c.id) < (${afterNumber}::numeric, ${afterId}::uuid))
+          ORDER BY c.chapter_number DESC, c.id DESC
+          LIMIT ${limit + 1}
+        `
+  ) as ApiChapter[];
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    data: page,
+    next_cursor:
+      rows.length > limit && last
+        ? encodeCursor({ chapter_number: last.chapter_number, id: last.id })
+        : null,
+  };
+}
+
+async function getChapterPages(sql: Sql, chapterId: string) {
+  const id = parseId(chapterId);
+  const [chapter] = (await sql`
+    SELECT c.id, c.series_id, c.chapter_number::float as chapter_number, c.title,
+      c.chapter_type, c.pdf_url, c.created_at,
+      (SELECT COUNT(*) FROM chapter_pages WHERE chapter_id = c.id)::int as page_count
+    FROM chapters c
+    WHERE c.id = ${id}
+  `) as ApiChapter[];
+  if (!chapter) throw new ApiError(404, "Chapter not found");
+
+  const pages = (await sql`
+    SELECT page_number, image_url FROM chapter_pages
+    WHERE chapter_id = ${id}
+    ORDER BY page_number ASC
+  `) as Omit<ApiPage, "index">[];
+
+  return {
+    chapter,
+    pages: pages.map((page, index): ApiPage => ({ index, ...page })),
+  };
+}
+
+async function searchSeries(sql: Sql, params: URLSearchParams) {
+  const query = (params.get("q") || "").trim();
+  if (!query) throw new ApiError(400, "q is required");
+  const limit = parseLimit(params.get("limit"));
+  const cursor = decodeCursor<{ offset: number }>(params.get("cursor"));
+  const offset = cursor?.offset ?? 0;
+  const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+
+  // Title matches first, then alternative titles; title and id keep it stable
+  const rows = (await sql`
+    SELECT s.id FROM series s
+    WHERE s.title ILIKE ${pattern}
+      OR EXISTS (SELECT 1 FROM unnest(s.alternative_titles) alt WHERE alt ILIKE ${pattern})
+    ORDER BY (s.title ILIKE ${pattern}) DESC, lower(s.title) ASC, s.id ASC
+    LIMIT ${limit + 1}
+    OFFSET ${offset}
+  `) as { id: string }[];
+
+  return {
+    data: await loadSeries(sql, rows.slice(0, limit).map((row) => row.id)),
+    next_cursor: rows.length > limit ? encodeCursor({ offset: offset + limit }) : null,
+  };
+}
+
+// ============ ROUTING ============
+
+async function route(sql: Sql, path: string, params: URLSearchParams): Promise<{ body: unknown; maxAge: number }> {
+  let match: RegExpMatchArray | null;
+
+  if (path === "/v1/openapi.json") return { body: openapi, maxAge: 3600 };
+  if (path === "/v1/series") return { body: await listSeries(sql, params), maxAge: 60 };
+  if (path === "/v1/search") return { body: await searchSeries(sql, params), maxAge: 60 };
+  if ((match = path.match(/^\/v1\/series\/([^/]+)$/))) {
+    return { body: await getSeries(sql, match[1]), maxAge: 60 };
+  }
+  if ((match = path.match(/^\/v1\/series\/([^/]+)\/chapters$/))) {
+    return { body: await listChapters(sql, match[1], params), maxAge: 60 };
+  }
+  if ((match = path.match(/^\/v1\/chapters\/([^/]+)\/pages$/))) {
+    // Page lists rarely change once published
+    return { body: await getChapterPages(sql, match[1]), maxAge: 300 };
+  }
+  throw new ApiError(404, "Not found");
+}
+
+async function etagFor(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `W/"${hex}"`;
+}
+
+function normalizeNeonConnectionString(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  if (trimmed.toLowerCase().startsWith("psql")) {
+    const quoted = trimmed.match(/psql\s+['"]([^'"]+)['"]/i);
+    if (quoted?.[1]) return quoted[1].trim();
+    const parts = trimmed.split(/\s+/).filter(Boolean);
+    const maybeUrl = parts[1];
+    if (maybeUrl) return maybeUrl.replace(/^['"]|['"]$/g, "").trim();
+  }
+  return trimmed.replace(/^['"]|['"]$/g, "").trim();
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const ip = req.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown";
+  const limit = checkRateLimit(ip);
+  const rateHeaders: Record<string, string> = {
+    "X-RateLimit-Limit": String(RATE_LIMIT_MAX),
+    "X-RateLimit-Remaining": String(limit.remaining),
+  };
+  const jsonHeaders = { ...corsHeaders, ...rateHeaders, "Content-Type": "application/json" };
+
+  const errorResponse = (status: number, error: string, extra: Record<string, string> = {}) =>
+    new Response(JSON.stringify({ error }), {
+      status,
+      headers: { ...jsonHeaders, "Cache-Control": "no-store", ...extra },
+    });
+
+  if (!limit.allowed) {
+    return errorResponse(429, "Rate limit exceeded", {
+      "Retry-After": String(Math.ceil((limit.resetAt - Date.now()) / 1000)),
+    });
+  }
+  if (req.method !== "GET") {
+    return errorResponse(405, "Method not allowed");
+  }
+
+  try {
+    const neonConnectionString = normalizeNeonConnectionString(
+      Deno.env.get("NEON_DATABASE_URL")
+    );
+    if (!neonConnectionString) {
+      throw new Error("Database not configured");
+    }
+
+    const sql = neon(neonConnectionString);
+    const url = new URL(req.url);
+    // Path after the function name, e.g. /v1/series
+    const path = url.pathname.replace(/^.*?\/api(?=\/|$)/, "").replace(/\/+$/, "") || "/";
+
+    const { body, maxAge } = await route(sql, path, url.searchParams);
+    const json = JSON.stringify(body);
+    const etag = await etagFor(json);
+    const cacheHeaders = {
+      "Cache-Control": `public, max-age=${maxAge}, stale-while-revalidate=${maxAge * 5}`,
+      ETag: etag,
+    };
+
+    if (req.headers.get("If-None-Match") === etag) {
+      return new Response(null, { status: 304, headers: { ...corsHeaders, ...rateHeaders, ...cacheHeaders } });
+    }
+    return new Response(json, { headers: { ...jsonHeaders, ...cacheHeaders } });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error.status, error.message);
+    }
+    console.error("API error:", error);
+    return errorResponse(500, "Internal server error");
+  }
+});
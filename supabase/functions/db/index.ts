@@ -10,6 +10,45 @@ function getCorsHeaders(req: Request) {
   };
 }
 
+// sort_by values accepted by search_series
+const SEARCH_SORTS = ["relevance", "latest", "title", "rating", "views", "chapters"];
+
+// Roles a creator can have on a series, in display order
+const CREATOR_ROLES = ["story", "art", "publisher"];
+
+// Series relation types, in display order
+const RELATION_TYPES = [
+  "prequel",
+  "sequel",
+  "parent_story",
+  "side_story",
+  "spin_off",
+  "adaptation",
+  "source",
+  "alternative",
+];
+
+// sort_by values accepted by get_browse_series
+const BROWSE_SORTS = ["latest", "newest", "title", "rating", "views", "chapters"];
+
+// Bucket edges for get_browse_series' rating and chapter-count facets; "101-" is open ended
+const RATING_STEPS = [9, 8, 7, 6, 5];
+const CHAPTER_RANGES = ["1-20", "21-50", "51-100", "101-"];
+
+// ts_headline options for search_series; matches are wrapped in <mark> and
+// rendered as text by the client, never as HTML
+const HIGHLIGHT_ALL = "StartSel=<mark>, StopSel=</mark>, HighlightAll=true";
+const HIGHLIGHT_SNIPPET =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Series slugs are lowercase words joined by hyphens; UUIDs are rejected so
+// old /series/:id links can't be shadowed by a slug
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Supabase's edge runtime keeps background work alive after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
 interface RequestBody {
   action: string;
   params?: Record<string, unknown>;
@@ -39,6 +78,8 @@ Deno.serve(async (req) => {
     // Verify admin token from cookie
     const cookieHeader = req.headers.get("Cookie") || "";
     const isAdmin = await verifyAdminToken(cookieHeader);
+    // Signed-in readers carry the tg_auth cookie issued by telegram-auth
+    const reader = await verifyTelegramToken(cookieHeader);
 
     let result: unknown;
 
@@ -58,6 +99,27 @@ Deno.serve(async (req) => {
         result = (result as unknown[])[0] || null;
         break;
 
+      // Resolves a series by its current slug, a previous slug from
+      // series_slug_history, or its id (for old UUID links). Callers compare
+      // the returned slug with the one they asked for to redirect.
+      case "get_series_by_slug": {
+        const slug = String(params.slug ?? "");
+        if (UUID_PATTERN.test(slug)) {
+          result = await sql`SELECT * FROM series WHERE id = ${slug}`;
+        } else {
+          result = await sql`
+            SELECT s.* FROM series s WHERE s.slug = ${slug}
+            UNION ALL
+            SELECT s.* FROM series_slug_history h
+            JOIN series s ON s.id = h.series_id
+            WHERE h.slug = ${slug}
+            LIMIT 1
+          `;
+        }
+        result = (result as unknown[])[0] || null;
+        break;
+      }
+
       case "get_series_with_chapter_count":
         result = await sql`
           SELECT s.*, COALESCE(c.count, 0)::int as chapters_count
@@ -78,6 +140,16 @@ Deno.serve(async (req) => {
         `;
         break;
 
+      case "get_chapters_with_page_counts":
+        result = await sql`
+          SELECT c.*,
+            COALESCE((SELECT COUNT(*) FROM chapter_pages WHERE chapter_id = c.id), 0)::int as page_count
+          FROM chapters c
+          WHERE c.series_id = ${params.series_id}
+          ORDER BY c.chapter_number DESC
+        `;
+        break;
+
       case "get_chapter":
         const chapters = await sql`
           SELECT * FROM chapters WHERE id = ${params.id}
@@ -104,6 +176,92 @@ Deno.serve(async (req) => {
         `;
         break;
 
+      case "get_series_relations":
+        // Links added on the other series are returned from this side with the
+        // inverse type (a sequel's entry shows this series as its prequel)
+        result = await sql`
+          SELECT * FROM (
+            SELECT r.relation_type, true as direct,
+              s.id, s.slug, s.title, s.cover_url, s.status, s.type
+            FROM series_relations r
+            JOIN series s ON s.id = r.related_series_id
+            WHERE r.series_id = ${params.series_id}
+            UNION ALL
+            SELECT
+              CASE r.relation_type
+                WHEN 'sequel' THEN 'prequel'
+                WHEN 'prequel' THEN 'sequel'
+                WHEN 'side_story' THEN 'parent_story'
+                WHEN 'spin_off' THEN 'parent_story'
+                WHEN 'parent_story' THEN 'side_story'
+                WHEN 'adaptation' THEN 'source'
+                WHEN 'source' THEN 'adaptation'
+                ELSE r.relation_type
+              END,
+              false,
+              s.id, s.slug, s.title, s.cover_url, s.status, s.type
+            FROM series_relations r
+            JOIN series s ON s.id = r.series_id
+            WHERE r.related_series_id = ${params.series_id}
+              AND NOT EXISTS (
+                SELECT 1 FROM series_relations d
+                WHERE d.series_id = ${params.series_id} AND d.related_series_id = r.series_id
+              )
+          ) rel
+          CROSS JOIN LATERAL (
+            SELECT COUNT(*)::int as chapters_count, MIN(chapter_number) as first_chapter_number
+            FROM chapters WHERE series_id = rel.id
+          ) c
+          ORDER BY array_position(${RELATION_TYPES}::text[], rel.relation_type), rel.title ASC
+        `;
+        break;
+
+      case "get_creators":
+        result = await sql`
+          SELECT * FROM creators ORDER BY name ASC
+        `;
+        break;
+
+      case "get_series_creators":
+        result = await sql`
+          SELECT c.*, sc.role FROM creators c
+          JOIN series_creators sc ON c.id = sc.creator_id
+          WHERE sc.series_id = ${params.series_id}
+          ORDER BY array_position(${CREATOR_ROLES}::text[], sc.role), c.name ASC
+        `;
+        break;
+
+      case "get_creator": {
+        const creators = await sql`
+          SELECT * FROM creators WHERE slug = ${params.slug}
+        `;
+        const creator = (creators as { id: string }[])[0];
+        if (!creator) {
+          result = null;
+          break;
+        }
+
+        const series = await sql`
+          SELECT s.id, s.slug, s.title, s.cover_url, s.status, s.type, s.updated_at,
+            COALESCE((SELECT COUNT(*) FROM chapters WHERE series_id = s.id), 0)::int as chapters_count,
+            array_agg(sc.role ORDER BY array_position(${CREATOR_ROLES}::text[], sc.role)) as roles
+          FROM series_creators sc
+          JOIN series s ON s.id = sc.series_id
+          WHERE sc.creator_id = ${creator.id}
+          GROUP BY s.id
+          ORDER BY s.updated_at DESC
+        `;
+
+        result = {
+          creator,
+          series: (series as { chapters_count: number }[]).map((s) => ({
+            ...s,
+            chaptersCount: s.chapters_count,
+          })),
+        };
+        break;
+      }
+
       case "get_popular_series": {
         const period = params.time_period || "all";
         const limit = params.result_limit || 10;
@@ -117,14 +275,14 @@ Deno.serve(async (req) => {
 
         if (period === "all") {
           result = await sql`
-            SELECT id, title, cover_url, status, type, total_views, total_views as period_views
+            SELECT id, slug, title, cover_url, status, type, total_views, total_views as period_views
             FROM series
             ORDER BY total_views DESC
             LIMIT ${limit}
           `;
         } else {
           result = await sql`
-            SELECT s.id, s.title, s.cover_url, s.status, s.type, s.total_views,
+            SELECT s.id, s.slug, s.title, s.cover_url, s.status, s.type, s.total_views,
               COALESCE(COUNT(cv.id), 0)::bigint as period_views
             FROM series s
             LEFT JOIN chapter_views cv ON cv.series_id = s.id 
@@ -152,14 +310,14 @@ Deno.serve(async (req) => {
         let seriesData: unknown[];
         if (period === "all") {
           seriesData = await sql`
-            SELECT id, title, cover_url, status, type, total_views, total_views as period_views
+            SELECT id, slug, title, cover_url, status, type, total_views, total_views as period_views
             FROM series
             ORDER BY total_views DESC
             LIMIT ${limit}
           ` as unknown[];
         } else {
           seriesData = await sql`
-            SELECT s.id, s.title, s.cover_url, s.status, s.type, s.total_views,
+            SELECT s.id, s.slug, s.title, s.cover_url, s.status, s.type, s.total_views,
               COALESCE(COUNT(cv.id), 0)::bigint as period_views
             FROM series s
             LEFT JOIN chapter_views cv ON cv.series_id = s.id 
@@ -296,118 +454,311 @@ Deno.serve(async (req) => {
         const page = Number(params.page) || 0;
         const pageSize = 18;
         const offset = page * pageSize;
-
-        const seriesData = await sql`
-          SELECT s.id, s.title, s.cover_url, s.status, s.type, s.updated_at,
-            COALESCE((SELECT COUNT(*) FROM chapters WHERE series_id = s.id), 0)::int as chapters_count
-          FROM series s
-          ORDER BY s.updated_at DESC
-          LIMIT ${pageSize}
-          OFFSET ${offset}
+        const status = params.status || null;
+        const type = params.type || null;
+        const { all, any, exclude } = genreSets(params);
+        const year = optionalNumber(params.year);
+        const minRating = optionalNumber(params.min_rating);
+        const chaptersMin = optionalNumber(params.chapters_min);
+        const chaptersMax = optionalNumber(params.chapters_max);
+        const sortBy = BROWSE_SORTS.includes(params.sort_by as string)
+          ? (params.sort_by as string)
+          : "latest";
+
+        // Each m_* flag is one filter dimension. The page uses series matching all of
+        // them; each facet counts values across the other dimensions only, so picking a
+        // status still shows how many series every other status would have.
+        // Facets are only computed for the first page.
+        const rows = await sql`
+          WITH base AS (
+            SELECT s.id, s.slug, s.title, s.cover_url, s.status, s.type, s.rating, s.release_year,
+              s.total_views, s.created_at, s.updated_at, c.chapters_count,
+              (${status}::text IS NULL OR s.status = ${status}) as m_status,
+              (${type}::text IS NULL OR s.type = ${type}) as m_type,
+              ((cardinality(${all}::uuid[]) = 0 OR (
+                  SELECT COUNT(DISTINCT sg.genre_id) FROM series_genres sg
+                  WHERE sg.series_id = s.id AND sg.genre_id = ANY(${all}::uuid[])
+                ) = cardinality(${all}::uuid[]))
+                AND (cardinality(${any}::uuid[]) = 0 OR EXISTS (
+                  SELECT 1 FROM series_genres sg
+                  WHERE sg.series_id = s.id AND sg.genre_id = ANY(${any}::uuid[])
+                ))
+                AND NOT EXISTS (
+                  SELECT 1 FROM series_genres sg
+                  WHERE sg.series_id = s.id AND sg.genre_id = ANY(${exclude}::uuid[])
+                )) as m_genres,
+              (${year}::int IS NULL OR s.release_year = ${year}) as m_year,
+              (${minRating}::numeric IS NULL OR s.rating >= ${minRating}) as m_rating,
+              ((${chaptersMin}::int IS NULL OR c.chapters_count >= ${chaptersMin})
+                AND (${chaptersMax}::int IS NULL OR c.chapters_count <= ${chaptersMax})) as m_chapters
+            FROM series s
+            CROSS JOIN LATERAL (
+              SELECT COUNT(*)::int as chapters_count FROM chapters WHERE series_id = s.id
+            ) c
+          ),
+          matched AS (
+            SELECT *,
+              ROW_NUMBER() OVER (ORDER BY
+                CASE WHEN ${sortBy}::text = 'rating' THEN rating END DESC NULLS LAST,
+                CASE WHEN ${sortBy}::text = 'views' THEN total_views END DESC,
+                CASE WHEN ${sortBy}::text = 'chapters' THEN chapters_count END DESC,
+                CASE WHEN ${sortBy}::text = 'newest' THEN created_at END DESC,
+                CASE WHEN ${sortBy}::text = 'title' THEN LOWER(title) END ASC,
+                CASE WHEN ${sortBy}::text <> 'title' THEN updated_at END DESC,
+                id ASC
+              ) as position
+            FROM base
+            WHERE m_status AND m_type AND m_genres AND m_year AND m_rating AND m_chapters
+          )
+          SELECT
+            (SELECT COUNT(*) FROM matched)::int as total,
+            COALESCE((
+              SELECT json_agg(json_build_object(
+                'id', id, 'slug', slug, 'title', title, 'cover_url', cover_url, 'status', status, 'type', type,
+                'rating', rating, 'release_year', release_year, 'updated_at', updated_at,
+                'chaptersCount', chapters_count
+              ) ORDER BY position)
+              FROM matched
+              WHERE position > ${offset} AND position <= ${offset + pageSize}
+            ), '[]'::json) as series,
+            CASE WHEN ${page}::int = 0 THEN (
+              SELECT json_agg(f) FROM (
+                SELECT 'status' as facet, status as value, COUNT(*)::int as count FROM base
+                  WHERE m_type AND m_genres AND m_year AND m_rating AND m_chapters
+                  GROUP BY status
+                UNION ALL
+                SELECT 'type', type, COUNT(*)::int FROM base
+                  WHERE m_status AND m_genres AND m_year AND m_rating AND m_chapters
+                  GROUP BY type
+                UNION ALL
+                SELECT 'genre', sg.genre_id::text, COUNT(*)::int FROM base
+                  JOIN series_genres sg ON sg.series_id = base.id
+                  WHERE m_status AND m_type AND m_year AND m_rating AND m_chapters
+                  GROUP BY sg.genre_id
+                UNION ALL
+                SELECT 'year', release_year::text, COUNT(*)::int FROM base
+                  WHERE release_year IS NOT NULL
+                    AND m_status AND m_type AND m_genres AND m_rating AND m_chapters
+                  GROUP BY release_year
+                UNION ALL
+                SELECT 'rating', step::text, COUNT(*)::int FROM base
+                  CROSS JOIN unnest(${RATING_STEPS}::int[]) step
+                  WHERE rating >= step
+                    AND m_status AND m_type AND m_genres AND m_year AND m_chapters
+                  GROUP BY step
+                UNION ALL
+                SELECT 'chapters', bucket, COUNT(*)::int FROM base
+                  CROSS JOIN unnest(${CHAPTER_RANGES}::text[]) bucket
+                  WHERE chapters_count >= split_part(bucket, '-', 1)::int
+                    AND chapters_count <= COALESCE(NULLIF(split_part(bucket, '-', 2), '')::int, chapters_count)
+                    AND m_status AND m_type AND m_genres AND m_year AND m_rating
+                  GROUP BY bucket
+              ) f
+            ) END as facets
         `;
 
+        const row = (rows as {
+          total: number;
+          series: { id: string }[];
+          facets: { facet: string; value: string; count: number }[] | null;
+        }[])[0];
+
+        let facets: Record<string, Record<string, number>> | undefined;
+        if (page === 0) {
+          facets = { status: {}, type: {}, genre: {}, year: {}, rating: {}, chapters: {} };
+          for (const { facet, value, count } of row.facets || []) {
+            facets[facet][value] = count;
+          }
+        }
+
         result = {
-          series: (seriesData as any[]).map((s) => ({
-            ...s,
-            chaptersCount: s.chapters_count,
-          })),
-          nextPage: (seriesData as any[]).length === pageSize ? page + 1 : undefined,
+          series: row.series,
+          total: row.total,
+          nextPage: offset + row.series.length < row.total ? page + 1 : undefined,
+          facets,
         };
         break;
       }
 
+      case "search_suggest": {
+        const query = String(params.query || "").trim();
+        const limit = Math.min(Number(params.limit) || 6, 20);
+        if (query.length < 2) {
+          result = { series: [], genres: [] };
+          break;
+        }
+
+        const contains = `%${escapeLike(query)}%`;
+        const prefix = `${escapeLike(query)}%`;
+
+        // Only titles are matched here, so the trigram index on search_titles covers it;
+        // matched_title is the alternative title that matched when the main one didn't
+        const series = await sql`
+          SELECT s.id, s.slug, s.title, s.cover_url, s.type,
+            CASE WHEN s.title ILIKE ${contains} THEN NULL ELSE alt.title END as matched_title
+          FROM series s
+          LEFT JOIN LATERAL (
+            SELECT t as title FROM unnest(s.alternative_titles) t
+            WHERE t ILIKE ${contains}
+            ORDER BY length(t)
+            LIMIT 1
+          ) alt ON true
+          WHERE s.search_titles ILIKE ${contains} OR ${query} <% s.search_titles
+          ORDER BY (s.title ILIKE ${prefix}) DESC,
+            word_similarity(${query}, s.search_titles) DESC,
+            s.total_views DESC,
+            s.id ASC
+          LIMIT ${limit}
+        `;
+
+        const genres = await sql`
+          SELECT id, name, slug FROM genres
+          WHERE name ILIKE ${contains}
+          ORDER BY (name ILIKE ${prefix}) DESC, name ASC
+          LIMIT 4
+        `;
+
+        result = { series, genres };
+        break;
+      }
+
       case "search_series": {
         const query = params.search_query || "";
         const status = params.filter_status;
         const type = params.filter_type;
-        const genres = params.filter_genres as string[] | null;
-        const sortBy = params.sort_by || "relevance";
-        const limit = params.result_limit || 20;
-        const offset = params.result_offset || 0;
-
-        let results: any[];
-
-        if (!query && !status && !type && (!genres || genres.length === 0)) {
+        const creator = params.filter_creator || null;
+        const { all, any, exclude } = genreSets(params);
+        const sortBy = SEARCH_SORTS.includes(params.sort_by as string)
+          ? (params.sort_by as string)
+          : "relevance";
+        const limit = Number(params.result_limit) || 20;
+        const offset = Number(params.result_offset) || 0;
+
+        if (!query && !status && !type && !creator && all.length + any.length + exclude.length === 0) {
           // No filters, return empty
           result = [];
           break;
         }
 
-        // Build dynamic query based on filters
-        if (query) {
-          results = await sql`
-            SELECT s.id, s.title, s.alternative_titles, s.description, 
-              s.cover_url, s.status, s.type, s.rating, s.is_featured, s.updated_at,
+        // Titles and alternative titles are indexed unstemmed ('simple') since they are
+        // mostly names and romanizations; descriptions use the 'english' config.
+        // Trigram word similarity on search_titles catches typos and partial words.
+        // Every sort ends on updated_at/title and id so offset pages never overlap.
+        const results = (await sql`
+          WITH q AS (
+            SELECT websearch_to_tsquery('simple', ${query}) as simple_q,
+              websearch_to_tsquery('english', ${query}) as english_q
+          ),
+          matches AS (
+            SELECT s.id, s.slug, s.title, s.alternative_titles, s.description, 
+              s.cover_url, s.status, s.type, s.rating, s.is_featured, s.updated_at, s.total_views,
               COALESCE((SELECT COUNT(*) FROM chapters WHERE series_id = s.id), 0)::int as chapters_count,
               CASE 
-                WHEN LOWER(s.title) = LOWER(${query}) THEN 1.0
-                WHEN LOWER(s.title) LIKE LOWER(${query}) || '%' THEN 0.9
-                WHEN LOWER(s.title) LIKE '%' || LOWER(${query}) || '%' THEN 0.7
-                ELSE 0.3
-              END as relevance_score
-            FROM series s
+                WHEN ${query || null}::text IS NULL THEN 1.0
+                ELSE (CASE WHEN LOWER(s.title) = LOWER(${query}) THEN 1.0 ELSE 0 END)
+                  + ts_rank(s.search_vector, q.simple_q || q.english_q)
+                  + word_similarity(${query}, s.search_titles)
+              END::float8 as relevance_score
+            FROM series s CROSS JOIN q
             WHERE 
-              (LOWER(s.title) LIKE '%' || LOWER(${query}) || '%'
-                OR s.alternative_titles::text ILIKE '%' || ${query} || '%'
-                OR s.description ILIKE '%' || ${query} || '%')
+              (${query || null}::text IS NULL
+                OR s.search_vector @@ (q.simple_q || q.english_q)
+                OR ${query} <% s.search_titles)
               AND (${status}::text IS NULL OR s.status = ${status})
               AND (${type}::text IS NULL OR s.type = ${type})
-            ORDER BY relevance_score DESC, s.updated_at DESC
-            LIMIT ${limit}
-            OFFSET ${offset}
-          ` as any[];
-        } else {
-          results = await sql`
-            SELECT s.id, s.title, s.alternative_titles, s.description, 
-              s.cover_url, s.status, s.type, s.rating, s.is_featured, s.updated_at,
-              COALESCE((SELECT COUNT(*) FROM chapters WHERE series_id = s.id), 0)::int as chapters_count,
-              1.0 as relevance_score
-            FROM series s
-            WHERE (${status}::text IS NULL OR s.status = ${status})
-              AND (${type}::text IS NULL OR s.type = ${type})
-            ORDER BY s.updated_at DESC
-            LIMIT ${limit}
-            OFFSET ${offset}
-          ` as any[];
-        }
-
-        // Filter by genres if provided
-        if (genres && genres.length > 0) {
-          const seriesIds = results.map((s) => s.id);
-          if (seriesIds.length > 0) {
-            const genreMatches = await sql`
-              SELECT DISTINCT series_id
-              FROM series_genres
-              WHERE series_id = ANY(${seriesIds})
-                AND genre_id = ANY(${genres})
-            `;
-            const matchingIds = new Set((genreMatches as any[]).map((g) => g.series_id));
-            results = results.filter((s) => matchingIds.has(s.id));
-          }
-        }
+              AND (${creator}::text IS NULL OR EXISTS (
+                SELECT 1 FROM series_creators sc
+                JOIN creators c ON c.id = sc.creator_id
+                WHERE sc.series_id = s.id AND c.slug = ${creator}
+              ))
+              AND (cardinality(${all}::uuid[]) = 0 OR (
+                SELECT COUNT(DISTINCT sg.genre_id) FROM series_genres sg
+                WHERE sg.series_id = s.id AND sg.genre_id = ANY(${all}::uuid[])
+              ) = cardinality(${all}::uuid[]))
+              AND (cardinality(${any}::uuid[]) = 0 OR EXISTS (
+                SELECT 1 FROM series_genres sg
+                WHERE sg.series_id = s.id AND sg.genre_id = ANY(${any}::uuid[])
+              ))
+              AND NOT EXISTS (
+                SELECT 1 FROM series_genres sg
+                WHERE sg.series_id = s.id AND sg.genre_id = ANY(${exclude}::uuid[])
+              )
+          ),
+          ranked AS (
+            SELECT *, COUNT(*) OVER()::int as total_count,
+              ROW_NUMBER() OVER (ORDER BY
+                CASE WHEN ${sortBy}::text = 'relevance' THEN relevance_score END DESC,
+                CASE WHEN ${sortBy}::text = 'rating' THEN rating END DESC NULLS LAST,
+                CASE WHEN ${sortBy}::text = 'views' THEN total_views END DESC,
+                CASE WHEN ${sortBy}::text = 'chapters' THEN chapters_count END DESC,
+                CASE WHEN ${sortBy}::text = 'title' THEN LOWER(title) END ASC,
+                CASE WHEN ${sortBy}::text <> 'title' THEN updated_at END DESC,
+                id ASC
+              ) as position
+            FROM matches
+          )
+          -- Highlights are only built for the rows on this page
+          SELECT r.id, r.slug, r.title, r.alternative_titles, r.description, r.cover_url, r.status, r.type,
+            r.rating, r.is_featured, r.updated_at, r.total_views, r.chapters_count,
+            r.relevance_score, r.total_count,
+            CASE WHEN ${query || null}::text IS NOT NULL AND to_tsvector('simple', r.title) @@ q.simple_q
+              THEN ts_headline('simple', r.title, q.simple_q, ${HIGHLIGHT_ALL})
+            END as title_highlight,
+            CASE WHEN ${query || null}::text IS NOT NULL
+                AND to_tsvector('simple', array_to_string(r.alternative_titles, ', ')) @@ q.simple_q
+              THEN ts_headline('simple', array_to_string(r.alternative_titles, ', '), q.simple_q, ${HIGHLIGHT_ALL})
+            END as alternative_titles_highlight,
+            CASE WHEN ${query || null}::text IS NOT NULL
+                AND to_tsvector('english', COALESCE(r.description, '')) @@ q.english_q
+              THEN ts_headline('english', r.description, q.english_q, ${HIGHLIGHT_SNIPPET})
+            END as snippet
+          FROM ranked r CROSS JOIN q
+          WHERE r.position > ${offset} AND r.position <= ${offset + limit}
+          ORDER BY r.position
+        `) as unknown[];
 
         result = results;
         break;
       }
 
       // ============ WRITE OPERATIONS (require admin) ============
-      case "create_series":
+      case "create_series": {
         if (!isAdmin) throw new Error("Unauthorized");
+        const slug = await seriesSlug(sql, params, null);
         result = await sql`
-          INSERT INTO series (title, alternative_titles, description, cover_url, banner_url, status, type, rating, is_featured)
-          VALUES (${params.title}, ${params.alternative_titles || []}, ${params.description || null}, 
+          INSERT INTO series (title, slug, alternative_titles, description, cover_url, banner_url, status, type, rating, is_featured, downloads_enabled, release_year, notifications_muted)
+          VALUES (${params.title}, ${slug}, ${params.alternative_titles || []}, ${params.description || null}, 
             ${params.cover_url || null}, ${params.banner_url || null}, ${params.status || "ongoing"}, 
-            ${params.type || "manhwa"}, ${params.rating || null}, ${params.is_featured || false})
+            ${params.type || "manhwa"}, ${params.rating || null}, ${params.is_featured || false},
+            ${params.downloads_enabled ?? true}, ${params.release_year ?? null}, ${params.notifications_muted ?? false})
           RETURNING *
         `;
         result = (result as unknown[])[0];
         break;
+      }
 
-      case "update_series":
+      case "update_series": {
         if (!isAdmin) throw new Error("Unauthorized");
+        // The slug only changes when one is passed explicitly; renaming a
+        // series keeps its URL. The old slug goes to history so links to it
+        // still resolve, and reclaiming a previous slug removes it from there.
+        let newSlug: string | null = null;
+        if (typeof params.slug === "string" && params.slug.trim()) {
+          const current = await sql`SELECT slug FROM series WHERE id = ${params.id}`;
+          if (current.length > 0 && current[0].slug !== params.slug.trim()) {
+            newSlug = await seriesSlug(sql, params, params.id as string);
+            await sql`
+              INSERT INTO series_slug_history (slug, series_id)
+              VALUES (${current[0].slug}, ${params.id})
+              ON CONFLICT (slug) DO UPDATE SET series_id = EXCLUDED.series_id, created_at = NOW()
+            `;
+            await sql`DELETE FROM series_slug_history WHERE slug = ${newSlug}`;
+          }
+        }
         result = await sql`
           UPDATE series SET
             title = COALESCE(${params.title}, title),
+            slug = COALESCE(${newSlug}, slug),
             alternative_titles = COALESCE(${params.alternative_titles}, alternative_titles),
             description = COALESCE(${params.description}, description),
             cover_url = COALESCE(${params.cover_url}, cover_url),
@@ -415,19 +766,34 @@ Deno.serve(async (req) => {
             status = COALESCE(${params.status}, status),
             type = COALESCE(${params.type}, type),
             rating = ${params.rating},
+            release_year = ${params.release_year ?? null},
             is_featured = COALESCE(${params.is_featured}, is_featured),
+            downloads_enabled = COALESCE(${params.downloads_enabled}, downloads_enabled),
+            notifications_muted = COALESCE(${params.notifications_muted}, notifications_muted),
             updated_at = NOW()
           WHERE id = ${params.id}
           RETURNING *
         `;
         result = (result as unknown[])[0];
         break;
+      }
 
-      case "delete_series":
+      // Deletes also return the storage URLs of the removed rows' files, which
+      // the client deletes from storage once the rows are gone
+      case "delete_series": {
         if (!isAdmin) throw new Error("Unauthorized");
-        await sql`DELETE FROM series WHERE id = ${params.id}`;
-        result = { success: true };
+        const chapterFiles = await chapterFileUrls(sql, params.id, null);
+        const [deletedSeries] = (await sql`
+          DELETE FROM series WHERE id = ${params.id}
+          RETURNING cover_url, banner_url
+        `) as { cover_url: string | null; banner_url: string | null }[];
+        const seriesFiles = deletedSeries ? [deletedSeries.cover_url, deletedSeries.banner_url] : [];
+        result = {
+          success: true,
+          removed_urls: [...chapterFiles, ...seriesFiles.filter((url): url is string => !!url)],
+        };
         break;
+      }
 
       case "create_chapter":
         if (!isAdmin) throw new Error("Unauthorized");
@@ -443,8 +809,9 @@ Deno.serve(async (req) => {
         if (params.pages && Array.isArray(params.pages)) {
           for (const page of params.pages) {
             await sql`
-              INSERT INTO chapter_pages (chapter_id, page_number, image_url)
-              VALUES (${chapterId}, ${page.page_number}, ${page.image_url})
+              INSERT INTO chapter_pages (chapter_id, page_number, image_url, width, height, variants)
+              VALUES (${chapterId}, ${page.page_number}, ${page.image_url},
+                ${page.width ?? null}, ${page.height ?? null}, ${JSON.stringify(page.variants ?? [])}::jsonb)
             `;
           }
         }
@@ -452,6 +819,8 @@ Deno.serve(async (req) => {
         // Update series updated_at
         await sql`UPDATE series SET updated_at = NOW() WHERE id = ${params.series_id}`;
 
+        await queueChapterNotifications(sql, chapterId, params.series_id as string);
+
         result = (newChapter as unknown[])[0];
         break;
 
@@ -467,11 +836,101 @@ Deno.serve(async (req) => {
         result = (result as unknown[])[0];
         break;
 
-      case "delete_chapter":
+      // Replaces a chapter's page list in one statement. params.pages is the
+      // new order: entries with an id keep (or replace the image of) that
+      // page, entries without one are inserted, and missing pages are
+      // deleted. Returns the new pages plus file URLs no longer referenced,
+      // which the client removes from storage.
+      case "update_chapter_pages": {
         if (!isAdmin) throw new Error("Unauthorized");
+        const pageList = Array.isArray(params.pages)
+          ? (params.pages as {
+              id?: string | null;
+              image_url: string;
+              width?: number | null;
+              height?: number | null;
+              variants?: { url: string }[];
+            }[])
+          : [];
+        const [chapter] = (await sql`
+          SELECT chapter_type FROM chapters WHERE id = ${params.chapter_id}
+        `) as { chapter_type: string }[];
+        if (!chapter) throw new Error("Chapter not found");
+        if (chapter.chapter_type !== "images") throw new Error("Only image chapters have pages");
+        if (pageList.length === 0) throw new Error("A chapter needs at least one page");
+        if (pageList.some((page) => typeof page.image_url !== "string" || !page.image_url)) {
+          throw new Error("Every page needs an image");
+        }
+
+        const keptIds = pageList.map((page) => page.id).filter((id): id is string => !!id);
+        if (new Set(keptIds).size !== keptIds.length) throw new Error("A page can only appear once");
+        const existing = (await sql`
+          SELECT id, image_url, variants FROM chapter_pages WHERE chapter_id = ${params.chapter_id}
+        `) as { id: string; image_url: string; variants: { url: string }[] }[];
+        const existingIds = new Set(existing.map((page) => page.id));
+        if (keptIds.some((id) => !existingIds.has(id))) {
+          throw new Error("Page does not belong to this chapter");
+        }
+
+        const input = pageList.map((page, index) => ({
+          id: page.id || null,
+          image_url: page.image_url,
+          width: page.width ?? null,
+          height: page.height ?? null,
+          variants: page.variants ?? [],
+          page_number: index + 1,
+        }));
+        // All parts of a data-modifying WITH run atomically on one snapshot
+        await sql`
+          WITH input AS (
+            SELECT * FROM jsonb_to_recordset(${JSON.stringify(input)}::jsonb)
+              AS p(id uuid, image_url text, width int, height int, variants jsonb, page_number int)
+          ),
+          removed AS (
+            DELETE FROM chapter_pages
+            WHERE chapter_id = ${params.chapter_id}
+              AND id NOT IN (SELECT id FROM input WHERE id IS NOT NULL)
+          ),
+          changed AS (
+            UPDATE chapter_pages cp SET
+              page_number = i.page_number,
+              image_url = i.image_url,
+              width = i.width,
+              height = i.height,
+              variants = i.variants
+            FROM input i
+            WHERE cp.id = i.id AND cp.chapter_id = ${params.chapter_id}
+          )
+          INSERT INTO chapter_pages (chapter_id, page_number, image_url, width, height, variants)
+          SELECT ${params.chapter_id}, page_number, image_url, width, height, variants
+          FROM input WHERE id IS NULL
+        `;
+
+        // Every stored file of a page: the main image and its variants
+        const pageUrls = (page: { image_url: string; variants: { url: string }[] }) => [
+          page.image_url,
+          ...page.variants.map((variant) => variant.url),
+        ];
+        const keptUrls = new Set(input.flatMap(pageUrls));
+        result = {
+          pages: await sql`
+            SELECT * FROM chapter_pages WHERE chapter_id = ${params.chapter_id}
+            ORDER BY page_number ASC
+          `,
+          removed_urls: [
+            ...new Set(existing.flatMap(pageUrls).filter((url) => !keptUrls.has(url))),
+          ],
+        };
+        break;
+      }
+
+      case "delete_chapter": {
+        if (!isAdmin) throw new Error("Unauthorized");
+        const removedUrls = await chapterFileUrls(sql, null, params.id);
         await sql`DELETE FROM chapters WHERE id = ${params.id}`;
-        result = { success: true };
+        result = { success: true, removed_urls: removedUrls };
         break;
+      }
 
       case "create_genre":
         if (!isAdmin) throw new Error("Unauthorized");
@@ -513,6 +972,87 @@ Deno.serve(async (req) => {
         result = { success: true };
         break;
 
+      case "create_creator": {
+        if (!isAdmin) throw new Error("Unauthorized");
+        const slug = await creatorSlug(sql, params, null);
+        result = await sql`
+          INSERT INTO creators (name, slug, bio)
+          VALUES (${params.name}, ${slug}, ${params.bio || null})
+          RETURNING *
+        `;
+        result = (result as unknown[])[0];
+        break;
+      }
+
+      case "update_creator": {
+        if (!isAdmin) throw new Error("Unauthorized");
+        // Renaming keeps the slug, so /creator/:slug links keep working; it
+        // only changes when one is passed explicitly
+        const slug =
+          typeof params.slug === "string" && params.slug.trim()
+            ? await creatorSlug(sql, params, params.id as string)
+            : null;
+        result = await sql`
+          UPDATE creators SET
+            name = ${params.name},
+            slug = COALESCE(${slug}, slug),
+            bio = ${params.bio || null}
+          WHERE id = ${params.id}
+          RETURNING *
+        `;
+        result = (result as unknown[])[0];
+        break;
+      }
+
+      case "delete_creator":
+        if (!isAdmin) throw new Error("Unauthorized");
+        await sql`DELETE FROM creators WHERE id = ${params.id}`;
+        result = { success: true };
+        break;
+
+      case "update_series_creators": {
+        if (!isAdmin) throw new Error("Unauthorized");
+        const links = Array.isArray(params.creators)
+          ? (params.creators as { creator_id: string; role: string }[])
+          : [];
+        if (links.some((link) => !CREATOR_ROLES.includes(link.role))) {
+          throw new Error("Invalid creator role");
+        }
+        await sql`DELETE FROM series_creators WHERE series_id = ${params.series_id}`;
+        for (const link of links) {
+          await sql`
+            INSERT INTO series_creators (series_id, creator_id, role)
+            VALUES (${params.series_id}, ${link.creator_id}, ${link.role})
+            ON CONFLICT (series_id, creator_id, role) DO NOTHING
+          `;
+        }
+        result = { success: true };
+        break;
+      }
+
+      case "update_series_relations": {
+        if (!isAdmin) throw new Error("Unauthorized");
+        const relations = Array.isArray(params.relations)
+          ? (params.relations as { related_series_id: string; relation_type: string }[])
+          : [];
+        if (relations.some((rel) => !RELATION_TYPES.includes(rel.relation_type))) {
+          throw new Error("Invalid relation type");
+        }
+        if (relations.some((rel) => rel.related_series_id === params.series_id)) {
+          throw new Error("A series can't be related to itself");
+        }
+        await sql`DELETE FROM series_relations WHERE series_id = ${params.series_id}`;
+        for (const rel of relations) {
+          await sql`
+            INSERT INTO series_relations (series_id, related_series_id, relation_type)
+            VALUES (${params.series_id}, ${rel.related_series_id}, ${rel.relation_type})
+            ON CONFLICT (series_id, related_series_id) DO UPDATE SET relation_type = EXCLUDED.relation_type
+          `;
+        }
+        result = { success: true };
+        break;
+      }
+
       case "record_chapter_view": {
         const viewerHash = params.viewer_hash;
         const chapterId = params.chapter_id;
@@ -554,6 +1094,147 @@ Deno.serve(async (req) => {
         break;
       }
 
+      // ============ READER OPERATIONS (require Telegram login) ============
+      case "get_reading_progress": {
+        if (!reader) {
+          result = null;
+          break;
+        }
+        const progress = await sql`
+          SELECT rp.*, c.chapter_number
+          FROM reading_progress rp
+          JOIN chapters c ON c.id = rp.chapter_id
+          WHERE rp.telegram_id = ${reader.telegram_id}
+            AND rp.series_id = ${params.series_id}
+        `;
+        result = (progress as unknown[])[0] || null;
+        break;
+      }
+
+      case "save_reading_progress": {
+        if (!reader) throw new Error("Unauthorized");
+        const pageNumber = Math.max(1, Math.floor(Number(params.page_number) || 1));
+        const scrollOffset = Math.min(1, Math.max(0, Number(params.scroll_offset) || 0));
+        // Only a chapter of the same series is stored, so the resume link
+        // can't point into another series
+        const saved = await sql`
+          INSERT INTO reading_progress (telegram_id, series_id, chapter_id, page_number, scroll_offset)
+          SELECT ${reader.telegram_id}, ${params.series_id}, ${params.chapter_id}, ${pageNumber}, ${scrollOffset}
+          WHERE EXISTS (
+            SELECT 1 FROM chapters WHERE id = ${params.chapter_id} AND series_id = ${params.series_id}
+          )
+          ON CONFLICT (telegram_id, series_id) DO UPDATE SET
+            chapter_id = EXCLUDED.chapter_id,
+            page_number = EXCLUDED.page_number,
+            scroll_offset = EXCLUDED.scroll_offset,
+            updated_at = NOW()
+          RETURNING *
+        `;
+        if (saved.length === 0) throw new Error("Chapter not found in this series");
+        result = saved[0];
+        break;
+      }
+
+      case "get_follow_status": {
+        if (!reader) {
+          result = { following: false, notify: false };
+          break;
+        }
+        const follow = await sql`
+          SELECT notify FROM series_follows
+          WHERE telegram_id = ${reader.telegram_id} AND series_id = ${params.series_id}
+        `;
+        result = { following: follow.length > 0, notify: follow[0]?.notify ?? false };
+        break;
+      }
+
+      // Opt in or out of Telegram DMs for new chapters of a followed series
+      case "set_follow_notify":
+        if (!reader) throw new Error("Unauthorized");
+        await sql`
+          UPDATE series_follows SET notify = ${params.notify === true}
+          WHERE telegram_id = ${reader.telegram_id} AND series_id = ${params.series_id}
+        `;
+        result = { success: true, notify: params.notify === true };
+        break;
+
+      case "follow_series":
+        if (!reader) throw new Error("Unauthorized");
+        await sql`
+          INSERT INTO series_follows (telegram_id, series_id)
+          VALUES (${reader.telegram_id}, ${params.series_id})
+          ON CONFLICT (telegram_id, series_id) DO NOTHING
+        `;
+        result = { success: true, following: true };
+        break;
+
+      case "unfollow_series":
+        if (!reader) throw new Error("Unauthorized");
+        await sql`
+          DELETE FROM series_follows
+          WHERE telegram_id = ${reader.telegram_id} AND series_id = ${params.series_id}
+        `;
+        result = { success: true, following: false };
+        break;
+
+      case "get_library":
+        if (!reader) throw new Error("Unauthorized");
+        // Unread = chapters released after the last chapter the reader opened
+        result = await sql`
+          SELECT s.id, s.slug, s.title, s.cover_url, s.status, s.type, sf.created_at as followed_at,
+            rp.chapter_id as last_read_chapter_id,
+            lc.chapter_number as last_read_chapter_number,
+            rp.updated_at as last_read_at,
+            (SELECT MAX(created_at) FROM chapters WHERE series_id = s.id) as latest_chapter_at,
+            COALESCE((SELECT COUNT(*) FROM chapters WHERE series_id = s.id), 0)::int as chapters_count,
+            COALESCE((
+              SELECT COUNT(*) FROM chapters c
+              WHERE c.series_id = s.id
+                AND (lc.created_at IS NULL OR c.created_at > lc.created_at)
+            ), 0)::int as unread_count
+          FROM series_follows sf
+          JOIN series s ON s.id = sf.series_id
+          LEFT JOIN reading_progress rp ON rp.telegram_id = sf.telegram_id AND rp.series_id = s.id
+          LEFT JOIN chapters lc ON lc.id = rp.chapter_id
+          WHERE sf.telegram_id = ${reader.telegram_id}
+          ORDER BY latest_chapter_at DESC NULLS LAST, sf.created_at DESC
+        `;
+        break;
+
+      case "get_reader_settings": {
+        if (!reader) {
+          result = null;
+          break;
+        }
+        const settingsRows = await sql`
+          SELECT settings, updated_at FROM reader_settings
+          WHERE telegram_id = ${reader.telegram_id}
+        `;
+        result = (settingsRows as unknown[])[0] || null;
+        break;
+      }
+
+      case "save_reader_settings": {
+        if (!reader) throw new Error("Unauthorized");
+        const settings = params.settings;
+        if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+          throw new Error("Invalid settings");
+        }
+        if (JSON.stringify(settings).length > 4000) {
+          throw new Error("Settings too large");
+        }
+        result = await sql`
+          INSERT INTO reader_settings (telegram_id, settings)
+          VALUES (${reader.telegram_id}, ${JSON.stringify(settings)}::jsonb)
+          ON CONFLICT (telegram_id) DO UPDATE SET
+            settings = EXCLUDED.settings,
+            updated_at = NOW()
+          RETURNING settings, updated_at
+        `;
+        result = (result as unknown[])[0];
+        break;
+      }
+
       default:
         throw new Error(`Unknown action: ${action}`);
     }
@@ -571,18 +1252,189 @@ Deno.serve(async (req) => {
   }
 });
 
+// Genre filter sets shared by browse and search: series must have every genre
+// in genres_all, at least one in genres_any (filter_genres is the older name
+// for it), and none in genres_exclude
+function genreSets(params: Record<string, unknown>) {
+  const ids = (value: unknown): string[] =>
+    Array.isArray(value)
+      ? [...new Set(value.filter((v): v is string => typeof v === "string"))]
+      : [];
+  return {
+    all: ids(params.genres_all),
+    any: ids(params.genres_any ?? params.filter_genres),
+    exclude: ids(params.genres_exclude),
+  };
+}
+
+// Lowercase ASCII words joined by hyphens, e.g. "Solo Leveling: Ragnarok" ->
+// "solo-leveling-ragnarok". Text with no Latin letters gives the fallback.
+function slugify(text: string, fallback: string) {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || fallback;
+}
+
+// Picks the slug to store for a series. An explicit params.slug must be valid
+// and not used (now or previously) by another series; otherwise the slug is
+// derived from the title and numbered past any that are taken.
+async function seriesSlug(
+  sql: ReturnType<typeof neon>,
+  params: Record<string, unknown>,
+  seriesId: string | null,
+): Promise<string> {
+  const requested = typeof params.slug === "string" ? params.slug.trim() : "";
+  if (requested && (!SLUG_PATTERN.test(requested) || UUID_PATTERN.test(requested))) {
+    throw new Error("Invalid slug: use lowercase letters, numbers and hyphens");
+  }
+  const base = requested || slugify(String(params.title ?? ""), "series");
+  const prefix = `${escapeLike(base)}-%`;
+  const rows = await sql`
+    SELECT slug FROM series
+    WHERE (slug = ${base} OR slug LIKE ${prefix}) AND id IS DISTINCT FROM ${seriesId}::uuid
+    UNION
+    SELECT slug FROM series_slug_history
+    WHERE (slug = ${base} OR slug LIKE ${prefix}) AND series_id IS DISTINCT FROM ${seriesId}::uuid
+  `;
+  const taken = new Set(rows.map((row) => row.slug as string));
+  if (!taken.has(base)) return base;
+  if (requested) throw new Error(`The slug "${base}" is already in use`);
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+// Picks the slug to store for a creator, like seriesSlug: an explicit
+// params.slug must be valid and free, otherwise it comes from the name and is
+// numbered past any that are taken
+async function creatorSlug(
+  sql: ReturnType<typeof neon>,
+  params: Record<string, unknown>,
+  creatorId: string | null,
+): Promise<string> {
+  const requested = typeof params.slug === "string" ? params.slug.trim() : "";
+  if (requested && (!SLUG_PATTERN.test(requested) || UUID_PATTERN.test(requested))) {
+    throw new Error("Invalid slug: use lowercase letters, numbers and hyphens");
+  }
+  const base = requested || slugify(String(params.name ?? ""), "creator");
+  const rows = await sql`
+    SELECT slug FROM creators
+    WHERE (slug = ${base} OR slug LIKE ${`${escapeLike(base)}-%`})
+      AND id IS DISTINCT FROM ${creatorId}::uuid
+  `;
+  const taken = new Set(rows.map((row) => row.slug as string));
+  if (!taken.has(base)) return base;
+  if (requested) throw new Error(`The slug "${base}" is already in use`);
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+// Storage URLs of chapter files (PDFs, page images and their variants) for
+// one chapter, or with chapterId null for every chapter of a series
+async function chapterFileUrls(
+  sql: ReturnType<typeof neon>,
+  seriesId: unknown,
+  chapterId: unknown,
+): Promise<string[]> {
+  const rows = (await sql`
+    WITH target AS (
+      SELECT id, pdf_url FROM chapters
+      WHERE (${seriesId ?? null}::uuid IS NULL OR series_id = ${seriesId ?? null}::uuid)
+        AND (${chapterId ?? null}::uuid IS NULL OR id = ${chapterId ?? null}::uuid)
+    )
+    SELECT pdf_url AS url FROM target WHERE pdf_url IS NOT NULL
+    UNION
+    SELECT p.image_url FROM chapter_pages p JOIN target t ON t.id = p.chapter_id
+    UNION
+    SELECT v->>'url' FROM chapter_pages p JOIN target t ON t.id = p.chapter_id
+    CROSS JOIN jsonb_array_elements(p.variants) v
+  `) as { url: string }[];
+  return rows.map((row) => row.url);
+}
+
+// Queues the Telegram channel post and follower DMs for a new chapter, then
+// asks the notify function to send them. Muted series queue nothing.
+async function queueChapterNotifications(
+  sql: ReturnType<typeof neon>,
+  chapterId: string,
+  seriesId: string,
+) {
+  const channelId = Deno.env.get("TELEGRAM_CHANNEL_ID") || null;
+  const queued = await sql`
+    INSERT INTO notification_queue (chapter_id, chat_id, kind)
+    SELECT ${chapterId}, ${channelId}, 'channel'
+    FROM series WHERE id = ${seriesId} AND NOT notifications_muted AND ${channelId}::text IS NOT NULL
+    UNION ALL
+    SELECT ${chapterId}, sf.telegram_id::text, 'follower'
+    FROM series_follows sf
+    JOIN series s ON s.id = sf.series_id
+    WHERE sf.series_id = ${seriesId} AND sf.notify AND NOT s.notifications_muted
+    ON CONFLICT (chapter_id, chat_id) DO NOTHING
+    RETURNING id
+  `;
+
+  const secret = Deno.env.get("NOTIFY_SECRET");
+  if (queued.length === 0 || !secret) return;
+  // Don't hold up the admin's request; anything not sent now is picked up by
+  // the next scheduled run of the notify function
+  const send = fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/notify`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  })
+    .then((response) => response.body?.cancel())
+    .catch((error) => console.error("Failed to trigger notify:", error));
+  if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(send);
+}
+
+// Escape LIKE wildcards so user input only matches literally
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+// Numeric filter params arrive as numbers or query-string text; blank means unset
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
 async function verifyAdminToken(cookieHeader: string): Promise<boolean> {
-  const match = cookieHeader.match(/(?:^|;\s*)admin_token=([^;]*)/);
-  if (!match) return false;
-  
-  const token = match[1];
+  const payload = await verifyJWT(extractCookie(cookieHeader, "admin_token"));
+  return payload?.role === "admin";
+}
+
+interface TelegramReader {
+  telegram_id: number;
+  telegram_username: string | null;
+  telegram_name: string;
+}
+
+async function verifyTelegramToken(cookieHeader: string): Promise<TelegramReader | null> {
+  const payload = await verifyJWT(extractCookie(cookieHeader, "tg_auth"));
+  if (!payload || typeof payload.telegram_id !== "number") return null;
+  return payload as unknown as TelegramReader;
+}
+
+function extractCookie(cookieHeader: string, name: string): string | null {
+  const match = cookieHeader.match(new RegExp(`(?:^|;\\s*)${name}=([^;]*)`));
+  return match ? match[1] : null;
+}
+
+async function verifyJWT(token: string | null): Promise<Record<string, unknown> | null> {
+  if (!token) return null;
+
   const secret = Deno.env.get("ADMIN_JWT_SECRET");
-  if (!secret) return false;
+  if (!secret) return null;
 
   try {
     // Decode JWT manually (simple HS256 verification)
     const [headerB64, payloadB64, signatureB64] = token.split(".");
-    if (!headerB64 || !payloadB64 || !signatureB64) return false;
+    if (!headerB64 || !payloadB64 || !signatureB64) return null;
 
     // Verify signature
     const encoder = new TextEncoder();
@@ -606,17 +1458,17 @@ async function verifyAdminToken(cookieHeader: string): Promise<boolean> {
       encoder.encode(signatureInput)
     );
 
-    if (!valid) return false;
+    if (!valid) return null;
 
     // Check expiration
     const payload = JSON.parse(atob(payloadB64.replace(/-/g, '+').replace(/_/g, '/')));
     if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-      return false;
+      return null;
     }
 
-    return payload.role === "admin";
+    return payload;
   } catch {
-    return false;
+    return null;
   }
 }
 
@@ -0,0 +1,416 @@
+import { neon } from "https://esm.sh/@neondatabase/serverless@0.10.4";
+import { Zip, ZipPassThrough } from "https://esm.sh/fflate@0.8.2";
+import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("Origin") || "*";
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, cookie",
+    "Access-Control-Allow-Credentials": "true",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Expose-Headers": "Content-Disposition",
+  };
+}
+
+// Simple in-memory rate limiter, keyed by Telegram user or client IP
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+const RATE_LIMIT_WINDOW = 10 * 60 * 1000;
+const RATE_LIMIT_MAX = 10;
+
+function checkRateLimit(viewer: string): boolean {
+  const now = Date.now();
+  const entry = rateLimitMap.get(viewer);
+
+  if (!entry || now > entry.resetAt) {
+    rateLimitMap.set(viewer, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (entry.count >= RATE_LIMIT_MAX) {
+    return false; // Max 10 exports per 10 minutes
+  }
+
+  entry.count++;
+  return true;
+}
+
+interface ExportChapter {
+  id: string;
+  chapter_number: number;
+  title: string | null;
+  chapter_type: string;
+  pdf_url: string | null;
+  created_at: string;
+  series_id: string;
+  series_title: string;
+  series_description: string | null;
+  series_type: string;
+  series_status: string;
+  downloads_enabled: boolean;
+  genres: string[];
+}
+
+interface ExportPage {
+  page_number: number;
+  image_url: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// ComicInfo.xml (Anansi schema v2.0) read by most comic apps
+function buildComicInfo(chapter: ExportChapter, pageCount: number): string {
+  const created = new Date(chapter.created_at);
+  const fields: [string, string | number | null][] = [
+    ["Title", chapter.title],
+    ["Series", chapter.series_title],
+    ["Number", chapter.chapter_number],
+    ["Summary", chapter.series_description],
+    ["Year", created.getUTCFullYear()],
+    ["Month", created.getUTCMonth() + 1],
+    ["Day", created.getUTCDate()],
+    ["Genre", chapter.genres.length > 0 ? chapter.genres.join(", ") : null],
+    ["PageCount", pageCount],
+    ["Manga", chapter.series_type === "manga" ? "YesAndRightToLeft" : "No"],
+  ];
+
+  const body = fields
+    .filter(([, value]) => value !== null && value !== "")
+    .map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`)
+    .join("\n");
+  const pages = Array.from({ length: pageCount }, (_, i) =>
+    i === 0 ? `    <Page Image="0" Type="FrontCover" />` : `    <Page Image="${i}" />`
+  ).join("\n");
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+${body}
+  <Pages>
+${pages}
+  </Pages>
+</ComicInfo>
+`;
+}
+
+function imageExtension(url: string, contentType: string | null): string {
+  if (contentType?.includes("png")) return "png";
+  if (contentType?.includes("webp")) return "webp";
+  if (contentType?.includes("gif")) return "gif";
+  if (contentType?.includes("avif")) return "avif";
+  if (contentType?.includes("jpeg") || contentType?.includes("jpg")) return "jpg";
+  const match = new URL(url).pathname.match(/\.(\w{3,4})$/);
+  return match ? match[1].toLowerCase() : "jpg";
+}
+
+async function fetchPage(page: ExportPage) {
+  const response = await fetch(page.image_url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch page ${page.page_number}: ${response.status}`);
+  }
+  return {
+    bytes: new Uint8Array(await response.arrayBuffer()),
+    ext: imageExtension(page.image_url, response.headers.get("Content-Type")),
+  };
+}
+
+// Stream the archive as each page is fetched instead of buffering the chapter
+function streamCbz(chapter: ExportChapter, pages: ExportPage[]): ReadableStream<Uint8Array> {
+  const pad = Math.max(3, String(pages.length).length);
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const zip = new Zip((err, chunk, final) => {
+        if (err) {
+          controller.error(err);
+          return;
+        }
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+
+      // Images are already compressed, so store them as-is
+      const addFile = (name: string, data: Uint8Array) => {
+        const file = new ZipPassThrough(name);
+        zip.add(file);
+        file.push(data, true);
+      };
+
+      try {
+        addFile("ComicInfo.xml", new TextEncoder().encode(buildComicInfo(chapter, pages.length)));
+        for (const [i, page] of pages.entries()) {
+          const { bytes, ext } = await fetchPage(page);
+          addFile(`${String(i + 1).padStart(pad, "0")}.${ext}`, bytes);
+        }
+        zip.end();
+      } catch (error) {
+        console.error("CBZ export error:", error);
+        zip.terminate();
+        controller.error(error);
+      }
+    },
+  });
+}
+
+function isPng(bytes: Uint8Array) {
+  return bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+}
+
+function isJpeg(bytes: Uint8Array) {
+  return bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+// One PDF page per image, sized to the image
+async function buildPdf(chapter: ExportChapter, pages: ExportPage[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${chapter.series_title} - Chapter ${chapter.chapter_number}`);
+  pdf.setSubject(chapter.title || "");
+  pdf.setCreator("BnToon");
+
+  for (const page of pages) {
+    const { bytes } = await fetchPage(page);
+    let image;
+    if (isJpeg(bytes)) image = await pdf.embedJpg(bytes);
+    else if (isPng(bytes)) image = await pdf.embedPng(bytes);
+    else throw new Error(`Page ${page.page_number} can't be added to a PDF (only JPEG and PNG are supported)`);
+
+    const pdfPage = pdf.addPage([image.width, image.height]);
+    pdfPage.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  }
+
+  return pdf.save();
+}
+
+function exportFileName(chapter: ExportChapter, ext: string) {
+  const base = `${chapter.series_title} - Chapter ${chapter.chapter_number}`
+    .replace(/[\\/:*?"<>|]+/g, "")
+    .trim();
+  return `${base}.${ext}`;
+}
+
+function contentDisposition(fileName: string) {
+  const ascii = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+function normalizeNeonConnectionString(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  if (trimmed.toLowerCase().startsWith("psql")) {
+    const quoted = trimmed.match(/psql\s+['"]([^'"]+)['"]/i);
+    if (quoted?.[1]) return quoted[1].trim();
+    const parts = trimmed.split(/\s+/).filter(Boolean);
+    const maybeUrl = parts[1];
+    if (maybeUrl) return maybeUrl.replace(/^['"]|['"]$/g, "").trim();
+  }
+  return trimmed.replace(/^['"]|['"]$/g, "").trim();
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const jsonError = (error: string, status: number) =>
+    new Response(JSON.stringify({ error }), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (req.method !== "GET") {
+    return jsonError("Method not allowed", 405);
+  }
+
+  try {
+    const neonConnectionString = normalizeNeonConnectionString(
+      Deno.env.get("NEON_DATABASE_URL")
+    );
+    if (!neonConnectionString) {
+      throw new Error("Database not configured");
+    }
+
+    const sql = neon(neonConnectionString);
+    const jwtSecret = Deno.env.get("ADMIN_JWT_SECRET");
+
+    const url = new URL(req.url);
+    const chapterId = url.searchParams.get("chapterId");
+    const format = url.searchParams.get("format") || "cbz";
+
+    if (!chapterId) {
+      return jsonError("chapterId is required", 400);
+    }
+    if (format !== "cbz" && format !== "pdf") {
+      return jsonError("format must be cbz or pdf", 400);
+    }
+
+    const rows = await sql`
+      SELECT c.id, c.chapter_number, c.title, c.chapter_type, c.pdf_url, c.created_at,
+        s.id as series_id, s.title as series_title, s.description as series_description,
+        s.type as series_type, s.status as series_status, s.downloads_enabled,
+        COALESCE(
+          (SELECT array_agg(g.name ORDER BY g.name)
+           FROM series_genres sg JOIN genres g ON g.id = sg.genre_id
+           WHERE sg.series_id = s.id),
+          '{}'
+        ) as genres
+      FROM chapters c
+      JOIN series s ON s.id = c.series_id
+      WHERE c.id = ${chapterId}
+    `;
+    const chapter = (rows as ExportChapter[])[0];
+
+    if (!chapter) {
+      return jsonError("Chapter not found", 404);
+    }
+    if (!chapter.downloads_enabled) {
+      return jsonError("Downloads are disabled for this series", 403);
+    }
+
+    // Signed-in readers are limited per account, everyone else per IP
+    const cookieHeader = req.headers.get("cookie") || "";
+    const authToken = extractCookie(cookieHeader, "tg_auth");
+    const user = authToken && jwtSecret ? await verifyJWT(authToken, jwtSecret) : null;
+    const viewer = user
+      ? `tg:${user.telegram_id}`
+      : `ip:${req.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown"}`;
+
+    if (!checkRateLimit(viewer)) {
+      return jsonError("Rate limit exceeded. Please wait before downloading again.", 429);
+    }
+
+    // PDF chapters are already a single file; pass it through with a proper file name
+    if (chapter.chapter_type === "pdf") {
+      if (format === "cbz" || !chapter.pdf_url) {
+        return jsonError("PDF chapters can only be downloaded as PDF", 400);
+      }
+      const upstream = await fetch(chapter.pdf_url);
+      if (!upstream.ok || !upstream.body) {
+        throw new Error(`Failed to fetch PDF: ${upstream.status}`);
+      }
+      return new Response(upstream.body, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/pdf",
+          "Content-Disposition": contentDisposition(exportFileName(chapter, "pdf")),
+        },
+      });
+    }
+
+    // Processed pages store WebP as image_url; their JPEG variant is what
+    // PDFs can embed and what comic readers open most reliably
+    const pages = (await sql`
+      SELECT page_number,
+        COALESCE(
+          (SELECT v->>'url' FROM jsonb_array_elements(variants) v
+           WHERE v->>'format' = 'jpeg'
+           ORDER BY (v->>'width')::int DESC
+           LIMIT 1),
+          image_url
+        ) AS image_url
+      FROM chapter_pages
+      WHERE chapter_id = ${chapterId}
+      ORDER BY page_number ASC
+    `) as ExportPage[];
+
+    if (pages.length === 0) {
+      return jsonError("Chapter has no pages", 404);
+    }
+
+    if (format === "pdf") {
+      const pdf = await buildPdf(chapter, pages);
+      return new Response(pdf, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/pdf",
+          "Content-Disposition": contentDisposition(exportFileName(chapter, "pdf")),
+        },
+      });
+    }
+
+    return new Response(streamCbz(chapter, pages), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/vnd.comicbook+zip",
+        "Content-Disposition": contentDisposition(exportFileName(chapter, "cbz")),
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    return jsonError(error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
+
+function extractCookie(cookieHeader: string, name: string): string | null {
+  const match = cookieHeader.match(new RegExp(`(?:^|;\\s*)${name}=([^;]*)`));
+  return match ? match[1] : null;
+}
+
+interface JWTPayload {
+  telegram_id: number;
+  telegram_username: string | null;
+  telegram_name: string;
+  exp: number;
+}
+
+async function verifyJWT(token: string, secret: string): Promise<JWTPayload | null> {
+  try {
+    const [headerB64, payloadB64, signatureB64] = token.split(".");
+    if (!headerB64 || !payloadB64 || !signatureB64) return null;
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+
+    const signatureInput = `${headerB64}.${payloadB64}`;
+    const signature = base64UrlDecode(signatureB64);
+    const signatureBuffer = new ArrayBuffer(signature.length);
+    new Uint8Array(signatureBuffer).set(signature);
+
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      signatureBuffer,
+      encoder.encode(signatureInput)
+    );
+
+    if (!valid) return null;
+
+    const payload = JSON.parse(
+      atob(payloadB64.replace(/-/g, "+").replace(/_/g, "/"))
+    ) as JWTPayload;
+
+    if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function base64UrlDecode(str: string): Uint8Array {
+  const base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(base64 + padding);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,315 @@
+// Atom and RSS feeds of new chapters, for feed readers and Telegram RSS bots.
+//   /                 latest chapters across all series
+//   /series/<slug>    chapters of one series (ids and previous slugs also work)
+// Atom is served by default; add ?format=rss for RSS 2.0. Responses carry an
+// ETag and Last-Modified so pollers can revalidate with a 304.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
+const DB_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/db`;
+const FEED_URL = `${SUPABASE_URL}/functions/v1/feed`;
+const SITE_URL = Deno.env.get("SITE_URL") || "";
+
+// Items per feed; the global feed draws on this many recently updated series
+const FEED_LIMIT = 50;
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("Origin") || "*";
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, if-none-match, if-modified-since",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Expose-Headers": "ETag, Last-Modified",
+  };
+}
+
+// ============ DATA (db function actions) ============
+
+interface SeriesRow {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  cover_url: string | null;
+  updated_at: string;
+}
+
+interface ChapterRow {
+  id: string;
+  chapter_number: number;
+  title: string | null;
+  created_at: string;
+}
+
+async function dbAction<T>(action: string, params: Record<string, unknown> = {}): Promise<T> {
+  const response = await fetch(DB_FUNCTION_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, params }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `${action} failed`);
+  }
+  return result.data as T;
+}
+
+// ============ FEED MODEL ============
+
+interface FeedItem {
+  id: string;
+  title: string;
+  link: string;
+  published: string;
+  summary: string | null;
+  image: string | null;
+}
+
+interface Feed {
+  id: string;
+  title: string;
+  description: string;
+  // Feed URL without the format parameter
+  self: string;
+  link: string;
+  image: string | null;
+  updated: string;
+  items: FeedItem[];
+}
+
+function chapterItem(series: SeriesRow, chapter: ChapterRow): FeedItem {
+  const number = Number(chapter.chapter_number);
+  return {
+    id: `urn:bntoon:chapter:${chapter.id}`,
+    title: `${series.title} - Chapter ${number}${chapter.title ? `: ${chapter.title}` : ""}`,
+    link: `${SITE_URL}/series/${series.slug}/chapter/${number}`,
+    published: chapter.created_at,
+    summary: series.description,
+    image: series.cover_url,
+  };
+}
+
+function latestUpdate(items: FeedItem[], fallback: string) {
+  const times = items.map((item) => new Date(item.published).getTime());
+  return new Date(times.length > 0 ? Math.max(...times) : fallback).toISOString();
+}
+
+// ============ ROUTES ============
+
+async function latestFeed(): Promise<Feed> {
+  const series = await dbAction<(SeriesRow & { chapters: ChapterRow[] })[]>(
+    "get_series_with_latest_chapters",
+    { limit: FEED_LIMIT }
+  );
+  const items = series
+    .flatMap((s) => s.chapters.map((c) => chapterItem(s, c)))
+    .sort((a, b) => new Date(b.published).getTime() - new Date(a.published).getTime())
+    .slice(0, FEED_LIMIT);
+
+  return {
+    id: "urn:bntoon:feed:latest",
+    title: "BnToon - Latest Chapters",
+    description: "New chapters across every series on BnToon",
+    self: FEED_URL,
+    link: `${SITE_URL}/`,
+    image: null,
+    updated: latestUpdate(items, new Date(0).toISOString()),
+    items,
+  };
+}
+
+async function seriesFeed(slug: string): Promise<Feed | null> {
+  const series = await dbAction<SeriesRow | null>("get_series_by_slug", { slug });
+  if (!series) return null;
+  const chapters = await dbAction<ChapterRow[]>("get_chapters", { series_id: series.id });
+  const items = chapters.slice(0, FEED_LIMIT).map((c) => chapterItem(series, c));
+
+  return {
+    id: `urn:bntoon:feed:series:${series.id}`,
+    title: `${series.title} - BnToon`,
+    description: series.description || `New chapters of ${series.title} on BnToon`,
+    self: `${FEED_URL}/series/${series.slug}`,
+    link: `${SITE_URL}/series/${series.slug}`,
+    image: series.cover_url,
+    updated: latestUpdate(items, series.updated_at),
+    items,
+  };
+}
+
+// ============ RENDERING ============
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function imageType(url: string) {
+  const ext = new URL(url, "https://example.com").pathname.split(".").pop()?.toLowerCase();
+  if (ext === "png") return "image/png";
+  if (ext === "webp") return "image/webp";
+  if (ext === "gif") return "image/gif";
+  if (ext === "avif") return "image/avif";
+  return "image/jpeg";
+}
+
+// Feed readers show this as the item body: the cover followed by the synopsis
+function itemHtml(item: FeedItem) {
+  const parts: string[] = [];
+  if (item.image) parts.push(`<p><img src="${escapeXml(item.image)}" alt=""/></p>`);
+  if (item.summary) parts.push(`<p>${escapeXml(item.summary)}</p>`);
+  parts.push(`<p><a href="${escapeXml(item.link)}">Read now</a></p>`);
+  return parts.join("");
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items
+    .map((item) => {
+      const published = new Date(item.published).toISOString();
+      const enclosure = item.image
+        ? `\n    <link rel="enclosure" href="${escapeXml(item.image)}" type="${imageType(item.image)}"/>`
+        : "";
+      return `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" href="${escapeXml(item.link)}" type="text/html"/>${enclosure}
+    <published>${published}</published>
+    <updated>${published}</updated>
+    <content type="html">${escapeXml(itemHtml(item))}</content>
+  </entry>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.id)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <updated>${feed.updated}</updated>
+  <author><name>BnToon</name></author>
+  <link rel="self" href="${escapeXml(feed.self)}" type="application/atom+xml"/>
+  <link rel="alternate" href="${escapeXml(feed.link)}" type="text/html"/>
+${feed.image ? `  <logo>${escapeXml(feed.image)}</logo>\n` : ""}${entries}
+</feed>
+`;
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items
+    .map((item) => {
+      const enclosure = item.image
+        ? `\n      <enclosure url="${escapeXml(item.image)}" length="0" type="${imageType(item.image)}"/>`
+        : "";
+      return `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.link)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>
+      <description>${escapeXml(itemHtml(item))}</description>${enclosure}
+    </item>`;
+    })
+    .join("\n");
+
+  const image = feed.image
+    ? `    <image>
+      <url>${escapeXml(feed.image)}</url>
+      <title>${escapeXml(feed.title)}</title>
+      <link>${escapeXml(feed.link)}</link>
+    </image>
+`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.link)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+    <atom:link rel="self" href="${escapeXml(`${feed.self}?format=rss`)}" type="application/rss+xml"/>
+${image}${items}
+  </channel>
+</rss>
+`;
+}
+
+async function etagFor(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `W/"${hex}"`;
+}
+
+// If-None-Match wins over If-Modified-Since when both are sent (RFC 9110)
+function isNotModified(req: Request, etag: string, lastModified: string) {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*");
+  }
+  const ifModifiedSince = req.headers.get("If-Modified-Since");
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && Date.parse(lastModified) <= since;
+  }
+  return false;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  // Path after the function name, e.g. /series/<slug>
+  const path = url.pathname.replace(/^.*?\/feed(?=\/|$)/, "").replace(/\/+$/, "") || "/";
+  const format = url.searchParams.get("format") === "rss" ? "rss" : "atom";
+
+  try {
+    let feed: Feed | null;
+    if (path === "/" || path === "/latest") {
+      feed = await latestFeed();
+    } else {
+      const seriesMatch = path.match(/^\/series\/([^/]+)$/);
+      feed = seriesMatch ? await seriesFeed(decodeURIComponent(seriesMatch[1])) : null;
+    }
+
+    if (!feed) {
+      return new Response(JSON.stringify({ error: "Not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body = format === "rss" ? renderRss(feed) : renderAtom(feed);
+    // HTTP dates have second precision
+    const lastModified = new Date(Math.floor(Date.parse(feed.updated) / 1000) * 1000).toUTCString();
+    const cacheHeaders = {
+      "Cache-Control": "public, max-age=300",
+      ETag: await etagFor(body),
+      "Last-Modified": lastModified,
+    };
+
+    if (isNotModified(req, cacheHeaders.ETag, lastModified)) {
+      return new Response(null, { status: 304, headers: { ...corsHeaders, ...cacheHeaders } });
+    }
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        ...cacheHeaders,
+        "Content-Type": `${format === "rss" ? "application/rss+xml" : "application/atom+xml"}; charset=utf-8`,
+      },
+    });
+  } catch (error) {
+    console.error("Feed error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
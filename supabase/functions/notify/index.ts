@@ -0,0 +1,71 @@
+// Sends queued Telegram announcements for new chapters (see notification_queue).
+// The db function queues jobs in create_chapter and pings this function right
+// away; retries need it to be called on a schedule too, e.g. every minute:
+//   POST /functions/v1/notify   Authorization: Bearer <NOTIFY_SECRET>
+//
+// Environment:
+//   NOTIFY_SECRET        shared with the db function, required on every call
+//   TELEGRAM_BOT_TOKEN   bot that posts to the channel and DMs followers
+//   TELEGRAM_CHANNEL_ID  read by the db function; unset disables channel posts
+//   TELEGRAM_API_URL     optional Bot API base URL, for a local mock server
+//   TELEGRAM_CLIENT      "stub" records messages instead of sending them
+//   SITE_URL             used for the "Read now" button
+
+import { neon } from "https://esm.sh/@neondatabase/serverless@0.10.4";
+import { createTelegramClient } from "./telegram.ts";
+import { processQueue } from "./queue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function normalizeNeonConnectionString(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  if (trimmed.toLowerCase().startsWith("psql")) {
+    const quoted = trimmed.match(/psql\s+['"]([^'"]+)['"]/i);
+    if (quoted?.[1]) return quoted[1].trim();
+    const parts = trimmed.split(/\s+/).filter(Boolean);
+    const maybeUrl = parts[1];
+    if (maybeUrl) return maybeUrl.replace(/^['"]|['"]$/g, "").trim();
+  }
+  return trimmed.replace(/^['"]|['"]$/g, "").trim();
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const secret = Deno.env.get("NOTIFY_SECRET");
+  const neonConnectionString = normalizeNeonConnectionString(Deno.env.get("NEON_DATABASE_URL"));
+  if (!secret || !neonConnectionString) {
+    console.error("Missing NOTIFY_SECRET or NEON_DATABASE_URL");
+    return json({ error: "Server misconfigured" }, 500);
+  }
+  if (req.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const sql = neon(neonConnectionString);
+    const result = await processQueue(sql, createTelegramClient(), Deno.env.get("SITE_URL") || "");
+    return json({ success: true, ...result });
+  } catch (error) {
+    console.error("Notify error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,180 @@
+import { neon } from "https://esm.sh/@neondatabase/serverless@0.10.4";
+import { TelegramApiError, TelegramClient } from "./telegram.ts";
+
+type Sql = ReturnType<typeof neon>;
+
+// Jobs claimed per round; Telegram allows roughly 30 messages a second
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+// A claimed job that isn't settled within this long (crashed run) is retried
+const LEASE_SECONDS = 300;
+
+interface Job {
+  id: string;
+  chapter_id: string;
+  chat_id: string;
+  kind: "channel" | "follower";
+  attempts: number;
+}
+
+interface ChapterInfo {
+  id: string;
+  chapter_number: number;
+  title: string | null;
+  series_slug: string;
+  series_title: string;
+  cover_url: string | null;
+  notifications_muted: boolean;
+}
+
+export interface QueueResult {
+  sent: number;
+  retried: number;
+  failed: number;
+  cancelled: number;
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function announcement(job: Job, chapter: ChapterInfo) {
+  const number = Number(chapter.chapter_number);
+  const heading =
+    job.kind === "follower" ? "New chapter of a series you follow" : "New chapter released";
+  const lines = [
+    `<b>${escapeHtml(chapter.series_title)}</b>`,
+    `Chapter ${number}${chapter.title ? `: ${escapeHtml(chapter.title)}` : ""}`,
+    "",
+    heading,
+  ];
+  return lines.join("\n");
+}
+
+// Client errors other than rate limiting won't succeed on retry (chat not
+// found, bot blocked or kicked from the channel)
+function isPermanent(error: unknown) {
+  return (
+    error instanceof TelegramApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 429
+  );
+}
+
+// Exponential backoff: 1, 2, 4, 8 minutes, or what Telegram asked for
+function retryDelaySeconds(error: unknown, attempts: number) {
+  if (error instanceof TelegramApiError && error.retryAfter) return error.retryAfter;
+  return 60 * 2 ** (attempts - 1);
+}
+
+// Claims due jobs so concurrent runs don't send the same message twice.
+// Channel posts go before follower DMs.
+async function claimJobs(sql: Sql): Promise<Job[]> {
+  return (await sql`
+    UPDATE notification_queue q SET
+      status = 'sending',
+      attempts = q.attempts + 1,
+      next_attempt_at = NOW() + make_interval(secs => ${LEASE_SECONDS})
+    WHERE q.id IN (
+      SELECT id FROM notification_queue
+      WHERE status IN ('pending', 'sending') AND next_attempt_at <= NOW()
+      ORDER BY (kind = 'channel') DESC, created_at ASC
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.id, q.chapter_id, q.chat_id, q.kind, q.attempts
+  `) as Job[];
+}
+
+async function loadChapters(sql: Sql, jobs: Job[]) {
+  const ids = [...new Set(jobs.map((job) => job.chapter_id))];
+  const rows = (await sql`
+    SELECT c.id, c.chapter_number, c.title,
+      s.slug as series_slug, s.title as series_title, s.cover_url, s.notifications_muted
+    FROM chapters c
+    JOIN series s ON s.id = c.series_id
+    WHERE c.id = ANY(${ids}::uuid[])
+  `) as ChapterInfo[];
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+async function sendJob(client: TelegramClient, job: Job, chapter: ChapterInfo, siteUrl: string) {
+  const html = announcement(job, chapter);
+  const button = siteUrl
+    ? {
+        text: "Read now",
+        url: `${siteUrl}/series/${chapter.series_slug}/chapter/${Number(chapter.chapter_number)}`,
+      }
+    : undefined;
+  if (chapter.cover_url) {
+    await client.sendPhoto(job.chat_id, chapter.cover_url, html, button);
+  } else {
+    await client.sendMessage(job.chat_id, html, button);
+  }
+}
+
+// Sends every due job, a batch at a time, until the queue is drained or the
+// time budget runs out. Failed sends are rescheduled with backoff and given up
+// after MAX_ATTEMPTS.
+export async function processQueue(
+  sql: Sql,
+  client: TelegramClient,
+  siteUrl: string,
+  budgetMs = 20_000,
+): Promise<QueueResult> {
+  const result: QueueResult = { sent: 0, retried: 0, failed: 0, cancelled: 0 };
+  const deadline = Date.now() + budgetMs;
+
+  while (Date.now() < deadline) {
+    const jobs = await claimJobs(sql);
+    if (jobs.length === 0) break;
+    const chapters = await loadChapters(sql, jobs);
+
+    for (const job of jobs) {
+      const chapter = chapters.get(job.chapter_id);
+      if (!chapter || chapter.notifications_muted) {
+        await sql`
+          UPDATE notification_queue
+          SET status = 'cancelled', last_error = ${chapter ? "Series muted" : "Chapter not found"}
+          WHERE id = ${job.id}
+        `;
+        result.cancelled++;
+        continue;
+      }
+
+      try {
+        await sendJob(client, job, chapter, siteUrl);
+        await sql`
+          UPDATE notification_queue SET status = 'sent', sent_at = NOW(), last_error = NULL
+          WHERE id = ${job.id}
+        `;
+        result.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isPermanent(error) || job.attempts >= MAX_ATTEMPTS) {
+          await sql`
+            UPDATE notification_queue SET status = 'failed', last_error = ${message}
+            WHERE id = ${job.id}
+          `;
+          // Readers who blocked the bot can't receive DMs; stop queueing them
+          if (job.kind === "follower" && error instanceof TelegramApiError && error.status === 403) {
+            await sql`UPDATE series_follows SET notify = false WHERE telegram_id::text = ${job.chat_id}`;
+          }
+          result.failed++;
+        } else {
+          await sql`
+            UPDATE notification_queue SET
+              status = 'pending',
+              last_error = ${message},
+              next_attempt_at = NOW() + make_interval(secs => ${retryDelaySeconds(error, job.attempts)})
+            WHERE id = ${job.id}
+          `;
+          result.retried++;
+        }
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,103 @@
+// Minimal Telegram Bot API client for announcements. The queue only talks to
+// the TelegramClient interface, so sends can go to the real API, to a local
+// mock server (TELEGRAM_API_URL) or to the in-memory stub (TELEGRAM_CLIENT=stub).
+
+export interface LinkButton {
+  text: string;
+  url: string;
+}
+
+export interface TelegramClient {
+  sendMessage(chatId: string, html: string, button?: LinkButton): Promise<void>;
+  sendPhoto(chatId: string, photoUrl: string, html: string, button?: LinkButton): Promise<void>;
+}
+
+// A failed Bot API call. retryAfter is set when Telegram rate limited us (429).
+export class TelegramApiError extends Error {
+  status: number;
+  retryAfter: number | null;
+
+  constructor(status: number, message: string, retryAfter: number | null = null) {
+    super(message);
+    this.name = "TelegramApiError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+function replyMarkup(button?: LinkButton) {
+  return button ? { inline_keyboard: [[{ text: button.text, url: button.url }]] } : undefined;
+}
+
+export function createHttpTelegramClient(
+  botToken: string,
+  apiUrl = "https://api.telegram.org",
+): TelegramClient {
+  const call = async (method: string, body: Record<string, unknown>) => {
+    const response = await fetch(`${apiUrl}/bot${botToken}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.ok) {
+      throw new TelegramApiError(
+        result?.error_code ?? response.status,
+        result?.description || `${method} failed with ${response.status}`,
+        result?.parameters?.retry_after ?? null,
+      );
+    }
+  };
+
+  return {
+    sendMessage: (chatId, html, button) =>
+      call("sendMessage", {
+        chat_id: chatId,
+        text: html,
+        parse_mode: "HTML",
+        reply_markup: replyMarkup(button),
+      }),
+    sendPhoto: (chatId, photoUrl, html, button) =>
+      call("sendPhoto", {
+        chat_id: chatId,
+        photo: photoUrl,
+        caption: html,
+        parse_mode: "HTML",
+        reply_markup: replyMarkup(button),
+      }),
+  };
+}
+
+export interface StubMessage {
+  chatId: string;
+  html: string;
+  photoUrl?: string;
+  button?: LinkButton;
+}
+
+// Records messages instead of sending them; pass an array to inspect them
+export function createStubTelegramClient(sent: StubMessage[] = []): TelegramClient {
+  return {
+    sendMessage: (chatId, html, button) => {
+      sent.push({ chatId, html, button });
+      console.log(`[telegram stub] message to ${chatId}`);
+      return Promise.resolve();
+    },
+    sendPhoto: (chatId, photoUrl, html, button) => {
+      sent.push({ chatId, html, photoUrl, button });
+      console.log(`[telegram stub] photo to ${chatId}`);
+      return Promise.resolve();
+    },
+  };
+}
+
+export function createTelegramClient(): TelegramClient {
+  if (Deno.env.get("TELEGRAM_CLIENT") === "stub") {
+    return createStubTelegramClient();
+  }
+  const botToken = Deno.env.get("TELEGRAM_BOT_TOKEN");
+  if (!botToken) {
+    throw new Error("Missing TELEGRAM_BOT_TOKEN");
+  }
+  return createHttpTelegramClient(botToken, Deno.env.get("TELEGRAM_API_URL") || undefined);
+}
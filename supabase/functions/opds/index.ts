@@ -0,0 +1,493 @@
+// OPDS catalog for external comic readers (Panels, KOReader, Chunky, ...).
+// Feeds are served as OPDS 1.2 Atom by default and as OPDS 2.0 JSON under /v2.
+// Listings map to the db function's actions so both stay in sync.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
+const DB_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/db`;
+const EXPORT_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/export`;
+const OPDS_URL = `${SUPABASE_URL}/functions/v1/opds`;
+const SITE_URL = Deno.env.get("SITE_URL") || "";
+
+const SEARCH_LIMIT = 50;
+
+const ATOM_NAVIGATION = "application/atom+xml;profile=opds-catalog;kind=navigation";
+const ATOM_ACQUISITION = "application/atom+xml;profile=opds-catalog;kind=acquisition";
+const OPDS_JSON = "application/opds+json";
+const PSE_STREAM = "http://vaemendis.net/opds-pse/stream";
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("Origin") || "*";
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+  };
+}
+
+// ============ DATA (db function actions) ============
+
+interface SeriesRow {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string | null;
+  cover_url: string | null;
+  status: string;
+  type: string;
+  updated_at?: string;
+  latest_chapter_at?: string | null;
+  downloads_enabled?: boolean;
+}
+
+interface ChapterRow {
+  id: string;
+  chapter_number: number;
+  title: string | null;
+  chapter_type: string;
+  created_at: string;
+  page_count: number;
+}
+
+interface PageRow {
+  page_number: number;
+  image_url: string;
+}
+
+async function dbAction<T>(action: string, params: Record<string, unknown> = {}): Promise<T> {
+  const response = await fetch(DB_FUNCTION_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, params }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `${action} failed`);
+  }
+  return result.data as T;
+}
+
+// ============ FEED MODEL ============
+
+interface FeedLink {
+  rel: string;
+  href: string;
+  type: string;
+  title?: string;
+  // OPDS-PSE page count for streaming links
+  count?: number;
+}
+
+interface FeedEntry {
+  id: string;
+  title: string;
+  updated: string;
+  summary?: string | null;
+  links: FeedLink[];
+}
+
+interface Feed {
+  id: string;
+  title: string;
+  kind: "navigation" | "acquisition";
+  links: FeedLink[];
+  entries: FeedEntry[];
+}
+
+type Version = "v1" | "v2";
+
+function feedType(version: Version, kind: Feed["kind"]) {
+  if (version === "v2") return OPDS_JSON;
+  return kind === "navigation" ? ATOM_NAVIGATION : ATOM_ACQUISITION;
+}
+
+function feedUrl(version: Version, path: string) {
+  return `${OPDS_URL}${version === "v2" ? "/v2" : ""}${path}`;
+}
+
+function now() {
+  return new Date().toISOString();
+}
+
+// Series in a listing link to their chapter feed
+function seriesEntry(version: Version, series: SeriesRow): FeedEntry {
+  const links: FeedLink[] = [
+    {
+      rel: "subsection",
+      href: feedUrl(version, `/series/${series.id}`),
+      type: feedType(version, "acquisition"),
+    },
+  ];
+  if (series.cover_url) {
+    links.push(
+      { rel: "http://opds-spec.org/image", href: series.cover_url, type: "image/jpeg" },
+      { rel: "http://opds-spec.org/image/thumbnail", href: series.cover_url, type: "image/jpeg" }
+    );
+  }
+  if (SITE_URL) {
+    links.push({ rel: "alternate", href: `${SITE_URL}/series/${series.slug}`, type: "text/html" });
+  }
+
+  return {
+    id: `urn:bntoon:series:${series.id}`,
+    title: series.title,
+    updated: series.latest_chapter_at || series.updated_at || now(),
+    summary: series.description,
+    links,
+  };
+}
+
+// Chapters stream page by page (OPDS-PSE) and, when allowed, link to an archive
+function chapterEntry(series: SeriesRow, chapter: ChapterRow): FeedEntry {
+  const links: FeedLink[] = [];
+  const isPdf = chapter.chapter_type === "pdf";
+
+  if (!isPdf && chapter.page_count > 0) {
+    links.push({
+      rel: PSE_STREAM,
+      href: `${OPDS_URL}/pages/${chapter.id}/{pageNumber}`,
+      type: "image/jpeg",
+      count: chapter.page_count,
+    });
+  }
+  if (series.downloads_enabled !== false) {
+    links.push(
+      isPdf
+        ? {
+            rel: "http://opds-spec.org/acquisition",
+            href: `${EXPORT_FUNCTION_URL}?chapterId=${chapter.id}&format=pdf`,
+            type: "application/pdf",
+          }
+        : {
+            rel: "http://opds-spec.org/acquisition",
+            href: `${EXPORT_FUNCTION_URL}?chapterId=${chapter.id}&format=cbz`,
+            type: "application/vnd.comicbook+zip",
+          }
+    );
+  }
+  if (series.cover_url) {
+    links.push({ rel: "http://opds-spec.org/image/thumbnail", href: series.cover_url, type: "image/jpeg" });
+  }
+  if (SITE_URL) {
+    links.push({ rel: "alternate", href: `${SITE_URL}/series/${series.slug}/chapter/${Number(chapter.chapter_number)}`, type: "text/html" });
+  }
+
+  return {
+    id: `urn:bntoon:chapter:${chapter.id}`,
+    title: `Chapter ${chapter.chapter_number}${chapter.title ? ` - ${chapter.title}` : ""}`,
+    updated: chapter.created_at,
+    links,
+  };
+}
+
+function baseLinks(version: Version, path: string, kind: Feed["kind"]): FeedLink[] {
+  return [
+    { rel: "self", href: feedUrl(version, path), type: feedType(version, kind) },
+    { rel: "start", href: feedUrl(version, "/"), type: feedType(version, "navigation") },
+    version === "v2"
+      ? { rel: "search", href: `${feedUrl(version, "/search")}{?query}`, type: OPDS_JSON }
+      : { rel: "search", href: `${OPDS_URL}/opensearch.xml`, type: "application/opensearchdescription+xml" },
+  ];
+}
+
+// ============ ROUTES ============
+
+function rootFeed(version: Version): Feed {
+  const entry = (path: string, title: string, summary: string): FeedEntry => ({
+    id: `urn:bntoon:${path.slice(1) || "root"}`,
+    title,
+    updated: now(),
+    summary,
+    links: [{ rel: "subsection", href: feedUrl(version, path), type: feedType(version, "navigation") }],
+  });
+
+  return {
+    id: "urn:bntoon:root",
+    title: "BnToon",
+    kind: "navigation",
+    links: baseLinks(version, "/", "navigation"),
+    entries: [
+      entry("/latest", "Latest Updates", "Series with the newest chapters"),
+      entry("/popular", "Popular", "Most read series of all time"),
+      entry("/popular?period=weekly", "Popular This Week", "Most read series in the last 7 days"),
+      entry("/browse", "All Series", "Every series, recently updated first"),
+    ],
+  };
+}
+
+async function latestFeed(version: Version): Promise<Feed> {
+  const series = await dbAction<SeriesRow[]>("get_series_with_latest_chapters", { limit: 50 });
+  return {
+    id: "urn:bntoon:latest",
+    title: "Latest Updates",
+    kind: "navigation",
+    links: baseLinks(version, "/latest", "navigation"),
+    entries: series.map((s) => seriesEntry(version, s)),
+  };
+}
+
+async function popularFeed(version: Version, period: string): Promise<Feed> {
+  const timePeriod = ["weekly", "monthly"].includes(period) ? period : "all";
+  const series = await dbAction<SeriesRow[]>("get_popular_series", {
+    time_period: timePeriod,
+    result_limit: 50,
+  });
+  const path = timePeriod === "all" ? "/popular" : `/popular?period=${timePeriod}`;
+  return {
+    id: `urn:bntoon:popular:${timePeriod}`,
+    title: timePeriod === "weekly" ? "Popular This Week" : timePeriod === "monthly" ? "Popular This Month" : "Popular",
+    kind: "navigation",
+    links: baseLinks(version, path, "navigation"),
+    entries: series.map((s) => seriesEntry(version, s)),
+  };
+}
+
+async function browseFeed(version: Version, page: number): Promise<Feed> {
+  const { series, nextPage } = await dbAction<{ series: SeriesRow[]; nextPage?: number }>(
+    "get_browse_series",
+    { page }
+  );
+  const links = baseLinks(version, `/browse?page=${page}`, "navigation");
+  if (nextPage !== undefined && nextPage !== null) {
+    links.push({ rel: "next", href: feedUrl(version, `/browse?page=${nextPage}`), type: feedType(version, "navigation") });
+  }
+  if (page > 0) {
+    links.push({ rel: "previous", href: feedUrl(version, `/browse?page=${page - 1}`), type: feedType(version, "navigation") });
+  }
+  return {
+    id: "urn:bntoon:browse",
+    title: "All Series",
+    kind: "navigation",
+    links,
+    entries: series.map((s) => seriesEntry(version, s)),
+  };
+}
+
+async function searchFeed(version: Version, query: string, page: number): Promise<Feed> {
+  const series = query
+    ? await dbAction<SeriesRow[]>("search_series", {
+        search_query: query,
+        result_limit: SEARCH_LIMIT,
+        result_offset: page * SEARCH_LIMIT,
+      })
+    : [];
+  const path = `/search?q=${encodeURIComponent(query)}`;
+  const links = baseLinks(version, `${path}&page=${page}`, "navigation");
+  if (series.length === SEARCH_LIMIT) {
+    links.push({ rel: "next", href: feedUrl(version, `${path}&page=${page + 1}`), type: feedType(version, "navigation") });
+  }
+  return {
+    id: `urn:bntoon:search:${query}`,
+    title: `Search: ${query}`,
+    kind: "navigation",
+    links,
+    entries: series.map((s) => seriesEntry(version, s)),
+  };
+}
+
+async function seriesFeed(version: Version, seriesId: string): Promise<Feed | null> {
+  const [series, chapters] = await Promise.all([
+    dbAction<SeriesRow | null>("get_series", { id: seriesId }),
+    dbAction<ChapterRow[]>("get_chapters_with_page_counts", { series_id: seriesId }),
+  ]);
+  if (!series) return null;
+
+  return {
+    id: `urn:bntoon:series:${series.id}`,
+    title: series.title,
+    kind: "acquisition",
+    links: baseLinks(version, `/series/${series.id}`, "acquisition"),
+    entries: chapters.map((c) => chapterEntry(series, c)),
+  };
+}
+
+// OPDS-PSE asks for pages by zero-based index
+async function pageRedirect(chapterId: string, index: number, corsHeaders: Record<string, string>) {
+  const data = await dbAction<{ chapter: unknown; pages: PageRow[] }>("get_chapter", { id: chapterId });
+  const page = data.pages[index];
+  if (!data.chapter || !page) {
+    return new Response(JSON.stringify({ error: "Page not found" }), {
+      status: 404,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+  return new Response(null, {
+    status: 302,
+    headers: {
+      ...corsHeaders,
+      Location: page.image_url,
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
+
+function openSearchDescription() {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
+  <ShortName>BnToon</ShortName>
+  <Description>Search BnToon series</Description>
+  <InputEncoding>UTF-8</InputEncoding>
+  <OutputEncoding>UTF-8</OutputEncoding>
+  <Url type="${ATOM_NAVIGATION}" template="${escapeXml(OPDS_URL)}/search?q={searchTerms}"/>
+</OpenSearchDescription>
+`;
+}
+
+// ============ RENDERING ============
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function renderAtomLink(link: FeedLink) {
+  const attrs = [
+    `rel="${escapeXml(link.rel)}"`,
+    `href="${escapeXml(link.href)}"`,
+    `type="${escapeXml(link.type)}"`,
+  ];
+  if (link.title) attrs.push(`title="${escapeXml(link.title)}"`);
+  if (link.count !== undefined) attrs.push(`pse:count="${link.count}"`);
+  return `<link ${attrs.join(" ")}/>`;
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.entries
+    .map(
+      (entry) => `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <updated>${new Date(entry.updated).toISOString()}</updated>
+${entry.summary ? `    <summary type="text">${escapeXml(entry.summary)}</summary>\n` : ""}${entry.links
+        .map((link) => `    ${renderAtomLink(link)}`)
+        .join("\n")}
+  </entry>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opds="http://opds-spec.org/2010/catalog" xmlns:pse="http://vaemendis.net/opds-pse/ns">
+  <id>${escapeXml(feed.id)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <updated>${now()}</updated>
+  <author><name>BnToon</name></author>
+${feed.links.map((link) => `  ${renderAtomLink(link)}`).join("\n")}
+${entries}
+</feed>
+`;
+}
+
+function renderJsonLink(link: FeedLink) {
+  return {
+    rel: link.rel,
+    href: link.href,
+    type: link.type,
+    ...(link.title ? { title: link.title } : {}),
+    ...(link.href.includes("{") ? { templated: true } : {}),
+    ...(link.count !== undefined ? { properties: { numberOfItems: link.count } } : {}),
+  };
+}
+
+function renderJson(feed: Feed) {
+  const body: Record<string, unknown> = {
+    metadata: { title: feed.title, modified: now() },
+    links: feed.links.map(renderJsonLink),
+  };
+
+  if (feed.kind === "navigation") {
+    body.navigation = feed.entries.map((entry) => {
+      const target = entry.links.find((l) => l.rel === "subsection") || entry.links[0];
+      return { href: target.href, title: entry.title, type: target.type, rel: "subsection" };
+    });
+  } else {
+    body.publications = feed.entries.map((entry) => ({
+      metadata: {
+        "@type": "http://schema.org/ComicIssue",
+        identifier: entry.id,
+        title: entry.title,
+        modified: new Date(entry.updated).toISOString(),
+      },
+      links: entry.links
+        .filter((l) => !l.rel.startsWith("http://opds-spec.org/image"))
+        .map(renderJsonLink),
+      images: entry.links
+        .filter((l) => l.rel.startsWith("http://opds-spec.org/image"))
+        .map((l) => ({ href: l.href, type: l.type })),
+    }));
+  }
+
+  return JSON.stringify(body);
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  // Path after the function name, e.g. /v2/series/<id>
+  let path = url.pathname.replace(/^.*?\/opds/, "") || "/";
+  let version: Version = "v1";
+  if (path === "/v2" || path.startsWith("/v2/")) {
+    version = "v2";
+    path = path.slice(3) || "/";
+  }
+
+  try {
+    if (path === "/opensearch.xml") {
+      return new Response(openSearchDescription(), {
+        headers: { ...corsHeaders, "Content-Type": "application/opensearchdescription+xml" },
+      });
+    }
+
+    const pageMatch = path.match(/^\/pages\/([^/]+)\/(\d+)$/);
+    if (pageMatch) {
+      return await pageRedirect(pageMatch[1], Number(pageMatch[2]), corsHeaders);
+    }
+
+    const page = Math.max(0, Number(url.searchParams.get("page")) || 0);
+    let feed: Feed | null;
+    if (path === "/") {
+      feed = rootFeed(version);
+    } else if (path === "/latest") {
+      feed = await latestFeed(version);
+    } else if (path === "/popular") {
+      feed = await popularFeed(version, url.searchParams.get("period") || "all");
+    } else if (path === "/browse") {
+      feed = await browseFeed(version, page);
+    } else if (path === "/search") {
+      const query = (url.searchParams.get("q") || url.searchParams.get("query") || "").trim();
+      feed = await searchFeed(version, query, page);
+    } else {
+      const seriesMatch = path.match(/^\/series\/([^/]+)$/);
+      feed = seriesMatch ? await seriesFeed(version, seriesMatch[1]) : null;
+    }
+
+    if (!feed) {
+      return new Response(JSON.stringify({ error: "Not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(version === "v2" ? renderJson(feed) : renderAtom(feed), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": `${feedType(version, feed.kind)}; charset=utf-8`,
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("OPDS error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -103,10 +103,29 @@ Deno.serve(async (req) => {
       // Create all required tables
       console.log("Creating tables...");
 
+      // Search helpers used by the series generated columns below; array_to_string
+      // is only STABLE, so the columns go through these IMMUTABLE wrappers
+      await sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+      await sql`
+        CREATE OR REPLACE FUNCTION series_search_vector(title TEXT, alternative_titles TEXT[], description TEXT)
+        RETURNS tsvector LANGUAGE sql IMMUTABLE AS $$
+          SELECT setweight(to_tsvector('simple', coalesce(title, '')), 'A')
+            || setweight(to_tsvector('simple', coalesce(array_to_string(alternative_titles, ' '), '')), 'B')
+            || setweight(to_tsvector('english', coalesce(description, '')), 'C')
+        $$
+      `;
+      await sql`
+        CREATE OR REPLACE FUNCTION series_search_titles(title TEXT, alternative_titles TEXT[])
+        RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+          SELECT coalesce(title, '') || ' ' || coalesce(array_to_string(alternative_titles, ' '), '')
+        $$
+      `;
+
       await sql`
         CREATE TABLE IF NOT EXISTS series (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
           title TEXT NOT NULL,
+          slug TEXT NOT NULL UNIQUE,
           alternative_titles TEXT[] DEFAULT '{}',
           description TEXT,
           cover_url TEXT,
@@ -115,11 +134,53 @@ Deno.serve(async (req) => {
           type TEXT NOT NULL DEFAULT 'manhwa',
           rating NUMERIC,
           is_featured BOOLEAN NOT NULL DEFAULT false,
+          downloads_enabled BOOLEAN NOT NULL DEFAULT true,
+          notifications_muted BOOLEAN NOT NULL DEFAULT false,
+          release_year INTEGER,
           total_views BIGINT NOT NULL DEFAULT 0,
+          search_vector tsvector GENERATED ALWAYS AS (series_search_vector(title, alternative_titles, description)) STORED,
+          search_titles TEXT GENERATED ALWAYS AS (series_search_titles(title, alternative_titles)) STORED,
           created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
           updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
         )
       `;
+      // Added after the table was first created
+      await sql`ALTER TABLE series ADD COLUMN IF NOT EXISTS downloads_enabled BOOLEAN NOT NULL DEFAULT true`;
+      await sql`ALTER TABLE series ADD COLUMN IF NOT EXISTS notifications_muted BOOLEAN NOT NULL DEFAULT false`;
+      await sql`ALTER TABLE series ADD COLUMN IF NOT EXISTS release_year INTEGER`;
+      await sql`ALTER TABLE series ADD COLUMN IF NOT EXISTS slug TEXT UNIQUE`;
+      // Backfill slugs from titles in creation order, numbering any that are
+      // taken (including by slugs assigned earlier) until they're free
+      await sql`
+        DO $$
+        DECLARE
+          rec record;
+          base text;
+          candidate text;
+          n integer;
+        BEGIN
+          FOR rec IN SELECT id, title FROM series WHERE slug IS NULL ORDER BY created_at, id LOOP
+            base := COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(lower(rec.title), '[^a-z0-9]+', '-', 'g')), ''), 'series');
+            candidate := base;
+            n := 1;
+            WHILE EXISTS (SELECT 1 FROM series WHERE slug = candidate) LOOP
+              n := n + 1;
+              candidate := base || '-' || n;
+            END LOOP;
+            UPDATE series SET slug = candidate WHERE id = rec.id;
+          END LOOP;
+        END
+        $$
+      `;
+      await sql`ALTER TABLE series ALTER COLUMN slug SET NOT NULL`;
+      await sql`
+        ALTER TABLE series ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (series_search_vector(title, alternative_titles, description)) STORED
+      `;
+      await sql`
+        ALTER TABLE series ADD COLUMN IF NOT EXISTS search_titles TEXT
+        GENERATED ALWAYS AS (series_search_titles(title, alternative_titles)) STORED
+      `;
       console.log("Created series table");
 
       await sql`
@@ -144,6 +205,11 @@ Deno.serve(async (req) => {
           created_at TIMESTAMPTZ NOT NULL DEFAULT now()
         )
       `;
+      // Set when the upload function processed the page; variants lists every
+      // stored size and format as { url, width, format }
+      await sql`ALTER TABLE chapter_pages ADD COLUMN IF NOT EXISTS width INTEGER`;
+      await sql`ALTER TABLE chapter_pages ADD COLUMN IF NOT EXISTS height INTEGER`;
+      await sql`ALTER TABLE chapter_pages ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'`;
       console.log("Created chapter_pages table");
 
       await sql`
@@ -167,6 +233,59 @@ Deno.serve(async (req) => {
       `;
       console.log("Created series_genres table");
 
+      await sql`
+        CREATE TABLE IF NOT EXISTS creators (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          name TEXT NOT NULL,
+          slug TEXT NOT NULL UNIQUE,
+          bio TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `;
+      console.log("Created creators table");
+
+      // Creator slugs used to be made in the browser, which left names with
+      // no Latin letters with an empty slug and no reachable page
+      await sql`
+        UPDATE creators SET slug = 'creator-' || left(id::text, 8) WHERE slug = ''
+      `;
+
+      await sql`
+        CREATE TABLE IF NOT EXISTS series_creators (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+          creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+          role TEXT NOT NULL CHECK (role IN ('story', 'art', 'publisher')),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          UNIQUE(series_id, creator_id, role)
+        )
+      `;
+      console.log("Created series_creators table");
+
+      await sql`
+        CREATE TABLE IF NOT EXISTS series_relations (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+          related_series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+          relation_type TEXT NOT NULL CHECK (relation_type IN (
+            'prequel', 'sequel', 'parent_story', 'side_story', 'spin_off', 'adaptation', 'source', 'alternative'
+          )),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          UNIQUE(series_id, related_series_id),
+          CHECK (series_id <> related_series_id)
+        )
+      `;
+      console.log("Created series_relations table");
+
+      await sql`
+        CREATE TABLE IF NOT EXISTS series_slug_history (
+          slug TEXT PRIMARY KEY,
+          series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `;
+      console.log("Created series_slug_history table");
+
       await sql`
         CREATE TABLE IF NOT EXISTS chapter_views (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -188,14 +307,78 @@ Deno.serve(async (req) => {
       `;
       console.log("Created admin_users table");
 
+      await sql`
+        CREATE TABLE IF NOT EXISTS reading_progress (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          telegram_id BIGINT NOT NULL,
+          series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+          chapter_id UUID NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+          page_number INTEGER NOT NULL DEFAULT 1,
+          scroll_offset REAL NOT NULL DEFAULT 0,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          UNIQUE(telegram_id, series_id)
+        )
+      `;
+      console.log("Created reading_progress table");
+
+      await sql`
+        CREATE TABLE IF NOT EXISTS series_follows (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          telegram_id BIGINT NOT NULL,
+          series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+          notify BOOLEAN NOT NULL DEFAULT false,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          UNIQUE(telegram_id, series_id)
+        )
+      `;
+      await sql`ALTER TABLE series_follows ADD COLUMN IF NOT EXISTS notify BOOLEAN NOT NULL DEFAULT false`;
+      console.log("Created series_follows table");
+
+      await sql`
+        CREATE TABLE IF NOT EXISTS reader_settings (
+          telegram_id BIGINT PRIMARY KEY,
+          settings JSONB NOT NULL DEFAULT '{}',
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `;
+      console.log("Created reader_settings table");
+
+      // Telegram announcements waiting to be sent by the notify function
+      await sql`
+        CREATE TABLE IF NOT EXISTS notification_queue (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          chapter_id UUID NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+          chat_id TEXT NOT NULL,
+          kind TEXT NOT NULL CHECK (kind IN ('channel', 'follower')),
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          last_error TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          sent_at TIMESTAMPTZ,
+          UNIQUE(chapter_id, chat_id)
+        )
+      `;
+      console.log("Created notification_queue table");
+
       // Create indexes
       await sql`CREATE INDEX IF NOT EXISTS idx_chapters_series_id ON chapters(series_id)`;
       await sql`CREATE INDEX IF NOT EXISTS idx_chapter_pages_chapter_id ON chapter_pages(chapter_id)`;
       await sql`CREATE INDEX IF NOT EXISTS idx_series_genres_series_id ON series_genres(series_id)`;
       await sql`CREATE INDEX IF NOT EXISTS idx_series_genres_genre_id ON series_genres(genre_id)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_creators_series_id ON series_creators(series_id)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_creators_creator_id ON series_creators(creator_id)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_relations_related_series_id ON series_relations(related_series_id)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_slug_history_series_id ON series_slug_history(series_id)`;
       await sql`CREATE INDEX IF NOT EXISTS idx_chapter_views_series_id ON chapter_views(series_id)`;
       await sql`CREATE INDEX IF NOT EXISTS idx_chapter_views_viewed_at ON chapter_views(viewed_at)`;
       await sql`CREATE INDEX IF NOT EXISTS idx_series_updated_at ON series(updated_at DESC)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_search_vector ON series USING gin(search_vector)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_search_titles_trgm ON series USING gin(search_titles gin_trgm_ops)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_reading_progress_telegram_id ON reading_progress(telegram_id, updated_at DESC)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_series_follows_series_id ON series_follows(series_id)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_notification_queue_due ON notification_queue(next_attempt_at) WHERE status IN ('pending', 'sending')`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_chapters_series_created_at ON chapters(series_id, created_at DESC)`;
       console.log("Created indexes");
 
       return new Response(
@@ -0,0 +1,147 @@
+// Storage audit for the upload function: lists every file under the folders
+// the admin uploads into and compares them with the URLs the database refers
+// to. Files nothing refers to are orphans, left behind by deletes that
+// failed half-way or uploads that never became a chapter.
+
+import { neon } from "https://esm.sh/@neondatabase/serverless@0.10.4";
+
+type Sql = ReturnType<typeof neon>;
+
+// Top-level folders the admin uploads into; must match STORAGE_FOLDERS in
+// src/lib/storage.ts
+export const STORAGE_FOLDERS = ["chapters", "covers", "banners"];
+// Younger files are never orphans: resumable chapter uploads wait in the
+// admin's browser until every page is stored, and only then create the row
+const GRACE_DAYS = 7;
+
+interface BunnyEntry {
+  ObjectName: string;
+  IsDirectory: boolean;
+  Length: number;
+  // UTC, without a zone designator
+  LastChanged: string;
+}
+
+export interface StorageObject {
+  path: string;
+  size: number;
+  last_changed: string;
+}
+
+export interface AuditReport {
+  scanned: number;
+  referenced: number;
+  recent: number;
+  orphans: StorageObject[];
+  orphan_bytes: number;
+  removed: number;
+}
+
+interface AuditOptions {
+  sql: Sql;
+  hosts: string[];
+  storageZone: string;
+  apiKey: string;
+  remove: boolean;
+  deleteObject: (path: string) => Promise<void>;
+}
+
+async function listFolder(
+  host: string,
+  options: AuditOptions,
+  folder: string,
+): Promise<StorageObject[]> {
+  const response = await fetch(`https://${host}/${options.storageZone}/${folder}/`, {
+    headers: { AccessKey: options.apiKey, Accept: "application/json" },
+  });
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Listing ${folder}/ failed on ${host} [${response.status}]: ${await response.text()}`);
+  }
+
+  const objects: StorageObject[] = [];
+  for (const entry of (await response.json()) as BunnyEntry[]) {
+    const path = `${folder}/${entry.ObjectName}`;
+    if (entry.IsDirectory) {
+      objects.push(...(await listFolder(host, options, path)));
+    } else {
+      const changed = /[zZ]|[+-]\d\d:?\d\d$/.test(entry.LastChanged)
+        ? entry.LastChanged
+        : `${entry.LastChanged}Z`;
+      objects.push({ path, size: entry.Length, last_changed: new Date(changed).toISOString() });
+    }
+  }
+  return objects;
+}
+
+// The first host that accepts the key, as with uploads
+async function resolveHost(options: AuditOptions): Promise<string> {
+  for (const host of options.hosts) {
+    const response = await fetch(`https://${host}/${options.storageZone}/`, {
+      headers: { AccessKey: options.apiKey, Accept: "application/json" },
+    });
+    await response.body?.cancel();
+    if (response.status !== 401) return host;
+  }
+  throw new Error("Bunny responded 401 for every storage host; check BUNNY_STORAGE_API_KEY and BUNNY_STORAGE_ZONE");
+}
+
+// Storage paths of every file URL stored in the database
+async function referencedPaths(sql: Sql): Promise<Set<string>> {
+  const rows = (await sql`
+    SELECT cover_url AS url FROM series WHERE cover_url IS NOT NULL
+    UNION SELECT banner_url FROM series WHERE banner_url IS NOT NULL
+    UNION SELECT pdf_url FROM chapters WHERE pdf_url IS NOT NULL
+    UNION SELECT image_url FROM chapter_pages
+    UNION SELECT v->>'url' FROM chapter_pages CROSS JOIN jsonb_array_elements(variants) v
+  `) as { url: string }[];
+
+  const paths = new Set<string>();
+  for (const { url } of rows) {
+    try {
+      paths.add(decodeURIComponent(new URL(url).pathname.replace(/^\/+/, "")));
+    } catch {
+      // Not a URL; nothing in storage can match it
+    }
+  }
+  return paths;
+}
+
+export async function auditStorage(options: AuditOptions): Promise<AuditReport> {
+  const host = await resolveHost(options);
+  const objects: StorageObject[] = [];
+  for (const folder of STORAGE_FOLDERS) {
+    objects.push(...(await listFolder(host, options, folder)));
+  }
+  // Read references after listing, so a file stored in between is still
+  // covered by the grace period rather than reported
+  const referenced = await referencedPaths(options.sql);
+
+  const cutoff = Date.now() - GRACE_DAYS * 24 * 60 * 60 * 1000;
+  const unreferenced = objects.filter((object) => !referenced.has(object.path));
+  const orphans = unreferenced.filter((object) => Date.parse(object.last_changed) < cutoff);
+
+  let removed = 0;
+  if (options.remove) {
+    for (const orphan of orphans) {
+      try {
+        await options.deleteObject(orphan.path);
+        removed++;
+      } catch (error) {
+        console.error(`Could not remove orphan ${orphan.path}:`, error);
+      }
+    }
+  }
+
+  console.log(
+    `Storage audit: ${objects.length} files, ${orphans.length} orphans${options.remove ? `, ${removed} removed` : ""}`,
+  );
+  return {
+    scanned: objects.length,
+    referenced: objects.length - unreferenced.length,
+    recent: unreferenced.length - orphans.length,
+    orphans: orphans.sort((a, b) => a.path.localeCompare(b.path)),
+    orphan_bytes: orphans.reduce((sum, orphan) => sum + orphan.size, 0),
+    removed,
+  };
+}
@@ -0,0 +1,159 @@
+// Chapter page processing for the upload function: strips metadata, splits
+// tall webtoon strips into segments and encodes every segment as WebP and
+// AVIF at several widths. The caller stores the files; this module only
+// produces them.
+
+import {
+  ImageMagick,
+  IMagickImage,
+  initializeImageMagick,
+  MagickFormat,
+  MagickGeometry,
+  MagickImage,
+} from "npm:@imagemagick/magick-wasm@0.0.30";
+
+// Widths generated for every segment. Narrower sources stop at their own
+// width; nothing is upscaled.
+const VARIANT_WIDTHS = [480, 800, 1200];
+const OUTPUT_FORMATS = [
+  { format: MagickFormat.WebP, ext: "webp", contentType: "image/webp" },
+  { format: MagickFormat.Avif, ext: "avif", contentType: "image/avif" },
+] as const;
+const QUALITY = 80;
+// One JPEG at the largest width goes along with the variants for consumers
+// that can't read WebP/AVIF, such as PDF export
+const EXPORT_FORMAT = { format: MagickFormat.Jpeg, ext: "jpeg", contentType: "image/jpeg" } as const;
+
+// Pages taller than MAX_ASPECT × their width are split into segments of
+// about SEGMENT_ASPECT × width
+const MAX_ASPECT = 3;
+const SEGMENT_ASPECT = 2;
+// Larger images are stored as uploaded. The limit is on the decoded source
+// (about 4 bytes a pixel) having to fit in the edge function's memory: it is
+// shrunk to the widest variant before slicing, so segments and the clones made
+// while encoding stay small however tall the strip is.
+const MAX_SOURCE_PIXELS = 24_000_000;
+
+// The package's dist/magick.wasm. import.meta.resolve() returns npm:
+// specifiers unchanged, so the file can't be read from the npm install.
+const MAGICK_WASM_URL = "https://cdn.jsdelivr.net/npm/@imagemagick/magick-wasm@0.0.30/dist/magick.wasm";
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]["ext"] | typeof EXPORT_FORMAT.ext;
+
+export interface EncodedFile {
+  path: string;
+  width: number;
+  format: OutputFormat;
+  contentType: string;
+  body: Uint8Array;
+}
+
+// One page of output; a sliced strip yields several
+export interface ProcessedSegment {
+  width: number;
+  height: number;
+  files: EncodedFile[];
+}
+
+let ready: Promise<void> | null = null;
+
+function initialize() {
+  ready ??= (async () => {
+    const response = await fetch(MAGICK_WASM_URL);
+    if (!response.ok) throw new Error(`Failed to load magick.wasm: ${response.status}`);
+    await initializeImageMagick(new Uint8Array(await response.arrayBuffer()));
+  })().catch((error) => {
+    // Let the next request try again instead of failing for the isolate's lifetime
+    ready = null;
+    throw error;
+  });
+  return ready;
+}
+
+// GIFs may be animated and everything else isn't a format we decode
+export function isProcessable(contentType: string) {
+  return ["image/jpeg", "image/png", "image/webp", "image/avif"].includes(contentType);
+}
+
+function segmentBounds(width: number, height: number) {
+  if (height <= width * MAX_ASPECT) return [{ y: 0, height }];
+  const count = Math.ceil(height / (width * SEGMENT_ASPECT));
+  const size = Math.ceil(height / count);
+  return Array.from({ length: count }, (_, i) => ({
+    y: i * size,
+    height: Math.min(size, height - i * size),
+  }));
+}
+
+function variantWidths(sourceWidth: number) {
+  const largest = Math.min(sourceWidth, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]);
+  return [...VARIANT_WIDTHS.filter((w) => w < largest), largest];
+}
+
+function encode(image: IMagickImage, basePath: string): EncodedFile[] {
+  const files: EncodedFile[] = [];
+  const widths = variantWidths(image.width);
+  for (const width of widths) {
+    image.clone((resized) => {
+      if (width < resized.width) resized.resize(width, 0);
+      resized.quality = QUALITY;
+      const outputs = width === widths[widths.length - 1] ? [...OUTPUT_FORMATS, EXPORT_FORMAT] : OUTPUT_FORMATS;
+      for (const output of outputs) {
+        resized.write(output.format, (data) => {
+          files.push({
+            path: `${basePath}-w${width}.${output.ext}`,
+            width,
+            format: output.ext,
+            contentType: output.contentType,
+            // The buffer is only valid inside this callback
+            body: new Uint8Array(data),
+          });
+        });
+      }
+    });
+  }
+  return files;
+}
+
+// basePath is the requested storage path without its extension; outputs are
+// named <basePath>[-<segment>]-w<width>.<ext>
+export async function processPageImage(
+  bytes: Uint8Array,
+  basePath: string,
+): Promise<ProcessedSegment[]> {
+  await initialize();
+
+  // Read the size from the header before decoding any pixels
+  const header = MagickImage.create();
+  try {
+    header.ping(bytes);
+    if (header.width * header.height > MAX_SOURCE_PIXELS) {
+      throw new Error(`Image is too large to process (${header.width}x${header.height})`);
+    }
+  } finally {
+    header.dispose();
+  }
+
+  return ImageMagick.read(bytes, (image) => {
+    // Apply EXIF rotation before strip() drops it, along with GPS and camera data
+    image.autoOrient();
+    image.strip();
+    // Nothing wider than the widest variant is served, so shrink before
+    // slicing and encoding
+    const maxWidth = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1];
+    if (image.width > maxWidth) image.resize(maxWidth, 0);
+
+    const bounds = segmentBounds(image.width, image.height);
+    return bounds.map((bound, index) => {
+      const segmentPath = bounds.length > 1 ? `${basePath}-${index + 1}` : basePath;
+      if (bounds.length === 1) {
+        return { width: image.width, height: image.height, files: encode(image, segmentPath) };
+      }
+      return image.clone((segment) => {
+        segment.crop(new MagickGeometry(0, bound.y, segment.width, bound.height));
+        segment.resetPage();
+        return { width: segment.width, height: segment.height, files: encode(segment, segmentPath) };
+      });
+    });
+  });
+}
@@ -1,3 +1,11 @@
+import { neon } from "https://esm.sh/@neondatabase/serverless@0.10.4";
+import { isProcessable, processPageImage, ProcessedSegment } from "./images.ts";
+import { auditStorage, STORAGE_FOLDERS } from "./audit.ts";
+
+// Files removed at the same time by delete_urls, and URLs accepted per request
+const DELETE_CONCURRENCY = 6;
+const MAX_DELETE_URLS = 500;
+
 function getCorsHeaders(req: Request) {
   const origin = req.headers.get("Origin") || "*";
   return {
@@ -42,7 +50,7 @@ async function tryBunnyPut(params: {
   path: string;
   apiKey: string;
   contentType: string;
-  body: ArrayBuffer;
+  body: ArrayBuffer | Uint8Array;
 }): Promise<{ publicStorageHost: string; detectedRegion?: string } | { error: string }> {
   let last401 = false;
   let lastError: { status: number; body: string; host: string } | null = null;
@@ -101,6 +109,63 @@ async function tryBunnyPut(params: {
   return { error: "Failed to upload file to storage" };
 }
 
+// Delete a file from Bunny.net, trying host candidates (some zones require a
+// region-specific host). A missing file counts as deleted.
+async function tryBunnyDelete(params: {
+  hosts: string[];
+  storageZone: string;
+  path: string;
+  apiKey: string;
+}): Promise<void> {
+  let lastErr: { status: number; body: string; host: string } | null = null;
+
+  for (const host of params.hosts) {
+    const deleteUrl = `https://${host}/${params.storageZone}/${params.path}`;
+    console.log("Deleting from:", deleteUrl);
+
+    const deleteResponse = await fetch(deleteUrl, {
+      method: "DELETE",
+      headers: {
+        AccessKey: params.apiKey,
+      },
+    });
+
+    if (deleteResponse.ok || deleteResponse.status === 404) {
+      return;
+    }
+
+    const errorText = await deleteResponse.text();
+    console.error("Bunny delete error:", errorText);
+    lastErr = { status: deleteResponse.status, body: errorText, host };
+
+    if (deleteResponse.status === 401) {
+      continue;
+    }
+
+    throw new Error(`Failed to delete file on ${host} [${deleteResponse.status}]: ${errorText}`);
+  }
+
+  throw new Error(
+    `Failed to delete file from storage (auth failed). Last: ${lastErr?.host} [${lastErr?.status}] ${lastErr?.body}`
+  );
+}
+
+// Storage path of a public URL, if it is one of ours: on the CDN host and
+// under a folder the app uploads into. Anything else, such as a pasted
+// external cover, maps to null and is never deleted.
+function ownedStoragePath(url: unknown, cdnHostname: string): string | null {
+  if (typeof url !== "string") return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname !== cdnHostname) return null;
+    const path = decodeURIComponent(parsed.pathname.replace(/^\/+/, ""));
+    if (path.split("/").includes("..")) return null;
+    return STORAGE_FOLDERS.some((folder) => path.startsWith(`${folder}/`)) ? path : null;
+  } catch {
+    return null;
+  }
+}
+
 Deno.serve(async (req) => {
   const corsHeaders = getCorsHeaders(req);
 
@@ -149,45 +214,147 @@ Deno.serve(async (req) => {
     const hostCandidates = buildHostCandidates(storageRegion);
 
     if (action === "delete") {
-      // Delete file from Bunny.net
-      // Try delete against host candidates (some zones require region-specific host)
-      let deleted = false;
-      let lastErr: { status: number; body: string; host: string } | null = null;
-
-      for (const host of hostCandidates) {
-        const deleteUrl = `https://${host}/${storageZone}/${path}`;
-        console.log("Deleting from:", deleteUrl);
-
-        const deleteResponse = await fetch(deleteUrl, {
-          method: "DELETE",
-          headers: {
-            AccessKey: apiKey,
-          },
-        });
-
-        if (deleteResponse.ok || deleteResponse.status === 404) {
-          deleted = true;
-          break;
-        }
+      await tryBunnyDelete({ hosts: hostCandidates, storageZone, path, apiKey });
 
-        const errorText = await deleteResponse.text();
-        console.error("Bunny delete error:", errorText);
-        lastErr = { status: deleteResponse.status, body: errorText, host };
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-        if (deleteResponse.status === 401) {
-          continue;
-        }
+    // Deletes stored files by their public URLs, DELETE_CONCURRENCY at a time.
+    // Returns how many were removed, how many weren't ours and the URLs that
+    // failed, which the storage audit will find again later.
+    if (action === "delete_urls") {
+      let urls: unknown;
+      try {
+        urls = JSON.parse((formData.get("urls") as string) || "[]");
+      } catch {
+        urls = null;
+      }
+      if (!Array.isArray(urls) || urls.length > MAX_DELETE_URLS) {
+        return new Response(
+          JSON.stringify({ error: `urls must be a JSON array of at most ${MAX_DELETE_URLS} URLs` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
 
-        throw new Error(`Failed to delete file on ${host} [${deleteResponse.status}]: ${errorText}`);
+      const queue: { url: string; path: string }[] = [];
+      for (const url of new Set(urls)) {
+        const objectPath = ownedStoragePath(url, cdnHostname);
+        if (objectPath) queue.push({ url: url as string, path: objectPath });
       }
+      const total = queue.length;
+      const failed: string[] = [];
+      const worker = async () => {
+        for (let item = queue.shift(); item; item = queue.shift()) {
+          try {
+            await tryBunnyDelete({ hosts: hostCandidates, storageZone, path: item.path, apiKey });
+          } catch (error) {
+            console.error(`Could not delete ${item.path}:`, error);
+            failed.push(item.url);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(DELETE_CONCURRENCY, total) }, worker));
+
+      console.log(`Deleted ${total - failed.length} of ${total} files`);
+      return new Response(
+        JSON.stringify({ deleted: total - failed.length, skipped: urls.length - total, failed }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Lists the files under the app's folders and reports the ones no database
+    // row refers to; with remove=true they are deleted as well
+    if (action === "audit") {
+      const neonConnectionString = normalizeNeonConnectionString(Deno.env.get("NEON_DATABASE_URL"));
+      if (!neonConnectionString) throw new Error("Missing NEON_DATABASE_URL");
+
+      const report = await auditStorage({
+        sql: neon(neonConnectionString),
+        hosts: hostCandidates,
+        storageZone,
+        apiKey,
+        remove: formData.get("remove") === "true",
+        deleteObject: (objectPath) =>
+          tryBunnyDelete({ hosts: hostCandidates, storageZone, path: objectPath, apiKey }),
+      });
 
-      if (!deleted) {
-        throw new Error(
-          `Failed to delete file from storage (auth failed). Last: ${lastErr?.host} [${lastErr?.status}] ${lastErr?.body}`
+      return new Response(JSON.stringify(report), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Chapter pages are stored as WebP/AVIF variants at several widths, with
+    // tall strips split into segments; each segment becomes its own page.
+    // When processing fails the file is stored as uploaded and the reason is
+    // returned as processing_error.
+    if (action === "upload_page") {
+      if (!file || !path) {
+        return new Response(
+          JSON.stringify({ error: "File and path are required" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
         );
       }
 
-      return new Response(JSON.stringify({ success: true }), {
+      let segments: ProcessedSegment[] | null = null;
+      let processingError: string | undefined;
+      if (isProcessable(file.type)) {
+        try {
+          segments = await processPageImage(
+            new Uint8Array(await file.arrayBuffer()),
+            path.replace(/\.[^./]+$/, "")
+          );
+        } catch (error) {
+          console.error("Image processing failed, storing original:", error);
+          processingError = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      let hosts = hostCandidates;
+      const put = async (filePath: string, contentType: string, body: ArrayBuffer | Uint8Array) => {
+        const putResult = await tryBunnyPut({ hosts, storageZone, path: filePath, apiKey, contentType, body });
+        if ("error" in putResult) throw new Error(putResult.error);
+        // Skip the region probing for the remaining files
+        hosts = [putResult.publicStorageHost];
+        return `https://${cdnHostname}/${filePath}`;
+      };
+
+      const images: {
+        url: string;
+        width: number | null;
+        height: number | null;
+        variants: { url: string; width: number; format: string }[];
+      }[] = [];
+
+      if (!segments) {
+        const url = await put(path, file.type || "application/octet-stream", await file.arrayBuffer());
+        images.push({ url, width: null, height: null, variants: [] });
+      } else {
+        for (const segment of segments) {
+          const variants = [];
+          for (const output of segment.files) {
+            const url = await put(output.path, output.contentType, output.body);
+            variants.push({ url, width: output.width, format: output.format });
+          }
+          // The widest WebP is the plain <img src> for browsers without srcset
+          const primary = variants
+            .filter((variant) => variant.format === "webp")
+            .sort((a, b) => b.width - a.width)[0];
+          images.push({ url: primary.url, width: segment.width, height: segment.height, variants });
+        }
+      }
+
+      console.log(`Stored page ${path} as ${images.length} image(s)`);
+      return new Response(JSON.stringify({ url: images[0].url, images, processing_error: processingError }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
@@ -311,3 +478,17 @@ function base64UrlDecode(str: string): Uint8Array {
   }
   return bytes;
 }
+
+function normalizeNeonConnectionString(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  if (trimmed.toLowerCase().startsWith("psql")) {
+    const quoted = trimmed.match(/psql\s+['"]([^'"]+)['"]/i);
+    if (quoted?.[1]) return quoted[1].trim();
+    const parts = trimmed.split(/\s+/).filter(Boolean);
+    const maybeUrl = parts[1];
+    if (maybeUrl) return maybeUrl.replace(/^['"]|['"]$/g, "").trim();
+  }
+  return trimmed.replace(/^['"]|['"]$/g, "").trim();
+}
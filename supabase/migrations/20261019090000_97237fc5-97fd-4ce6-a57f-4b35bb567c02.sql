@@ -0,0 +1,17 @@
+-- Per-reader reading progress, keyed by the Telegram identity from telegram-auth
+CREATE TABLE public.reading_progress (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  telegram_id bigint NOT NULL,
+  series_id uuid NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  chapter_id uuid NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  page_number integer NOT NULL DEFAULT 1,
+  -- Fraction (0-1) of the current page already scrolled past
+  scroll_offset real NOT NULL DEFAULT 0,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (telegram_id, series_id)
+);
+
+CREATE INDEX idx_reading_progress_telegram_id ON public.reading_progress(telegram_id, updated_at DESC);
+
+-- Only accessed through the db edge function
+ALTER TABLE public.reading_progress ENABLE ROW LEVEL SECURITY;
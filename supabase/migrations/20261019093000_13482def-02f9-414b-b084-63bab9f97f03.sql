@@ -0,0 +1,16 @@
+-- Reader library: series followed by a Telegram user
+CREATE TABLE public.series_follows (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  telegram_id bigint NOT NULL,
+  series_id uuid NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (telegram_id, series_id)
+);
+
+CREATE INDEX idx_series_follows_series_id ON public.series_follows(series_id);
+
+-- Unread counters compare chapter release times within a series
+CREATE INDEX idx_chapters_series_created_at ON public.chapters(series_id, created_at DESC);
+
+-- Only accessed through the db edge function
+ALTER TABLE public.series_follows ENABLE ROW LEVEL SECURITY;
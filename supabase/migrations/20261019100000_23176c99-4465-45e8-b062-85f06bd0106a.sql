@@ -0,0 +1,9 @@
+-- Reader display settings synced across devices for Telegram users
+CREATE TABLE public.reader_settings (
+  telegram_id bigint NOT NULL PRIMARY KEY,
+  settings jsonb NOT NULL DEFAULT '{}',
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only accessed through the db edge function
+ALTER TABLE public.reader_settings ENABLE ROW LEVEL SECURITY;
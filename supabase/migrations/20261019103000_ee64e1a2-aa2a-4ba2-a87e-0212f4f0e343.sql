@@ -0,0 +1,2 @@
+-- Admins can turn off CBZ/PDF chapter exports per series
+ALTER TABLE public.series ADD COLUMN downloads_enabled boolean NOT NULL DEFAULT true;
@@ -0,0 +1,35 @@
+-- Weighted full-text and trigram search over series (title > alternative titles > description)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- array_to_string is only STABLE, so generated columns go through IMMUTABLE wrappers
+CREATE OR REPLACE FUNCTION public.series_search_vector(title text, alternative_titles text[], description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(array_to_string(alternative_titles, ' '), '')), 'B')
+    || setweight(to_tsvector('english', coalesce(description, '')), 'C')
+$$;
+
+CREATE OR REPLACE FUNCTION public.series_search_titles(title text, alternative_titles text[])
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(title, '') || ' ' || coalesce(array_to_string(alternative_titles, ' '), '')
+$$;
+
+ALTER TABLE public.series
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (public.series_search_vector(title, alternative_titles, description)) STORED;
+
+ALTER TABLE public.series
+  ADD COLUMN search_titles text
+  GENERATED ALWAYS AS (public.series_search_titles(title, alternative_titles)) STORED;
+
+-- Replaces the title-only index, which no query ever used
+DROP INDEX IF EXISTS public.idx_series_title_search;
+
+CREATE INDEX idx_series_search_vector ON public.series USING gin(search_vector);
+CREATE INDEX idx_series_search_titles_trgm ON public.series USING gin(search_titles gin_trgm_ops);
@@ -0,0 +1,2 @@
+-- Original publication year, used by the browse page's year facet
+ALTER TABLE public.series ADD COLUMN release_year integer;
@@ -0,0 +1,24 @@
+-- Authors, artists and publishers, linked to series with a role
+CREATE TABLE public.creators (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  slug text NOT NULL UNIQUE,
+  bio text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.series_creators (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  series_id uuid NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  creator_id uuid NOT NULL REFERENCES public.creators(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('story', 'art', 'publisher')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (series_id, creator_id, role)
+);
+
+CREATE INDEX idx_series_creators_series_id ON public.series_creators(series_id);
+CREATE INDEX idx_series_creators_creator_id ON public.series_creators(creator_id);
+
+-- Only accessed through the db edge function
+ALTER TABLE public.creators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series_creators ENABLE ROW LEVEL SECURITY;
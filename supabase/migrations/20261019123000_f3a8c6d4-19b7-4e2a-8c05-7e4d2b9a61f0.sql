@@ -0,0 +1,18 @@
+-- Typed links between series (seasons, side stories, adaptations). Each link is
+-- stored once from the series it was added on; the reverse direction is derived.
+CREATE TABLE public.series_relations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  series_id uuid NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  related_series_id uuid NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  relation_type text NOT NULL CHECK (relation_type IN (
+    'prequel', 'sequel', 'parent_story', 'side_story', 'spin_off', 'adaptation', 'source', 'alternative'
+  )),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (series_id, related_series_id),
+  CHECK (series_id <> related_series_id)
+);
+
+CREATE INDEX idx_series_relations_related_series_id ON public.series_relations(related_series_id);
+
+-- Only accessed through the db edge function
+ALTER TABLE public.series_relations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,39 @@
+-- Human-readable URLs: every series gets a unique slug derived from its title.
+-- Existing rows are backfilled in creation order; a slug that is already
+-- taken, by a duplicate title or by another title's slug (a second "Foo"
+-- and "Foo 2" both want foo-2), is numbered until it is free.
+ALTER TABLE public.series ADD COLUMN slug text UNIQUE;
+
+DO $$
+DECLARE
+  rec record;
+  base text;
+  candidate text;
+  n integer;
+BEGIN
+  FOR rec IN SELECT id, title FROM public.series WHERE slug IS NULL ORDER BY created_at, id LOOP
+    base := COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(lower(rec.title), '[^a-z0-9]+', '-', 'g')), ''), 'series');
+    candidate := base;
+    n := 1;
+    WHILE EXISTS (SELECT 1 FROM public.series WHERE slug = candidate) LOOP
+      n := n + 1;
+      candidate := base || '-' || n;
+    END LOOP;
+    UPDATE public.series SET slug = candidate WHERE id = rec.id;
+  END LOOP;
+END
+$$;
+
+ALTER TABLE public.series ALTER COLUMN slug SET NOT NULL;
+
+-- Slugs a series used before being renamed, so old links keep resolving
+CREATE TABLE public.series_slug_history (
+  slug text NOT NULL PRIMARY KEY,
+  series_id uuid NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_series_slug_history_series_id ON public.series_slug_history(series_id);
+
+-- Only accessed through the db edge function
+ALTER TABLE public.series_slug_history ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- Telegram announcements for new chapters: a channel post plus DMs to
+-- followers who opted in, unless the series is muted. Sends are queued and
+-- retried by the notify edge function.
+ALTER TABLE public.series ADD COLUMN notifications_muted boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.series_follows ADD COLUMN notify boolean NOT NULL DEFAULT false;
+
+CREATE TABLE public.notification_queue (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chapter_id uuid NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  chat_id text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('channel', 'follower')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  sent_at timestamp with time zone,
+  UNIQUE (chapter_id, chat_id)
+);
+
+CREATE INDEX idx_notification_queue_due ON public.notification_queue(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+-- Only accessed through edge functions
+ALTER TABLE public.notification_queue ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,6 @@
+-- Processed chapter pages: intrinsic size for layout and the WebP/AVIF
+-- variants stored by the upload function, as [{ url, width, format }].
+-- Pages uploaded before processing keep NULL sizes and no variants.
+ALTER TABLE public.chapter_pages ADD COLUMN width integer;
+ALTER TABLE public.chapter_pages ADD COLUMN height integer;
+ALTER TABLE public.chapter_pages ADD COLUMN variants jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,4 @@
+-- Creator slugs are now generated by the db function. Ones made in the
+-- browser could be empty for names with no Latin letters, leaving the
+-- creator's page unreachable.
+UPDATE public.creators SET slug = 'creator-' || left(id::text, 8) WHERE slug = '';
@@ -1,15 +1,35 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Writes asset-manifest.json, the built files public/sw.js precaches on
+// install. Assets loaded before the worker took control never pass through
+// it, so without this a first visit wouldn't have the app shell offline.
+function assetManifest(): Plugin {
+  return {
+    name: "asset-manifest",
+    apply: "build",
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith("assets/") && !fileName.endsWith(".map"))
+        .map((fileName) => `/${fileName}`);
+      this.emitFile({
+        type: "asset",
+        fileName: "asset-manifest.json",
+        source: JSON.stringify(files),
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), assetManifest(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),